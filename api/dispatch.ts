@@ -0,0 +1,23 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { bot } from "../src/bot.js";
+import { dispatchDuePosts } from "../src/services/scheduler.js";
+import { renderPendingCounts } from "../src/services/votes.js";
+import { renderLiveCounts } from "../src/callbacks/votes.js";
+
+/**
+ * Dispatch endpoint that publishes scheduled posts whose time has come
+ * and shows vote counts whose re-render was throttled. Vercel Hobby only
+ * runs crons daily, so an external scheduler (e.g. QStash) calls it every
+ * minute with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse): Promise<void> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    res.status(401).json({ ok: false });
+    return;
+  }
+
+  const result = await dispatchDuePosts(bot.api);
+  const counts = await renderPendingCounts((chatId, messageId) => renderLiveCounts(bot.api, chatId, messageId));
+  res.status(200).json({ ok: true, ...result, counts });
+}
@@ -0,0 +1,21 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { isTrackableUrl, linkStatsKey, recordClick, resolveTrackedLink } from "../src/services/stats.js";
+
+/**
+ * Redirect behind tracked URL buttons: counts the click for /stats and
+ * forwards to the link. The user isn't known here, so only totals are counted.
+ * Only http(s) links are forwarded.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse): Promise<void> {
+  const token = typeof req.query.t === "string" ? req.query.t : "";
+  const link = token ? await resolveTrackedLink(token) : null;
+  if (!link || !isTrackableUrl(link.url)) {
+    res.status(404).send("Link not found");
+    return;
+  }
+
+  await recordClick(link.chatId, link.messageId, linkStatsKey(link.url));
+
+  res.setHeader("Cache-Control", "no-store");
+  res.redirect(302, link.url);
+}
@@ -0,0 +1,5 @@
+import { migrateLegacyAlerts } from "../src/services/alerts.js";
+
+// Redis credentials come from UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN
+const migrated = await migrateLegacyAlerts();
+console.log("Migrated legacy alerts:", migrated);
@@ -13,7 +13,7 @@ const bot = new Bot(token);
 
 await bot.api.setWebhook(url, {
   secret_token: secret,
-  allowed_updates: ["message", "callback_query", "my_chat_member"],
+  allowed_updates: ["message", "channel_post", "callback_query", "my_chat_member"],
   drop_pending_updates: true,
 });
 
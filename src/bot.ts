@@ -5,7 +5,19 @@ import { requireEnv } from "./utils/env.js";
 import { createRedisSession } from "./storage/redis.js";
 import { commandsComposer } from "./commands/index.js";
 import { callbacksComposer } from "./callbacks/index.js";
-import { addGroupForUser, removeGroupForUser } from "./services/groups.js";
+import {
+  addChatCandidate,
+  getChatRecord,
+  migrateChat,
+  removeChatEverywhere,
+  saveChat,
+  updateChatTitle,
+} from "./services/groups.js";
+import { migrateScheduledTargets } from "./services/scheduler.js";
+import { migrateChatPrefs } from "./services/chatPrefs.js";
+import { saveForumTopic } from "./services/topics.js";
+import { invalidateBotRights } from "./services/permissions.js";
+import { notifyChatLinked } from "./callbacks/groups.js";
 
 export const bot = new Bot<MyContext>(requireEnv("BOT_TOKEN"), {
   botInfo: {
@@ -27,7 +39,9 @@ bot.api.config.use(autoRetry({ maxRetryAttempts: 3, maxDelaySeconds: 5 }));
 // Session: Upstash Redis with lazy loading
 bot.use(createRedisSession());
 
-// ─── my_chat_member: Track groups where bot is added/removed ───
+// ─── my_chat_member: Track chats where bot is added/removed ───
+// Chats are indexed per chat; every admin with posting rights can then target them
+// The user who adds the bot gets a DM confirming the link
 bot.on("my_chat_member", async (ctx) => {
   const update = ctx.myChatMember;
   const chat = update.chat;
@@ -41,30 +55,81 @@ bot.on("my_chat_member", async (ctx) => {
   const groupChat = chat as { id: number; title?: string; type: string };
   const chatTitle = groupChat.title ?? (chat.type === "channel" ? `Канал ${groupChat.id}` : `Группа ${groupChat.id}`);
 
+  // The bot's rights changed; recompute them on next use
+  await invalidateBotRights(groupChat.id);
+
   const isActive = newStatus === "administrator" || newStatus === "member" || newStatus === "creator";
   const wasActive = oldStatus === "administrator" || oldStatus === "member" || oldStatus === "creator";
 
   if (isActive && !wasActive) {
-    // Bot joined or was promoted — associate with the user who added it
-    await addGroupForUser(from.id, {
+    // Bot joined or was promoted — index the chat
+    await saveChat({
       chatId: groupChat.id,
       title: chatTitle,
+      type: chat.type,
+      botStatus: newStatus,
+      addedBy: from.id,
+      updatedAt: Date.now(),
     });
+    await addChatCandidate(from.id, groupChat.id);
     console.log(`Bot added to "${chatTitle}" (${groupChat.id}) by user ${from.id}, status: ${oldStatus} → ${newStatus}`);
+    await notifyChatLinked(ctx.api, from.id, groupChat.id, chatTitle);
   } else if (!isActive && wasActive) {
-    // Bot was removed or demoted
-    await removeGroupForUser(from.id, groupChat.id);
+    // Bot was removed or demoted — drop the chat for everyone who linked it
+    await removeChatEverywhere(groupChat.id);
     console.log(`Bot removed from "${chatTitle}" (${groupChat.id}) by user ${from.id}, status: ${oldStatus} → ${newStatus}`);
-  } else if (isActive && wasActive && newStatus !== oldStatus) {
+  } else if (isActive && wasActive && newStatus === oldStatus) {
+    // Only the bot's rights changed — keep the title current
+    await updateChatTitle(groupChat.id, chatTitle);
+  } else if (isActive && wasActive) {
     // Status changed but still active (e.g. member → administrator) — update entry
-    await addGroupForUser(from.id, {
+    const existing = await getChatRecord(groupChat.id);
+    await saveChat({
       chatId: groupChat.id,
       title: chatTitle,
+      type: chat.type,
+      botStatus: newStatus,
+      addedBy: existing?.addedBy ?? from.id,
+      updatedAt: Date.now(),
     });
     console.log(`Bot status updated in "${chatTitle}" (${groupChat.id}): ${oldStatus} → ${newStatus}`);
   }
 });
 
+// ─── Group → supergroup migration: move everything to the new chat ID ───
+bot.on("message:migrate_to_chat_id", async (ctx) => {
+  const oldChatId = ctx.chat.id;
+  const newChatId = ctx.message.migrate_to_chat_id;
+
+  await invalidateBotRights(oldChatId);
+  await invalidateBotRights(newChatId);
+  const userIds = await migrateChat(oldChatId, newChatId);
+  for (const userId of userIds) {
+    await migrateScheduledTargets(userId, oldChatId, newChatId);
+    await migrateChatPrefs(userId, oldChatId, newChatId);
+  }
+  console.log(`Chat ${oldChatId} migrated to supergroup ${newChatId}, ${userIds.length} linked user(s) updated`);
+});
+
+// ─── Renamed chats: titles in the chat picker come from the index ───
+// Channels report renames as channel posts; other updates pass on
+bot.on(["message:new_chat_title", "channel_post:new_chat_title"], async (ctx) => {
+  const title = ctx.msg.new_chat_title;
+  await updateChatTitle(ctx.chat.id, title);
+  console.log(`Chat ${ctx.chat.id} renamed to "${title}"`);
+});
+
+// ─── Forum topics: remember topics to offer them when sending ───
+// Bot API can't list a forum's topics, so they're collected from service messages
+bot.on(["message:forum_topic_created", "message:forum_topic_edited"], async (ctx) => {
+  const threadId = ctx.message.message_thread_id;
+  const name = ctx.message.forum_topic_created?.name ?? ctx.message.forum_topic_edited?.name;
+  if (!threadId || !name) return;
+
+  await saveForumTopic(ctx.chat.id, threadId, name);
+  console.log(`Forum topic "${name}" (${threadId}) saved for chat ${ctx.chat.id}`);
+});
+
 // Handlers
 bot.use(commandsComposer);
 bot.use(callbacksComposer);
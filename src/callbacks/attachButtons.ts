@@ -1,12 +1,28 @@
 import { Composer, InlineKeyboard } from "grammy";
-import type { MyContext, SessionData, AttachFlowData } from "../types/index.js";
+import type { MyContext, SessionData, AttachFlowData, ButtonAction } from "../types/index.js";
 import {
   startKeyboard,
   attachButtonGridKeyboard,
   attachButtonActionKeyboard,
   attachEditButtonKeyboard,
   attachAwaitingUrlKeyboard,
+  gateChatKeyboard,
+  feedbackInboxKeyboard,
 } from "../keyboards/messageBuilder.js";
+import { escapeHtml } from "../utils/formatting.js";
+import { deleteLastBotMessage } from "../services/preview.js";
+import {
+  BUTTON_ACTIONS,
+  buildButtonLayoutHelp,
+  buildGatedAlertPrompt,
+  buildGatePickerText,
+  buildFeedbackPickerText,
+  buttonIcon,
+  checkCanAddButton,
+  placeButton,
+} from "../services/buttons.js";
+import { getChatRecord, getGroupsForUser } from "../services/groups.js";
+import { getInboxChats } from "../services/feedback.js";
 
 export const attachButtonsCallbacks = new Composer<MyContext>();
 
@@ -14,7 +30,7 @@ export const attachButtonsCallbacks = new Composer<MyContext>();
 //  Utility: Ensure attachFlow exists (for sessions created before this feature)
 // ═══════════════════════════════════════════════════════════════
 
-function ensureAttachFlow(session: SessionData): SessionData["attachFlow"] {
+export function ensureAttachFlow(session: SessionData): SessionData["attachFlow"] {
   if (!session.attachFlow) {
     session.attachFlow = { step: "attach_idle", buttons: [] };
   }
@@ -35,15 +51,7 @@ async function showStep(
   if (!chatId) return;
 
   // Delete previous bot message
-  if (session.lastBotMessageId) {
-    try {
-      await ctx.api.deleteMessage(chatId, session.lastBotMessageId);
-    } catch {
-      // ignore
-    }
-    session.lastBotMessageId = undefined;
-    session.lastBotMessageIsPhoto = undefined;
-  }
+  await deleteLastBotMessage(ctx.api, chatId, session);
 
   const sentMsg = await ctx.api.sendMessage(chatId, text, {
     parse_mode: "HTML",
@@ -64,8 +72,7 @@ function buildButtonsPreview(buttons: AttachFlowData["buttons"]): string {
   for (const row of buttons) {
     const rowText = row
       .map((btn) => {
-        const icon = btn.action === "url" ? "🔗" : "💬";
-        return `[${icon} ${btn.text}]`;
+        return `[${buttonIcon(btn.action)} ${escapeHtml(btn.text)}]`;
       })
       .join(" ");
     lines.push(rowText);
@@ -108,17 +115,24 @@ attachButtonsCallbacks.callbackQuery("attach_buttons_start", async (ctx) => {
 
 // Add row: ab_+r:R
 attachButtonsCallbacks.callbackQuery(/^ab_\+r:(\d+)$/, async (ctx) => {
-  await ctx.answerCallbackQuery();
   const session = await ctx.session;
   const rowIdx = parseInt(ctx.match[1]!, 10);
   const af = ensureAttachFlow(session);
 
+  const limit = checkCanAddButton(af.buttons);
+  if (limit) {
+    await ctx.answerCallbackQuery({ text: limit, show_alert: true });
+    return;
+  }
+  await ctx.answerCallbackQuery();
+
   // Insert empty row and start button creation
   af.buttons.splice(rowIdx, 0, []);
   af.editingButton = { row: rowIdx, col: 0, isNew: true };
   af.step = "attach_edit_buttons";
   af.pendingButtonText = undefined;
   af.pendingButtonAction = undefined;
+  af.pendingGateChatId = undefined;
 
   await showStep(
     ctx,
@@ -130,15 +144,22 @@ attachButtonsCallbacks.callbackQuery(/^ab_\+r:(\d+)$/, async (ctx) => {
 
 // Add column: ab_+c:R:C
 attachButtonsCallbacks.callbackQuery(/^ab_\+c:(\d+):(\d+)$/, async (ctx) => {
-  await ctx.answerCallbackQuery();
   const session = await ctx.session;
   const rowIdx = parseInt(ctx.match[1]!, 10);
   const colIdx = parseInt(ctx.match[2]!, 10);
   const af = ensureAttachFlow(session);
 
+  const limit = checkCanAddButton(af.buttons, rowIdx);
+  if (limit) {
+    await ctx.answerCallbackQuery({ text: limit, show_alert: true });
+    return;
+  }
+  await ctx.answerCallbackQuery();
+
   af.editingButton = { row: rowIdx, col: colIdx, isNew: true };
   af.pendingButtonText = undefined;
   af.pendingButtonAction = undefined;
+  af.pendingGateChatId = undefined;
 
   await showStep(
     ctx,
@@ -167,16 +188,26 @@ attachButtonsCallbacks.callbackQuery(/^ab_eb:(\d+):(\d+)$/, async (ctx) => {
     return;
   }
 
-  const actionLabel = btn.action === "url" ? "🔗 Ссылка" : "💬 Уведомление";
+  const { icon, label } = BUTTON_ACTIONS[btn.action];
   const info = [
     "✏️ <b>Редактирование кнопки:</b>",
     "",
-    `<b>Текст:</b> ${btn.text}`,
-    `<b>Действие:</b> ${actionLabel}`,
-    `<b>Значение:</b> ${btn.value}`,
-  ].join("\n");
+    `<b>Текст:</b> ${escapeHtml(btn.text)}`,
+    `<b>Действие:</b> ${icon} ${label}`,
+    `<b>Значение:</b> ${escapeHtml(btn.value)}`,
+  ];
+  if (btn.gateChatId !== undefined) {
+    const title = (await getChatRecord(btn.gateChatId))?.title ?? String(btn.gateChatId);
+    info.push(`<b>Только для подписчиков:</b> ${escapeHtml(title)}`);
+  }
+  if (btn.action === "feedback") {
+    const inbox = Number(btn.value);
+    const title =
+      inbox === ctx.from.id ? "вы, в личных сообщениях" : ((await getChatRecord(inbox))?.title ?? btn.value);
+    info.push(`<b>Сообщения получает:</b> ${escapeHtml(title)}`);
+  }
 
-  await showStep(ctx, session, info, attachEditButtonKeyboard(rowIdx, colIdx));
+  await showStep(ctx, session, info.join("\n"), attachEditButtonKeyboard(rowIdx, colIdx));
 });
 
 // Start editing existing button: ab_btn_edit:R:C
@@ -190,6 +221,7 @@ attachButtonsCallbacks.callbackQuery(/^ab_btn_edit:(\d+):(\d+)$/, async (ctx) =>
   af.editingButton = { row: rowIdx, col: colIdx, isNew: false };
   af.pendingButtonText = undefined;
   af.pendingButtonAction = undefined;
+  af.pendingGateChatId = undefined;
 
   await showStep(
     ctx,
@@ -218,6 +250,22 @@ attachButtonsCallbacks.callbackQuery(/^ab_btn_del:(\d+):(\d+)$/, async (ctx) =>
   await showStep(ctx, session, buildStepText(af), attachButtonGridKeyboard(af.buttons));
 });
 
+// Text layout: syntax help and the current grid to copy; a pasted layout
+// is handled by the attach text handler in messageInput
+attachButtonsCallbacks.callbackQuery("ab_btn_layout", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const af = ensureAttachFlow(session);
+  af.step = "attach_edit_buttons";
+
+  await showStep(
+    ctx,
+    session,
+    buildButtonLayoutHelp(af.buttons),
+    new InlineKeyboard().text("⬅️ Назад", "ab_back_to_buttons"),
+  );
+});
+
 // Buttons done → awaiting URL
 attachButtonsCallbacks.callbackQuery("ab_buttons_done", async (ctx) => {
   const session = await ctx.session;
@@ -254,28 +302,74 @@ attachButtonsCallbacks.callbackQuery("ab_buttons_done", async (ctx) => {
 //  Button Action Selection (ab_ prefix)
 // ═══════════════════════════════════════════════════════════════
 
-attachButtonsCallbacks.callbackQuery("ab_btnact_url", async (ctx) => {
+// Choose the button kind: ab_btnact_ACTION
+attachButtonsCallbacks.callbackQuery(new RegExp(`^ab_btnact_(${Object.keys(BUTTON_ACTIONS).filter((a) => a !== "giveaway").join("|")})$`), async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
-  session.attachFlow.pendingButtonAction = "url";
+  const action = ctx.match[1] as ButtonAction;
+
+  // A gated alert first needs the chat; the value is awaited only once it's chosen
+  if (action === "gated_alert") {
+    const groups = await getGroupsForUser(ctx.from.id);
+    await showStep(ctx, session, buildGatePickerText(groups.length > 0), gateChatKeyboard(groups, "ab_"));
+    return;
+  }
+
+  // A feedback button needs no typed value: its inbox is picked from a list
+  if (action === "feedback") {
+    const groups = await getInboxChats(ctx.from.id);
+    await showStep(ctx, session, buildFeedbackPickerText(), feedbackInboxKeyboard(groups, "ab_"));
+    return;
+  }
 
+  session.attachFlow.pendingButtonAction = action;
   await showStep(
     ctx,
     session,
-    "🔗 Введите URL для кнопки (например, https://example.com):",
+    BUTTON_ACTIONS[action].prompt,
     new InlineKeyboard().text("⬅️ Назад", "ab_back_to_btn_action"),
   );
 });
 
-attachButtonsCallbacks.callbackQuery("ab_btnact_alert", async (ctx) => {
+// Inbox of a feedback button: ab_btnfb:me or ab_btnfb:CHAT_ID
+attachButtonsCallbacks.callbackQuery(/^ab_btnfb:(me|-?\d+)$/, async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
-  session.attachFlow.pendingButtonAction = "alert";
+  const af = ensureAttachFlow(session);
+  const editing = af.editingButton;
+  const inbox = ctx.match[1] === "me" ? ctx.from.id : Number(ctx.match[1]);
+  if (!editing) return;
+  if (inbox !== ctx.from.id && !(await getInboxChats(ctx.from.id)).some((g) => g.chatId === inbox)) return;
+
+  placeButton(af.buttons, editing, {
+    text: af.pendingButtonText ?? "Кнопка",
+    action: "feedback",
+    value: String(inbox),
+  });
+
+  af.editingButton = undefined;
+  af.pendingButtonText = undefined;
+  af.pendingButtonAction = undefined;
+  af.pendingGateChatId = undefined;
+
+  await showStep(ctx, session, buildStepText(af), attachButtonGridKeyboard(af.buttons));
+});
+
+// Gating chat of a gated alert: ab_btngate:CHAT_ID
+attachButtonsCallbacks.callbackQuery(/^ab_btngate:(-?\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const chatId = Number(ctx.match[1]);
+  const group = (await getGroupsForUser(ctx.from.id)).find((g) => g.chatId === chatId);
+  if (!group) return;
+
+  session.attachFlow.pendingButtonAction = "gated_alert";
+  session.attachFlow.pendingGateChatId = chatId;
 
   await showStep(
     ctx,
     session,
-    "💬 Введите текст всплывающего уведомления:",
+    buildGatedAlertPrompt(group.title),
     new InlineKeyboard().text("⬅️ Назад", "ab_back_to_btn_action"),
   );
 });
@@ -299,6 +393,7 @@ attachButtonsCallbacks.callbackQuery("ab_back_to_buttons", async (ctx) => {
   af.editingButton = undefined;
   af.pendingButtonText = undefined;
   af.pendingButtonAction = undefined;
+  af.pendingGateChatId = undefined;
   af.step = "attach_edit_buttons";
 
   await showStep(ctx, session, buildStepText(af), attachButtonGridKeyboard(af.buttons));
@@ -0,0 +1,75 @@
+import { Composer } from "grammy";
+import type { MessageButton, MyContext, SessionData } from "../types/index.js";
+import { deleteLastBotMessage, sendStepScreen } from "../services/preview.js";
+import { BUTTON_MOVES, buildButtonLayout, moveButton } from "../services/buttons.js";
+import type { ButtonMove } from "../services/buttons.js";
+import { buttonMoveKeyboard } from "../keyboards/messageBuilder.js";
+import { escapeHtml } from "../utils/formatting.js";
+import { ensureAttachFlow } from "./attachButtons.js";
+
+/**
+ * Move mode of the button grid editor. Serves both the main builder
+ * (mv:…) and the attach flow (ab_mv:…); the prefix selects whose grid
+ * is edited.
+ */
+export const buttonMoveCallbacks = new Composer<MyContext>();
+
+type GridPrefix = "" | "ab_";
+
+/** The grid edited by the flow with the given callback prefix */
+function gridFor(session: SessionData, prefix: GridPrefix): MessageButton[][] {
+  return prefix === "ab_" ? ensureAttachFlow(session).buttons : session.message.buttons;
+}
+
+async function showMoveScreen(
+  ctx: MyContext,
+  session: SessionData,
+  prefix: GridPrefix,
+  row: number,
+  col: number,
+): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  const buttons = gridFor(session, prefix);
+  const btn = buttons[row]?.[col];
+  if (!btn) return;
+
+  const text = [
+    `↔️ <b>Перемещение кнопки «${escapeHtml(btn.text)}»</b>`,
+    "",
+    buildButtonLayout(buttons, { row, col }),
+    "",
+    "Стрелки двигают кнопку внутри ряда и между рядами. Нажмите «Готово», когда закончите.",
+  ].join("\n");
+
+  await deleteLastBotMessage(ctx.api, chatId, session);
+  await sendStepScreen(ctx.api, chatId, session, text, buttonMoveKeyboard(buttons, row, col, prefix));
+}
+
+// Open move mode: mv:R:C / ab_mv:R:C
+buttonMoveCallbacks.callbackQuery(/^(ab_)?mv:(\d+):(\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const prefix = (ctx.match[1] ?? "") as GridPrefix;
+
+  await showMoveScreen(ctx, session, prefix, parseInt(ctx.match[2]!, 10), parseInt(ctx.match[3]!, 10));
+});
+
+// Move the button: mv:MOVE:R:C / ab_mv:MOVE:R:C
+buttonMoveCallbacks.callbackQuery(new RegExp(`^(ab_)?mv:(${BUTTON_MOVES.join("|")}):(\\d+):(\\d+)$`), async (ctx) => {
+  const session = await ctx.session;
+  const prefix = (ctx.match[1] ?? "") as GridPrefix;
+  const move = ctx.match[2] as ButtonMove;
+  const row = parseInt(ctx.match[3]!, 10);
+  const col = parseInt(ctx.match[4]!, 10);
+
+  const position = moveButton(gridFor(session, prefix), row, col, move);
+  if (!position) {
+    await ctx.answerCallbackQuery({ text: "Сюда кнопку не переместить" });
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+  await showMoveScreen(ctx, session, prefix, position.row, position.col);
+});
@@ -0,0 +1,349 @@
+import { Composer, InlineKeyboard } from "grammy";
+import type { CommandContext } from "grammy";
+import type { Draft, MyContext, SessionData } from "../types/index.js";
+import { createDefaultSession } from "../types/index.js";
+import {
+  buildPreviewText,
+  buildStepText,
+  deleteLastBotMessage,
+  hasMedia,
+  sendStepScreen,
+} from "../services/preview.js";
+import {
+  deleteDraft,
+  DRAFT_SHARE_START_PREFIX,
+  duplicateDraft,
+  getDraft,
+  getDraftsForUser,
+  getSharedDraft,
+  MAX_DRAFTS_PER_USER,
+  shareDraft,
+  unshareDraft,
+  updateDraft,
+} from "../services/drafts.js";
+import { getUserTimezone } from "../services/timezone.js";
+import { checkGateChats } from "../services/alerts.js";
+import { reviewKeyboard } from "../keyboards/messageBuilder.js";
+import { draftKeyboard, draftNameKeyboard, draftShareKeyboard, draftsListKeyboard } from "../keyboards/drafts.js";
+import { formatLocalDateTime } from "../utils/datetime.js";
+import { escapeHtml } from "../utils/formatting.js";
+import { buildStartLink } from "../utils/messageLink.js";
+
+export const draftsCallbacks = new Composer<MyContext>();
+
+// ═══════════════════════════════════════════════════════════════
+//  Utility: show step
+// ═══════════════════════════════════════════════════════════════
+
+async function showStep(
+  ctx: MyContext,
+  session: SessionData,
+  text: string,
+  keyboard: InlineKeyboard,
+): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  await deleteLastBotMessage(ctx.api, chatId, session);
+  await sendStepScreen(ctx.api, chatId, session, text, keyboard);
+}
+
+/**
+ * Shows the user's drafts. Used by the /drafts command and the
+ * "back to list" button.
+ */
+export async function showDraftsList(ctx: MyContext, session: SessionData): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const drafts = await getDraftsForUser(userId);
+  const text =
+    drafts.length === 0
+      ? "📝 У вас нет черновиков.\n\nСохранить черновик можно на шаге предпросмотра сообщения."
+      : `📝 <b>Черновики</b> (${drafts.length} из ${MAX_DRAFTS_PER_USER})`;
+
+  await showStep(ctx, session, text, draftsListKeyboard(drafts));
+}
+
+/** Review screen with a "saved" notice on top */
+export function buildDraftSavedText(session: SessionData, draft: Draft): string {
+  return `✅ Черновик «${escapeHtml(draft.name)}» сохранён.\n\n${buildStepText(session, "review")}`;
+}
+
+/** Text for the draft name prompt, with an optional error line */
+export function buildDraftNamePrompt(session: SessionData, error?: string): string {
+  const text = buildStepText(session, "draft_name");
+  return error ? `❌ ${error}\n\n${text}` : text;
+}
+
+/** Loads the user's draft the builder was resumed from, if it still exists */
+export async function getLoadedDraft(session: SessionData, userId: number): Promise<Draft | undefined> {
+  if (!session.draftId) return undefined;
+  const draft = await getDraft(session.draftId);
+  return draft && draft.userId === userId ? draft : undefined;
+}
+
+/**
+ * Loads a draft into the builder at the review step. The owner's draft
+ * stays linked for overwriting; anyone else gets a copy.
+ */
+async function openDraft(ctx: MyContext, session: SessionData, draft: Draft, notice?: string): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+  const isOwner = draft.userId === userId;
+
+  Object.assign(session, createDefaultSession());
+  session.message = draft.message;
+  session.draftId = isOwner ? draft.id : undefined;
+  session.step = "review";
+
+  const notices = notice ? [notice] : [];
+  if (!isOwner) {
+    // Messages from the copy's feedback buttons go to whoever publishes it
+    for (const btn of session.message.buttons.flat()) {
+      if (btn.action === "feedback") btn.value = String(userId);
+    }
+
+    // Gates stay only on the new owner's own chats
+    let gatesCleared = false;
+    for (const btn of session.message.buttons.flat()) {
+      if (btn.action !== "gated_alert" || !btn.gateChatId) continue;
+      if ((await checkGateChats([[btn]], userId, ctx.api)).length > 0) {
+        btn.gateChatId = undefined;
+        gatesCleared = true;
+      }
+    }
+    if (gatesCleared) {
+      notices.push("⚠️ Уведомления для подписчиков в копии были привязаны к чужому чату: измените эти кнопки и выберите свой чат.");
+    }
+  }
+
+  const text = buildStepText(session, "review");
+  await showStep(ctx, session, [...notices, text].join("\n\n"), reviewKeyboard());
+}
+
+/**
+ * Opens a draft from its share link (/start drf_TOKEN) as a copy of the
+ * shared version; changes don't touch the original.
+ */
+export async function openSharedDraft(
+  ctx: CommandContext<MyContext>,
+  session: SessionData,
+  token: string,
+): Promise<void> {
+  const draft = await getSharedDraft(token);
+  if (!draft) {
+    await ctx.reply("⚠️ Ссылка на черновик больше не действует: автор отключил её или удалил черновик.");
+    return;
+  }
+
+  await openDraft(
+    ctx,
+    session,
+    draft,
+    draft.userId === ctx.from?.id
+      ? undefined
+      : `📝 Открыта копия черновика «${escapeHtml(draft.name)}». Сохраните её, чтобы она появилась в /drafts.`,
+  );
+}
+
+/**
+ * Shows a draft with its actions.
+ * @param notice - result line of the previous action, shown on top
+ */
+async function showDraftDetails(ctx: MyContext, session: SessionData, draft: Draft, notice?: string): Promise<void> {
+  const tz = await getUserTimezone(draft.userId);
+  const lines = [
+    ...(notice ? [notice, ""] : []),
+    buildPreviewText(draft.message),
+    "",
+    "─────────────────",
+    "",
+    `📝 <b>Черновик:</b> ${escapeHtml(draft.name)}`,
+    `🕒 <b>Изменён:</b> ${formatLocalDateTime(draft.updatedAt, tz)}`,
+  ];
+  if (draft.shareToken) {
+    lines.push("🔗 <b>Доступ по ссылке:</b> включён");
+  }
+
+  await showStep(ctx, session, lines.join("\n"), draftKeyboard(draft.id));
+}
+
+async function showShareLink(ctx: MyContext, session: SessionData, draft: Draft, token: string): Promise<void> {
+  const link = buildStartLink(`${DRAFT_SHARE_START_PREFIX}${token}`);
+  const text = [
+    `🔗 <b>Ссылка на черновик «${escapeHtml(draft.name)}»</b>`,
+    "",
+    `<code>${link}</code>`,
+    "",
+    "По ссылке откроется копия черновика: её можно изменить и опубликовать в свои чаты, оригинал останется прежним.",
+    "",
+    "<i>Отключите ссылку, когда она станет не нужна.</i>",
+  ].join("\n");
+  await showStep(ctx, session, text, draftShareKeyboard(draft.id));
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Save from the review step
+// ═══════════════════════════════════════════════════════════════
+
+draftsCallbacks.callbackQuery("draft_save", async (ctx) => {
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  if (!session.message.text && !hasMedia(session.message)) {
+    await ctx.answerCallbackQuery({ text: "Сообщение пустое — сохранять нечего", show_alert: true });
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+  session.step = "draft_name";
+  const loaded = await getLoadedDraft(session, userId);
+  await showStep(ctx, session, buildDraftNamePrompt(session), draftNameKeyboard(loaded));
+});
+
+// Overwrite the draft the builder was resumed from
+draftsCallbacks.callbackQuery("draft_overwrite", async (ctx) => {
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId || !session.draftId) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  const draft = await updateDraft(session.draftId, userId, session.message);
+  if (!draft) {
+    session.draftId = undefined;
+    await ctx.answerCallbackQuery({ text: "Черновик уже удалён. Отправьте новое название.", show_alert: true });
+    await showStep(ctx, session, buildDraftNamePrompt(session), draftNameKeyboard());
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+  session.step = "review";
+  await showStep(ctx, session, buildDraftSavedText(session, draft), reviewKeyboard());
+});
+
+// ═══════════════════════════════════════════════════════════════
+//  /drafts: list, details, resume, duplicate, delete
+// ═══════════════════════════════════════════════════════════════
+
+draftsCallbacks.callbackQuery("drf_list", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showDraftsList(ctx, session);
+});
+
+draftsCallbacks.callbackQuery("drf_close", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+  await deleteLastBotMessage(ctx.api, chatId, session);
+});
+
+// Draft details: drf:ID
+draftsCallbacks.callbackQuery(/^drf:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const draft = await getDraft(ctx.match[1]!);
+  if (!draft || draft.userId !== userId) {
+    await showDraftsList(ctx, session);
+    return;
+  }
+
+  await showDraftDetails(ctx, session, draft);
+});
+
+// Resume into the builder: drf_open:ID
+draftsCallbacks.callbackQuery(/^drf_open:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const draft = await getDraft(ctx.match[1]!);
+  if (!draft || draft.userId !== userId) {
+    await showDraftsList(ctx, session);
+    return;
+  }
+
+  await openDraft(ctx, session, draft);
+});
+
+draftsCallbacks.callbackQuery(/^drf_dup:([\w-]+)$/, async (ctx) => {
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  const copy = await duplicateDraft(ctx.match[1]!, userId);
+  await ctx.answerCallbackQuery(
+    copy
+      ? { text: `Создан «${copy.name}»` }
+      : { text: `Не удалось создать копию: черновик удалён или достигнут лимит (${MAX_DRAFTS_PER_USER})`, show_alert: true },
+  );
+  await showDraftsList(ctx, session);
+});
+
+draftsCallbacks.callbackQuery(/^drf_del:([\w-]+)$/, async (ctx) => {
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  const deleted = await deleteDraft(ctx.match[1]!, userId);
+  await ctx.answerCallbackQuery({ text: deleted ? "Черновик удалён" : "Черновик не найден" });
+
+  // Drop the builder link if the deleted draft was loaded
+  if (session.draftId === ctx.match[1]) {
+    session.draftId = undefined;
+  }
+  await showDraftsList(ctx, session);
+});
+
+draftsCallbacks.callbackQuery(/^drf_share:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const id = ctx.match[1]!;
+  const token = await shareDraft(id, userId);
+  const draft = token ? await getDraft(id) : null;
+  if (!token || !draft) {
+    await showDraftsList(ctx, session);
+    return;
+  }
+  await showShareLink(ctx, session, draft, token);
+});
+
+draftsCallbacks.callbackQuery(/^drf_unshare:([\w-]+)$/, async (ctx) => {
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  const id = ctx.match[1]!;
+  const revoked = await unshareDraft(id, userId);
+  await ctx.answerCallbackQuery({ text: revoked ? "Ссылка отключена" : "Черновик не найден" });
+  const draft = revoked ? await getDraft(id) : null;
+  if (!draft) {
+    await showDraftsList(ctx, session);
+    return;
+  }
+  await showDraftDetails(ctx, session, draft, "🚫 Ссылка отключена: по ней больше нельзя открыть черновик.");
+});
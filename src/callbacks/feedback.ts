@@ -0,0 +1,189 @@
+import { Composer, InlineKeyboard, type Api } from "grammy";
+import type { CommandContext } from "grammy";
+import type { MyContext, SessionData } from "../types/index.js";
+import {
+  createFeedbackThread,
+  getFeedbackThread,
+  getThreadByMessage,
+  linkFeedbackMessage,
+  resolveFeedbackToken,
+} from "../services/feedback.js";
+import type { FeedbackThread } from "../services/feedback.js";
+import { escapeHtml } from "../utils/formatting.js";
+
+/**
+ * Conversations started by feedback buttons: the user's message goes to
+ * the post's inbox (the author's DM or a team chat), and replies travel
+ * back and forth through the bot, so the author stays anonymous.
+ * A reply to any relayed message continues the conversation; in groups
+ * this works with privacy mode on, since replies to the bot reach it.
+ */
+export const feedbackHandlers = new Composer<MyContext>();
+
+/** How the user is named in the inbox: a mention with @username when known */
+function formatSender(thread: FeedbackThread): string {
+  const name = `<a href="tg://user?id=${thread.userId}">${escapeHtml(thread.userName || String(thread.userId))}</a>`;
+  return thread.username ? `${name} (@${escapeHtml(thread.username)})` : name;
+}
+
+function replyKeyboard(thread: FeedbackThread): InlineKeyboard {
+  return new InlineKeyboard().text("↩️ Ответить", `fb_reply:${thread.id}`);
+}
+
+/** Sends the user's message to the inbox, with a button to answer it */
+async function relayToInbox(api: Api, thread: FeedbackThread, text: string): Promise<void> {
+  const sent = await api.sendMessage(
+    thread.inboxChatId,
+    [
+      `✉️ <b>Сообщение от</b> ${formatSender(thread)}`,
+      "",
+      escapeHtml(text),
+      "",
+      "<i>Ответьте на это сообщение или нажмите «Ответить» — пользователь получит ответ от имени бота.</i>",
+    ].join("\n"),
+    { parse_mode: "HTML", reply_markup: replyKeyboard(thread) },
+  );
+  await linkFeedbackMessage(thread.inboxChatId, sent.message_id, thread.id);
+}
+
+/** Sends the inbox's answer to the user's DM, without naming who answered */
+async function relayToUser(api: Api, thread: FeedbackThread, text: string): Promise<void> {
+  const sent = await api.sendMessage(
+    thread.userId,
+    ["💬 <b>Ответ автора</b>", "", escapeHtml(text)].join("\n"),
+    { parse_mode: "HTML", reply_markup: replyKeyboard(thread) },
+  );
+  await linkFeedbackMessage(thread.userId, sent.message_id, thread.id);
+}
+
+/**
+ * Opens a conversation from a feedback deep link (/start fb_TOKEN): the
+ * next text the user sends is relayed. The builder state is kept.
+ */
+export async function startFeedback(
+  ctx: CommandContext<MyContext>,
+  session: SessionData,
+  token: string,
+): Promise<void> {
+  if ((await resolveFeedbackToken(token)) === null) {
+    await ctx.reply("⚠️ Ссылка устарела: автор больше не принимает сообщения через неё.");
+    return;
+  }
+
+  session.step = "feedback_message";
+  session.feedbackToken = token;
+  await ctx.reply(
+    [
+      "✉️ <b>Сообщение автору</b>",
+      "",
+      "Напишите его одним сообщением — я передам его автору поста, а ответ пришлю сюда.",
+      "",
+      "<i>Автор увидит ваше имя.</i>",
+    ].join("\n"),
+    { parse_mode: "HTML", reply_markup: new InlineKeyboard().text("✖️ Отмена", "fb_cancel") },
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Messages: replies in a conversation and new messages
+// ═══════════════════════════════════════════════════════════════
+
+feedbackHandlers.on("message:text", async (ctx, next) => {
+  // A reply to a relayed message goes to the other side of its conversation
+  const replyTo = ctx.message.reply_to_message;
+  const thread = replyTo?.from?.id === ctx.me.id ? await getThreadByMessage(ctx.chat.id, replyTo.message_id) : null;
+  if (thread) {
+    try {
+      if (ctx.chat.id === thread.inboxChatId) {
+        await relayToUser(ctx.api, thread, ctx.message.text);
+      } else {
+        await relayToInbox(ctx.api, thread, ctx.message.text);
+      }
+      await ctx.reply("✅ Отправлено", { reply_parameters: { message_id: ctx.message.message_id } });
+    } catch (error) {
+      console.error(`Failed to relay a message of feedback thread ${thread.id}:`, error);
+      await ctx.reply("⚠️ Не удалось доставить сообщение: собеседник мог остановить бота или удалить его из чата.", {
+        reply_parameters: { message_id: ctx.message.message_id },
+      });
+    }
+    return;
+  }
+
+  if (ctx.chat.type !== "private") return next();
+  const session = await ctx.session;
+  if (session.step !== "feedback_message" || !session.feedbackToken) return next();
+
+  const token = session.feedbackToken;
+  session.step = "idle";
+  session.feedbackToken = undefined;
+
+  const inboxChatId = await resolveFeedbackToken(token);
+  if (inboxChatId === null) {
+    await ctx.reply("⚠️ Ссылка устарела: автор больше не принимает сообщения через неё.");
+    return;
+  }
+
+  const created = await createFeedbackThread({
+    userId: ctx.from.id,
+    userName: [ctx.from.first_name, ctx.from.last_name].filter(Boolean).join(" "),
+    username: ctx.from.username,
+    inboxChatId,
+    token,
+  });
+  try {
+    await relayToInbox(ctx.api, created, ctx.message.text);
+  } catch (error) {
+    console.error(`Failed to relay feedback to ${inboxChatId}:`, error);
+    await ctx.reply("⚠️ Не удалось доставить сообщение. Попробуйте позже.");
+    return;
+  }
+  await ctx.reply("✅ Сообщение отправлено автору. Ответ придёт сюда.");
+});
+
+// Only text is relayed; other messages while waiting get a hint
+feedbackHandlers.on("message", async (ctx, next) => {
+  if (ctx.chat.type !== "private") return next();
+  const session = await ctx.session;
+  if (session.step !== "feedback_message") return next();
+  await ctx.reply("✉️ Пока можно отправить только текст. Напишите сообщение или нажмите «Отмена».");
+});
+
+// ═══════════════════════════════════════════════════════════════
+//  Buttons: reply and cancel
+// ═══════════════════════════════════════════════════════════════
+
+// Reply to a conversation: fb_reply:THREAD — asks for the text with a forced reply
+feedbackHandlers.callbackQuery(/^fb_reply:([\w-]+)$/, async (ctx) => {
+  const thread = await getFeedbackThread(ctx.match[1]!);
+  const chatId = ctx.chat?.id;
+  if (!thread || (chatId !== thread.inboxChatId && chatId !== thread.userId)) {
+    await ctx.answerCallbackQuery({ text: "⚠️ Диалог устарел" });
+    return;
+  }
+  await ctx.answerCallbackQuery();
+
+  const prompt = await ctx.reply(
+    chatId === thread.inboxChatId
+      ? `↩️ Ответ для ${formatSender(thread)} — напишите его в ответ на это сообщение.`
+      : "↩️ Напишите сообщение автору в ответ на это сообщение.",
+    {
+      parse_mode: "HTML",
+      reply_markup: { force_reply: true, input_field_placeholder: "Ваш ответ" },
+    },
+  );
+  await linkFeedbackMessage(chatId, prompt.message_id, thread.id);
+});
+
+feedbackHandlers.callbackQuery("fb_cancel", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  if (session.step === "feedback_message") {
+    session.step = "idle";
+  }
+  session.feedbackToken = undefined;
+  try {
+    await ctx.editMessageText("✖️ Сообщение не отправлено.");
+  } catch {
+    // The prompt may already be gone
+  }
+});
@@ -0,0 +1,410 @@
+import { Composer, InlineKeyboard, InputFile } from "grammy";
+import type { MyContext, SentPost, SessionData } from "../types/index.js";
+import { deleteLastBotMessage, sendStepScreen } from "../services/preview.js";
+import { getSentPost, getSentPostsForUser } from "../services/posts.js";
+import {
+  addParticipant,
+  drawGiveaway,
+  getDrawList,
+  getGiveaway,
+  getParticipantCount,
+  seedCommitment,
+  setGiveawayResultMessage,
+  updateGiveaway,
+} from "../services/giveaways.js";
+import type { Giveaway, GiveawayParticipant, GiveawayResult } from "../services/giveaways.js";
+import { isChatMember } from "../services/groups.js";
+import { renderVotesThrottled } from "../services/votes.js";
+import { recordClick } from "../services/stats.js";
+import { getUserTimezone } from "../services/timezone.js";
+import {
+  giveawayDrawConfirmKeyboard,
+  giveawayKeyboard,
+  giveawaysListKeyboard,
+  giveawayStatusIcon,
+} from "../keyboards/giveaways.js";
+import type { PostGiveaway } from "../keyboards/giveaways.js";
+import { renderLiveCounts } from "./votes.js";
+import { formatLocalDateTime } from "../utils/datetime.js";
+import { escapeHtml, plural } from "../utils/formatting.js";
+import { buildMessageLink } from "../utils/messageLink.js";
+
+/**
+ * Entries into giveaways of published posts (the "giveaway" button) and
+ * their management screens in /giveaways.
+ */
+export const giveawaysCallbacks = new Composer<MyContext>();
+
+/** How many recent posts /giveaways looks through */
+const GIVEAWAY_POSTS_LIMIT = 20;
+
+async function showStep(
+  ctx: MyContext,
+  session: SessionData,
+  text: string,
+  keyboard: InlineKeyboard,
+): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  await deleteLastBotMessage(ctx.api, chatId, session);
+  await sendStepScreen(ctx.api, chatId, session, text, keyboard);
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Entries: clicks on the giveaway button of a post
+// ═══════════════════════════════════════════════════════════════
+
+giveawaysCallbacks.callbackQuery("giveaway", async (ctx) => {
+  const message = ctx.callbackQuery.message;
+  const giveaway = message ? await getGiveaway(message.chat.id, message.message_id) : null;
+  if (!message || !giveaway) {
+    await ctx.answerCallbackQuery({ text: "⚠️ Розыгрыш недоступен" });
+    return;
+  }
+
+  const chatId = message.chat.id;
+  const messageId = message.message_id;
+
+  if (giveaway.result) {
+    await ctx.answerCallbackQuery({ text: "🏁 Розыгрыш завершён, итоги — в ответе на пост" });
+    return;
+  }
+  if (giveaway.closed) {
+    await ctx.answerCallbackQuery({ text: "🔒 Приём участников завершён" });
+    return;
+  }
+
+  if (giveaway.requireMember) {
+    let member: boolean;
+    try {
+      member = await isChatMember(ctx.api, chatId, ctx.from.id);
+    } catch (error) {
+      console.error(`Failed to check membership in ${chatId} for a giveaway:`, error);
+      await ctx.answerCallbackQuery({ text: "⚠️ Не удалось проверить подписку, попробуйте позже", show_alert: true });
+      return;
+    }
+    if (!member) {
+      const title = "title" in message.chat ? message.chat.title : "чат";
+      await ctx.answerCallbackQuery({
+        text: `🔒 Участвовать могут только подписчики «${title}». Подпишитесь и нажмите ещё раз.`,
+        show_alert: true,
+      });
+      return;
+    }
+  }
+
+  const added = await addParticipant(chatId, messageId, {
+    userId: ctx.from.id,
+    name: [ctx.from.first_name, ctx.from.last_name].filter(Boolean).join(" "),
+    username: ctx.from.username,
+  });
+  await ctx.answerCallbackQuery({
+    text: added ? "🎉 Вы участвуете! Итоги появятся в ответе на пост." : "✅ Вы уже участвуете",
+  });
+  await recordClick(chatId, messageId, "giveaway", ctx.from.id);
+
+  if (added) {
+    await renderVotesThrottled(chatId, messageId, () => renderLiveCounts(ctx.api, chatId, messageId));
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════
+//  /giveaways: list and management
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Shows the user's recent posts that have a giveaway, with their stage and
+ * number of participants. Used by /giveaways.
+ */
+export async function showGiveawaysList(ctx: MyContext, session: SessionData): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const entries: PostGiveaway[] = [];
+  for (const post of await getSentPostsForUser(userId, GIVEAWAY_POSTS_LIMIT)) {
+    const giveaway = await getGiveaway(post.chatId, post.messageId);
+    if (!giveaway) continue;
+    entries.push({ post, giveaway, participants: await getParticipantCount(post.chatId, post.messageId) });
+  }
+
+  const text =
+    entries.length === 0
+      ? "🎉 Розыгрышей пока нет.\n\nДобавьте в пост кнопку «🎉 Розыгрыш» — нажатия на неё запишут участников."
+      : [
+          "🎉 <b>Розыгрыши</b>",
+          "",
+          "🟢 идёт приём · 🔒 приём закрыт · 🏁 итоги подведены. Число — участники.",
+        ].join("\n");
+
+  await showStep(ctx, session, text, giveawaysListKeyboard(entries, await getUserTimezone(userId)));
+}
+
+/**
+ * How a winner is named in the results: @username or a mention, with the
+ * ID their place in the draw list is computed from.
+ */
+function formatParticipant(p: GiveawayParticipant): string {
+  const name = p.username
+    ? `@${escapeHtml(p.username)}`
+    : `<a href="tg://user?id=${p.userId}">${escapeHtml(p.name || String(p.userId))}</a>`;
+  return `${name} · ID <code>${p.userId}</code>`;
+}
+
+/** Winners with the check data, shared by the results message and the screen */
+function formatResult(result: GiveawayResult): string[] {
+  const lines: string[] = [];
+  if (result.winners.length === 0) {
+    lines.push("Победителей нет: подходящих участников не нашлось.");
+  } else {
+    lines.push(result.winners.length === 1 ? "🏆 Победитель:" : "🏆 Победители:");
+    result.winners.forEach((w, i) => lines.push(`${i + 1}. ${formatParticipant(w)}`));
+  }
+  lines.push("");
+  lines.push(`👥 ${result.participants} ${plural(result.participants, "участник", "участника", "участников")}`);
+  if (result.skipped > 0) {
+    lines.push(`🚪 Выбыли (не подписаны на чат): ${result.skipped}`);
+  }
+  lines.push("");
+  lines.push(`🔐 Зерно: <code>${result.seed}</code>`);
+  lines.push(`SHA-256 зерна: <code>${seedCommitment(result.seed)}</code>`);
+  lines.push(`SHA-256 списка розыгрыша: <code>${result.participantsHash}</code>`);
+  lines.push(
+    "<i>Список розыгрыша опубликован файлом: SHA-256 от «зерно:ID» каждого участника по возрастанию. " +
+      "Найдите в нём свою строку; победители — первые строки, кроме выбывших.</i>",
+  );
+  return lines;
+}
+
+/** The results message, posted as a reply to the giveaway post */
+function buildResultsText(giveaway: Giveaway, result: GiveawayResult): string {
+  return ["🎉 <b>Итоги розыгрыша</b>", `🎁 ${escapeHtml(giveaway.prize)}`, "", ...formatResult(result)].join("\n");
+}
+
+async function showGiveaway(
+  ctx: MyContext,
+  session: SessionData,
+  post: SentPost,
+  giveaway: Giveaway,
+  notice?: string,
+): Promise<void> {
+  const tz = await getUserTimezone(post.userId);
+  const participants = await getParticipantCount(post.chatId, post.messageId);
+
+  const lines: string[] = [];
+  if (notice) lines.push(notice, "");
+  lines.push(`🎉 <b>Розыгрыш</b> ${giveawayStatusIcon(giveaway)}`);
+  lines.push(`🎁 ${escapeHtml(giveaway.prize)}`);
+  lines.push(`📢 ${escapeHtml(post.chatTitle)} · ${formatLocalDateTime(post.sentAt, tz)}`);
+  const link = buildMessageLink(post.chatId, post.messageId);
+  if (link) {
+    lines.push(`🔗 <a href="${link}">Открыть пост</a>`);
+  }
+  lines.push("");
+
+  if (giveaway.result) {
+    lines.push(...formatResult(giveaway.result));
+    if (giveaway.resultMessageId) {
+      const resultLink = buildMessageLink(post.chatId, giveaway.resultMessageId);
+      lines.push("", resultLink ? `📣 <a href="${resultLink}">Итоги опубликованы</a>` : "📣 Итоги опубликованы");
+    }
+  } else {
+    lines.push(`👥 Участников: ${participants}`);
+    lines.push(giveaway.closed ? "🔒 Приём участников закрыт" : "🟢 Идёт приём участников");
+    lines.push(giveaway.requireMember ? "✅ Только подписчики чата" : "Участвовать может любой");
+    if (giveaway.seed) {
+      lines.push("");
+      lines.push(`🔐 SHA-256 зерна: <code>${seedCommitment(giveaway.seed)}</code>`);
+      lines.push("<i>Зерно выбрано при закрытии приёма и будет раскрыто в итогах: по нему любой сможет проверить выбор победителей.</i>");
+    }
+  }
+
+  await showStep(ctx, session, lines.join("\n"), giveawayKeyboard(post, giveaway));
+}
+
+/**
+ * Loads a post of the current user with its giveaway. Falls back to the
+ * list (and returns null) if either is gone.
+ */
+async function loadOwnGiveaway(
+  ctx: MyContext,
+  session: SessionData,
+  id: string,
+): Promise<{ post: SentPost; giveaway: Giveaway } | null> {
+  const post = await getSentPost(id);
+  const giveaway = post && post.userId === ctx.from?.id ? await getGiveaway(post.chatId, post.messageId) : null;
+  if (!post || !giveaway) {
+    await showGiveawaysList(ctx, session);
+    return null;
+  }
+  return { post, giveaway };
+}
+
+/**
+ * Posts the draw list file and the results as replies to the giveaway post.
+ * Returns false if Telegram refused; the result stays saved and can be
+ * published again.
+ */
+async function publishResults(ctx: MyContext, post: SentPost, giveaway: Giveaway): Promise<boolean> {
+  if (!giveaway.result) return false;
+  try {
+    // The draw list goes first: results without it couldn't be checked
+    const drawList = await getDrawList(post.chatId, post.messageId, giveaway.result.seed);
+    await ctx.api.sendDocument(post.chatId, new InputFile(Buffer.from(drawList, "utf-8"), "draw-list.txt"), {
+      caption: "🔐 Список розыгрыша",
+      reply_parameters: { message_id: post.messageId, allow_sending_without_reply: true },
+    });
+    const sent = await ctx.api.sendMessage(post.chatId, buildResultsText(giveaway, giveaway.result), {
+      parse_mode: "HTML",
+      reply_parameters: { message_id: post.messageId, allow_sending_without_reply: true },
+    });
+    await setGiveawayResultMessage(post.chatId, post.messageId, sent.message_id);
+    return true;
+  } catch (error) {
+    console.error(`Failed to publish giveaway results of post ${post.id}:`, error);
+    return false;
+  }
+}
+
+// Giveaway screen: gw:ID (also "refresh")
+giveawaysCallbacks.callbackQuery(/^gw:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const loaded = await loadOwnGiveaway(ctx, session, ctx.match[1]!);
+  if (!loaded) return;
+  await showGiveaway(ctx, session, loaded.post, loaded.giveaway);
+});
+
+// Settings while the giveaway runs: membership condition, winners count, entries
+giveawaysCallbacks.callbackQuery(/^gw_(req|win|stop|open):([\w-]+)(?::(\d+))?$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const loaded = await loadOwnGiveaway(ctx, session, ctx.match[2]!);
+  if (!loaded) return;
+  const { post, giveaway } = loaded;
+
+  let changes: Parameters<typeof updateGiveaway>[2];
+  switch (ctx.match[1]) {
+    case "req":
+      changes = { requireMember: !giveaway.requireMember };
+      break;
+    case "win":
+      changes = { winnersCount: Number(ctx.match[3] ?? giveaway.winnersCount) };
+      break;
+    case "stop":
+      changes = { closed: true };
+      break;
+    default:
+      changes = { closed: false };
+  }
+
+  const updated = await updateGiveaway(post.chatId, post.messageId, changes);
+  await showGiveaway(ctx, session, post, updated ?? giveaway);
+});
+
+// Draw: gw_draw:ID asks to confirm, gw_draw_ok:ID draws and publishes
+giveawaysCallbacks.callbackQuery(/^gw_draw:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const loaded = await loadOwnGiveaway(ctx, session, ctx.match[1]!);
+  if (!loaded) return;
+  const { post, giveaway } = loaded;
+  if (giveaway.result) {
+    await showGiveaway(ctx, session, post, giveaway);
+    return;
+  }
+
+  const participants = await getParticipantCount(post.chatId, post.messageId);
+  const lines = [
+    "🎲 <b>Подвести итоги?</b>",
+    "",
+    `Приём участников закроется, из ${participants} ${plural(participants, "участника", "участников", "участников")} будет выбрано победителей: ${giveaway.winnersCount}.`,
+  ];
+  if (giveaway.requireMember) {
+    lines.push("Победители, которые отписались от чата, выбывают — вместо них выбираются следующие.");
+  }
+  lines.push("Итоги появятся в ответе на пост. Провести розыгрыш повторно будет нельзя.");
+  await showStep(ctx, session, lines.join("\n"), giveawayDrawConfirmKeyboard(post.id));
+});
+
+giveawaysCallbacks.callbackQuery(/^gw_draw_ok:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const loaded = await loadOwnGiveaway(ctx, session, ctx.match[1]!);
+  if (!loaded) return;
+  const { post, giveaway } = loaded;
+
+  const isEligible = giveaway.requireMember
+    ? (userId: number) => isChatMember(ctx.api, post.chatId, userId)
+    : async () => true;
+
+  let drawn: Awaited<ReturnType<typeof drawGiveaway>>;
+  try {
+    drawn = await drawGiveaway(post.chatId, post.messageId, isEligible);
+  } catch (error) {
+    console.error(`Failed to draw the giveaway of post ${post.id}:`, error);
+    const current = (await getGiveaway(post.chatId, post.messageId)) ?? giveaway;
+    await showGiveaway(
+      ctx,
+      session,
+      post,
+      current,
+      "⚠️ Не удалось проверить подписку участников. Бот должен быть администратором чата — попробуйте ещё раз.",
+    );
+    return;
+  }
+
+  if (!drawn) {
+    // Already drawn, or a draw is running right now
+    const current = (await getGiveaway(post.chatId, post.messageId)) ?? giveaway;
+    await showGiveaway(ctx, session, post, current);
+    return;
+  }
+
+  const published = await publishResults(ctx, post, drawn.giveaway);
+  const current = (await getGiveaway(post.chatId, post.messageId)) ?? drawn.giveaway;
+  await showGiveaway(
+    ctx,
+    session,
+    post,
+    current,
+    published ? "✅ Итоги подведены и опубликованы" : "⚠️ Итоги подведены, но опубликовать их не удалось. Проверьте права бота и попробуйте ещё раз.",
+  );
+});
+
+// Publish the results again after a failure: gw_pub:ID
+giveawaysCallbacks.callbackQuery(/^gw_pub:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const loaded = await loadOwnGiveaway(ctx, session, ctx.match[1]!);
+  if (!loaded) return;
+  const { post, giveaway } = loaded;
+  if (!giveaway.result || giveaway.resultMessageId) {
+    await showGiveaway(ctx, session, post, giveaway);
+    return;
+  }
+
+  const published = await publishResults(ctx, post, giveaway);
+  const current = (await getGiveaway(post.chatId, post.messageId)) ?? giveaway;
+  await showGiveaway(
+    ctx,
+    session,
+    post,
+    current,
+    published ? "✅ Итоги опубликованы" : "⚠️ Опубликовать итоги не удалось. Проверьте права бота и попробуйте ещё раз.",
+  );
+});
+
+giveawaysCallbacks.callbackQuery("gw_list", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showGiveawaysList(ctx, session);
+});
+
+giveawaysCallbacks.callbackQuery("gw_exit", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+  await deleteLastBotMessage(ctx.api, chatId, session);
+});
@@ -0,0 +1,547 @@
+import { Composer, InlineKeyboard, type Api } from "grammy";
+import type { GroupInfo, MyContext, SessionData } from "../types/index.js";
+import { buildStepText, deleteLastBotMessage, hasMedia, sendStepScreen } from "../services/preview.js";
+import { canUserPost, getGroupsForUser, getVerifiedGroupsForUser } from "../services/groups.js";
+import {
+  arrangeGroups,
+  chatDisplayName,
+  getChatPrefs,
+  MAX_ALIAS_LENGTH,
+  setChatAlias,
+  toggleDefaultChat,
+  toggleFavorite,
+} from "../services/chatPrefs.js";
+import {
+  describeMissingRights,
+  getBotRights,
+  invalidateBotRights,
+  rightsBadge,
+} from "../services/permissions.js";
+import {
+  chatLinkedKeyboard,
+  GROUPS_PER_PAGE,
+  groupAliasKeyboard,
+  groupPageCount,
+  groupSelectionKeyboard,
+  groupSettingsKeyboard,
+  groupSettingsListKeyboard,
+  startKeyboard,
+} from "../keyboards/messageBuilder.js";
+import { startTopicSelection } from "./topics.js";
+import { escapeHtml } from "../utils/formatting.js";
+import { requireEnv } from "../utils/env.js";
+import { readStoredSession } from "../storage/redis.js";
+
+export const groupsCallbacks = new Composer<MyContext>();
+
+// ═══════════════════════════════════════════════════════════════
+//  Utility: show step
+// ═══════════════════════════════════════════════════════════════
+
+async function showStep(
+  ctx: MyContext,
+  session: SessionData,
+  text: string,
+  keyboard: InlineKeyboard,
+): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  await deleteLastBotMessage(ctx.api, chatId, session);
+  await sendStepScreen(ctx.api, chatId, session, text, keyboard);
+}
+
+const NO_GROUPS_TEXT =
+  "📢 Нет групп или каналов с ботом, где вы администратор с правом публикации.\n\nДобавьте бота в группу или канал как администратора, затем нажмите «Обновить список».";
+
+/**
+ * Shows one page of the group checklist: favorites first, filtered by the
+ * search query, with a badge of the bot's rights per chat and an explanation
+ * of each missing right under the instruction. Rights are checked only for
+ * the chats on the page.
+ */
+export async function showGroupSelection(
+  ctx: MyContext,
+  session: SessionData,
+  groups: GroupInfo[],
+): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  session.step = "select_group";
+  session.configChatId = undefined;
+  const botUsername = requireEnv("BOT_USERNAME");
+  const prefs = await getChatPrefs(userId);
+  const selected = (session.targetGroupIds ?? []).filter((id) => groups.some((g) => g.chatId === id));
+
+  if (groups.length === 0) {
+    await showStep(
+      ctx,
+      session,
+      NO_GROUPS_TEXT,
+      groupSelectionKeyboard([], botUsername, { selected, badges: {}, prefs, page: 0 }),
+    );
+    return;
+  }
+
+  const listed = arrangeGroups(groups, prefs, session.groupSearch);
+  const page = Math.min(session.groupPage ?? 0, groupPageCount(listed.length) - 1);
+  session.groupPage = page;
+
+  const badges: Record<string, string> = {};
+  const notes: string[] = [];
+  for (const g of listed.slice(page * GROUPS_PER_PAGE, (page + 1) * GROUPS_PER_PAGE)) {
+    try {
+      const rights = await getBotRights(ctx.api, g.chatId);
+      const badge = rightsBadge(rights);
+      badges[g.chatId] = badge;
+      const missing = describeMissingRights(rights);
+      if (missing.length > 0) {
+        notes.push(`${badge} <b>${escapeHtml(chatDisplayName(g, prefs))}</b>: ${missing.join("; ")}`);
+      }
+    } catch (error) {
+      console.error(`Failed to check bot rights in ${g.chatId}:`, error);
+    }
+  }
+
+  const lines = [buildStepText(session, "select_group")];
+  if (session.groupSearch) {
+    lines.push("");
+    lines.push(
+      listed.length > 0
+        ? `🔎 Поиск «${escapeHtml(session.groupSearch)}»: найдено ${listed.length}`
+        : `🔎 По запросу «${escapeHtml(session.groupSearch)}» ничего не найдено.`,
+    );
+  } else if (groups.length > GROUPS_PER_PAGE) {
+    lines.push("");
+    lines.push("<i>Чтобы найти чат, отправьте часть его названия или псевдонима.</i>");
+  }
+  if (selected.length > 0) {
+    lines.push(`✅ Выбрано чатов: ${selected.length}`);
+  }
+  if (notes.length > 0) {
+    lines.push("");
+    lines.push("<b>Права бота:</b>");
+    lines.push(...notes);
+  }
+
+  await showStep(
+    ctx,
+    session,
+    lines.join("\n"),
+    groupSelectionKeyboard(listed, botUsername, {
+      selected,
+      badges,
+      prefs,
+      page,
+      search: session.groupSearch,
+    }),
+  );
+}
+
+/**
+ * Lists the user's chats for picking one to configure. Opens the page
+ * with the chat configured last, if any.
+ */
+async function showGroupSettingsList(
+  ctx: MyContext,
+  session: SessionData,
+  page?: number,
+): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  session.step = "select_group";
+  const prefs = await getChatPrefs(userId);
+  const groups = arrangeGroups(await getGroupsForUser(userId), prefs);
+
+  if (page === undefined) {
+    const index = groups.findIndex((g) => g.chatId === session.configChatId);
+    page = index >= 0 ? Math.floor(index / GROUPS_PER_PAGE) : 0;
+  }
+  page = Math.min(page, groupPageCount(groups.length) - 1);
+
+  await showStep(
+    ctx,
+    session,
+    [
+      "⚙️ <b>Избранное и псевдонимы</b>",
+      "",
+      "Выберите чат, чтобы закрепить его вверху списка, задать ему короткое имя или сделать чатом по умолчанию.",
+    ].join("\n"),
+    groupSettingsListKeyboard(groups, prefs, page),
+  );
+}
+
+/**
+ * Shows the picker settings of one chat.
+ * @param notice - result of the previous action, shown on top
+ */
+export async function showChatSettings(
+  ctx: MyContext,
+  session: SessionData,
+  chatId: number,
+  notice?: string,
+): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const group = (await getGroupsForUser(userId)).find((g) => g.chatId === chatId);
+  if (!group) {
+    session.configChatId = undefined;
+    await showGroupSettingsList(ctx, session);
+    return;
+  }
+
+  session.step = "select_group";
+  session.configChatId = chatId;
+  const prefs = await getChatPrefs(userId);
+  const alias = prefs.aliases[String(chatId)];
+
+  const lines: string[] = [];
+  if (notice) {
+    lines.push(notice);
+    lines.push("");
+  }
+  lines.push(`⚙️ <b>${escapeHtml(group.title)}</b>`);
+  lines.push("");
+  lines.push(`✏️ Псевдоним: ${alias ? `<b>${escapeHtml(alias)}</b>` : "не задан"}`);
+  lines.push(`⭐ В избранном: ${prefs.favorites.includes(chatId) ? "да" : "нет"}`);
+  lines.push(`📌 Чат по умолчанию: ${prefs.defaultChatId === chatId ? "да" : "нет"}`);
+  lines.push("");
+  lines.push("<i>Чат по умолчанию выбирается сразу при переходе к отправке — останется только подтвердить публикацию.</i>");
+
+  await showStep(ctx, session, lines.join("\n"), groupSettingsKeyboard(chatId, prefs));
+}
+
+/**
+ * Asks for a chat alias.
+ * @param error - shown on top when the previous input was rejected
+ */
+export async function showAliasPrompt(
+  ctx: MyContext,
+  session: SessionData,
+  chatId: number,
+  error?: string,
+): Promise<void> {
+  session.step = "group_alias";
+  session.configChatId = chatId;
+
+  const lines: string[] = [];
+  if (error) {
+    lines.push(`❌ ${error}`);
+    lines.push("");
+  }
+  lines.push(`✏️ Отправьте псевдоним чата (до ${MAX_ALIAS_LENGTH} символов):`);
+  lines.push("");
+  lines.push("<i>Псевдоним видите только вы: он показывается в списке чатов и по нему работает поиск.</i>");
+
+  await showStep(ctx, session, lines.join("\n"), groupAliasKeyboard(chatId));
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Step 9: Group Selection
+// ═══════════════════════════════════════════════════════════════
+
+// From review: the default chat (if set and nothing is selected yet) skips the list
+groupsCallbacks.callbackQuery("goto_select_group", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  session.groupSearch = undefined;
+  session.groupPage = 0;
+
+  const botId = Number(requireEnv("BOT_ID"));
+  const groups = await getVerifiedGroupsForUser(userId, ctx.api, botId);
+
+  const { defaultChatId } = await getChatPrefs(userId);
+  if (session.targetGroupIds === undefined && defaultChatId && groups.some((g) => g.chatId === defaultChatId)) {
+    session.targetGroupIds = [defaultChatId];
+    await startTopicSelection(ctx, session);
+    return;
+  }
+
+  await showGroupSelection(ctx, session, groups);
+});
+
+// Refresh groups list
+groupsCallbacks.callbackQuery("refresh_groups", async (ctx) => {
+  await ctx.answerCallbackQuery({ text: "Список обновлён" });
+  const session = await ctx.session;
+
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const botId = Number(requireEnv("BOT_ID"));
+  const groups = await getVerifiedGroupsForUser(userId, ctx.api, botId, true);
+  for (const g of groups) {
+    await invalidateBotRights(g.chatId);
+  }
+  await showGroupSelection(ctx, session, groups);
+});
+
+// Toggle a group in the selection: grp:CHATID
+groupsCallbacks.callbackQuery(/^grp:(-?\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const chatId = parseInt(ctx.match[1]!);
+
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const selected = session.targetGroupIds ?? [];
+  session.targetGroupIds = selected.includes(chatId)
+    ? selected.filter((id) => id !== chatId)
+    : [...selected, chatId];
+
+  const groups = await getGroupsForUser(userId);
+  await showGroupSelection(ctx, session, groups);
+});
+
+// Select all / clear all — only the chats matching the search, if any
+groupsCallbacks.callbackQuery("grp_all", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const groups = await getGroupsForUser(userId);
+  const listedIds = arrangeGroups(groups, await getChatPrefs(userId), session.groupSearch).map((g) => g.chatId);
+  const selected = session.targetGroupIds ?? [];
+  const allSelected = listedIds.every((id) => selected.includes(id));
+  session.targetGroupIds = allSelected
+    ? selected.filter((id) => !listedIds.includes(id))
+    : [...selected, ...listedIds.filter((id) => !selected.includes(id))];
+
+  await showGroupSelection(ctx, session, groups);
+});
+
+// Switch page: grp_page:N
+groupsCallbacks.callbackQuery(/^grp_page:(\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  session.groupPage = parseInt(ctx.match[1]!, 10);
+  await showGroupSelection(ctx, session, await getGroupsForUser(userId));
+});
+
+groupsCallbacks.callbackQuery("grp_search_clear", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  session.groupSearch = undefined;
+  session.groupPage = 0;
+  await showGroupSelection(ctx, session, await getGroupsForUser(userId));
+});
+
+// Selection done → forum topics (if any) → confirm
+groupsCallbacks.callbackQuery("grp_done", async (ctx) => {
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  // Drop chats that were unlinked since they were selected
+  const groups = await getGroupsForUser(userId);
+  const selected = (session.targetGroupIds ?? []).filter((id) => groups.some((g) => g.chatId === id));
+  session.targetGroupIds = selected;
+
+  if (selected.length === 0) {
+    await ctx.answerCallbackQuery({ text: "Выберите хотя бы один чат", show_alert: true });
+    return;
+  }
+
+  await ctx.answerCallbackQuery();
+  await startTopicSelection(ctx, session);
+});
+
+groupsCallbacks.callbackQuery("back_to_groups", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const groups = await getGroupsForUser(userId);
+  await showGroupSelection(ctx, session, groups);
+});
+
+// ═══════════════════════════════════════════════════════════════
+//  Step 9: Favorites, aliases, default chat
+// ═══════════════════════════════════════════════════════════════
+
+groupsCallbacks.callbackQuery("grp_manage", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showGroupSettingsList(ctx, session);
+});
+
+// Switch page of the settings list: grp_mpage:N
+groupsCallbacks.callbackQuery(/^grp_mpage:(\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showGroupSettingsList(ctx, session, parseInt(ctx.match[1]!, 10));
+});
+
+// Open a chat's settings: grp_cfg:CHATID (also "back" from alias input)
+groupsCallbacks.callbackQuery(/^grp_cfg:(-?\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showChatSettings(ctx, session, parseInt(ctx.match[1]!, 10));
+});
+
+groupsCallbacks.callbackQuery(/^grp_fav:(-?\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const chatId = parseInt(ctx.match[1]!, 10);
+  const prefs = await toggleFavorite(userId, chatId);
+  await showChatSettings(
+    ctx,
+    session,
+    chatId,
+    prefs.favorites.includes(chatId) ? "⭐ Чат закреплён вверху списка." : "☆ Чат убран из избранного.",
+  );
+});
+
+groupsCallbacks.callbackQuery(/^grp_alias:(-?\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showAliasPrompt(ctx, session, parseInt(ctx.match[1]!, 10));
+});
+
+groupsCallbacks.callbackQuery(/^grp_alias_del:(-?\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const chatId = parseInt(ctx.match[1]!, 10);
+  await setChatAlias(userId, chatId);
+  await showChatSettings(ctx, session, chatId, "🗑 Псевдоним удалён.");
+});
+
+groupsCallbacks.callbackQuery(/^grp_def:(-?\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const chatId = parseInt(ctx.match[1]!, 10);
+  const prefs = await toggleDefaultChat(userId, chatId);
+  await showChatSettings(
+    ctx,
+    session,
+    chatId,
+    prefs.defaultChatId === chatId ? "📌 Чат выбран по умолчанию." : "📌 Чат по умолчанию сброшен.",
+  );
+});
+
+// ═══════════════════════════════════════════════════════════════
+//  Newly linked chats: notice in DM and return to the picker
+// ═══════════════════════════════════════════════════════════════
+
+/** A message is being composed (not a post being edited), so the picker makes sense */
+function isMessageInProgress(session: SessionData): boolean {
+  return !session.editingPostId && (session.message.text !== "" || hasMedia(session.message));
+}
+
+/**
+ * Tells the user who added the bot to a chat that the chat is linked, what
+ * rights the bot still lacks there, and offers to continue their message
+ * with the chat selected. Users who haven't started the bot can't be
+ * messaged; that's only logged.
+ */
+export async function notifyChatLinked(api: Api, userId: number, chatId: number, title: string): Promise<void> {
+  const lines = [`✅ <b>Бот подключён к «${escapeHtml(title)}»</b>`];
+
+  try {
+    const missing = describeMissingRights(await getBotRights(api, chatId));
+    lines.push("");
+    if (missing.length > 0) {
+      lines.push("⚠️ <b>Что нужно исправить:</b>");
+      for (const problem of missing) {
+        lines.push(`• ${problem}`);
+      }
+    } else {
+      lines.push("🟢 У бота есть все нужные права.");
+    }
+  } catch (error) {
+    console.error(`Failed to check bot rights in ${chatId}:`, error);
+  }
+
+  const canPost = await canUserPost(api, chatId, userId, true);
+  if (!canPost) {
+    lines.push("");
+    lines.push("ℹ️ Вы не администратор с правом публикации в этом чате, поэтому он не появится в вашем списке.");
+  }
+
+  const session = await readStoredSession(String(userId));
+  const canResume = canPost && session !== undefined && isMessageInProgress(session);
+  if (canResume) {
+    lines.push("");
+    lines.push("Продолжите создание сообщения — чат уже будет отмечен в списке.");
+  }
+
+  try {
+    await api.sendMessage(userId, lines.join("\n"), {
+      parse_mode: "HTML",
+      reply_markup: chatLinkedKeyboard(chatId, canResume),
+    });
+  } catch (error) {
+    // The user may never have started the bot
+    console.error(`Failed to notify ${userId} about linking ${chatId}:`, error);
+  }
+}
+
+/**
+ * Returns to the chat picker with a newly linked chat selected. Used by the
+ * link notice and the "back to bot" link posted in the chat. Without a
+ * message in progress, offers to start one.
+ */
+export async function resumeWithLinkedChat(ctx: MyContext, session: SessionData, chatId: number): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  if (!isMessageInProgress(session)) {
+    await showStep(
+      ctx,
+      session,
+      "📝 Сообщение, которое вы создавали, уже отправлено или сброшено. Начните новое — подключённый чат будет в списке.",
+      startKeyboard(),
+    );
+    return;
+  }
+
+  // The chat is new to this user, so its admin check must not come from the cache
+  const canPost = await canUserPost(ctx.api, chatId, userId, true);
+  const botId = Number(requireEnv("BOT_ID"));
+  const groups = await getVerifiedGroupsForUser(userId, ctx.api, botId);
+
+  if (canPost && groups.some((g) => g.chatId === chatId)) {
+    session.targetGroupIds = [...new Set([...(session.targetGroupIds ?? []), chatId])];
+  }
+  session.groupSearch = undefined;
+  session.groupPage = 0;
+  await showGroupSelection(ctx, session, groups);
+}
+
+groupsCallbacks.callbackQuery(/^grp_linked:(-?\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await resumeWithLinkedChat(ctx, session, parseInt(ctx.match[1]!, 10));
+});
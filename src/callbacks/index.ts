@@ -3,12 +3,36 @@ import type { MyContext } from "../types/index.js";
 import { messageBuilderCallbacks } from "./messageBuilder.js";
 import { messageInputHandlers } from "./messageInput.js";
 import { attachButtonsCallbacks } from "./attachButtons.js";
+import { scheduledCallbacks } from "./scheduled.js";
+import { postsCallbacks } from "./posts.js";
+import { linkEditCallbacks } from "./linkEdit.js";
+import { draftsCallbacks } from "./drafts.js";
+import { topicsCallbacks } from "./topics.js";
+import { groupsCallbacks } from "./groups.js";
+import { buttonMoveCallbacks } from "./buttonMove.js";
+import { votesCallbacks } from "./votes.js";
+import { statsCallbacks } from "./stats.js";
+import { giveawaysCallbacks } from "./giveaways.js";
+import { feedbackHandlers } from "./feedback.js";
 
 export const callbacksComposer = new Composer<MyContext>();
 
 // Callback query handlers (inline keyboard button clicks)
 callbacksComposer.use(messageBuilderCallbacks);
+callbacksComposer.use(groupsCallbacks);
 callbacksComposer.use(attachButtonsCallbacks);
+callbacksComposer.use(buttonMoveCallbacks);
+callbacksComposer.use(scheduledCallbacks);
+callbacksComposer.use(postsCallbacks);
+callbacksComposer.use(linkEditCallbacks);
+callbacksComposer.use(draftsCallbacks);
+callbacksComposer.use(topicsCallbacks);
+callbacksComposer.use(votesCallbacks);
+callbacksComposer.use(statsCallbacks);
+callbacksComposer.use(giveawaysCallbacks);
+
+// Feedback conversations: before the step handlers, so replies to relayed messages aren't taken as input
+callbacksComposer.use(feedbackHandlers);
 
 // Text and photo message handlers (for step-based input)
 callbacksComposer.use(messageInputHandlers);
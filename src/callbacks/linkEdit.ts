@@ -0,0 +1,372 @@
+import { Composer, InlineKeyboard } from "grammy";
+import type { LinkEditTarget, MyContext, SessionData } from "../types/index.js";
+import { createDefaultSession } from "../types/index.js";
+import { deleteLastBotMessage, sendStepScreen } from "../services/preview.js";
+import { extractAttachment } from "../services/media.js";
+import { canUserPost } from "../services/groups.js";
+import { checkCanEdit, getBotRights } from "../services/permissions.js";
+import { findSentPostByMessage, getMessageGrid } from "../services/posts.js";
+import { editLinkedButtons, editLinkedMedia, editLinkedText } from "../services/sender.js";
+import { resolveFeedbackInboxes } from "../services/feedback.js";
+import { checkGateChats } from "../services/alerts.js";
+import { getGiveaway } from "../services/giveaways.js";
+import {
+  buildButtonLayoutHelp,
+  buildLayoutErrorsText,
+  buttonIcon,
+  parseButtonLayout,
+  rejectGiveawayButtons,
+} from "../services/buttons.js";
+import { linkEditDoneKeyboard, linkEditKeyboard, linkEditUrlKeyboard } from "../keyboards/posts.js";
+import { startKeyboard } from "../keyboards/messageBuilder.js";
+import { explainEditError, NO_POST_RIGHTS_TEXT, showPostDetails } from "./posts.js";
+import { escapeHtml } from "../utils/formatting.js";
+import { buildMessageLink, parseMessageLink } from "../utils/messageLink.js";
+
+/**
+ * Editing the text, caption or media of any message in a channel or group
+ * by its link, for posts that weren't published through the builder (or
+ * were, by someone else). The message's content can't be read through the
+ * Bot API, so new content is sent in full; its buttons are kept if the bot
+ * put them there, or replaced from a text layout.
+ */
+export const linkEditCallbacks = new Composer<MyContext>();
+
+// ═══════════════════════════════════════════════════════════════
+//  Utility: show step
+// ═══════════════════════════════════════════════════════════════
+
+async function showStep(
+  ctx: MyContext,
+  session: SessionData,
+  text: string,
+  keyboard: InlineKeyboard,
+): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  await deleteLastBotMessage(ctx.api, chatId, session);
+  await sendStepScreen(ctx.api, chatId, session, text, keyboard);
+}
+
+/** Asks for the link of the message to edit */
+async function showLinkPrompt(ctx: MyContext, session: SessionData, error?: string): Promise<void> {
+  session.step = "link_edit_url";
+  const lines = [];
+  if (error) {
+    lines.push(error);
+    lines.push("");
+  }
+  lines.push("✏️ <b>Изменение опубликованного поста</b>");
+  lines.push("");
+  lines.push("Отправьте ссылку на сообщение в канале или группе:");
+  lines.push("• <code>https://t.me/channel_name/123</code>");
+  lines.push("• <code>https://t.me/c/1234567890/123</code>");
+  lines.push("");
+  lines.push("<i>В каналах бот может изменить любой пост, в группах — только свои сообщения.</i>");
+
+  await showStep(ctx, session, lines.join("\n"), linkEditUrlKeyboard());
+}
+
+/** The grid of the message as the preview shows it */
+function describeButtons(target: LinkEditTarget): string {
+  const count = target.buttons.flat().length;
+  if (!target.buttonsChanged) {
+    if (target.gridUnknown) return "останутся текущие, если они есть";
+    return count > 0 ? `останутся текущие (${count})` : "нет";
+  }
+  if (count === 0) return "будут убраны";
+
+  const rows = target.buttons.map((row) =>
+    row.map((btn) => `[${buttonIcon(btn.action)} ${escapeHtml(btn.text)}]`).join(" "),
+  );
+  return [`будут заменены новыми (${count}):`, ...rows].join("\n");
+}
+
+/**
+ * Shows the message being edited with what to send next.
+ * @param notice - result line of the previous action, shown on top
+ */
+async function showContentPrompt(
+  ctx: MyContext,
+  session: SessionData,
+  target: LinkEditTarget,
+  notice?: string,
+): Promise<void> {
+  session.step = "link_edit_content";
+  const lines: string[] = [];
+  if (notice) {
+    lines.push(notice);
+    lines.push("");
+  }
+  lines.push(`✏️ <b>Изменение поста</b> в «${escapeHtml(target.chatTitle)}»`);
+  const link = buildMessageLink(target.chatId, target.messageId);
+  if (link) {
+    lines.push(`🔗 <a href="${link}">Открыть пост</a>`);
+  }
+  lines.push("");
+  lines.push("Отправьте новый текст — форматирование сохранится. Чтобы заменить медиа, отправьте фото, видео, GIF, документ или аудио с новой подписью.");
+  lines.push("");
+  lines.push(`🔘 <b>Кнопки:</b> ${describeButtons(target)}`);
+  lines.push("");
+  lines.push("<i>Текущая подпись боту не видна: файл без подписи оставит пост без неё.</i>");
+
+  await showStep(ctx, session, lines.join("\n"), linkEditKeyboard(target));
+}
+
+/** After a successful edit: the flow ends, the user may come back to the same message */
+async function showDone(ctx: MyContext, session: SessionData, target: LinkEditTarget, text: string): Promise<void> {
+  Object.assign(session, createDefaultSession());
+  const link = buildMessageLink(target.chatId, target.messageId);
+  const lines = [text];
+  if (link) {
+    lines.push("");
+    lines.push(`🔗 <a href="${link}">Открыть пост</a>`);
+  }
+  await showStep(ctx, session, lines.join("\n"), linkEditDoneKeyboard(target));
+}
+
+/**
+ * Opens a message for editing, after checking that the user may post in
+ * its chat and the bot may edit there. A post the user published through
+ * the bot opens in /posts instead, where its content is known.
+ */
+async function openMessage(
+  ctx: MyContext,
+  session: SessionData,
+  chatRef: number | string,
+  messageId: number,
+): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  let chat;
+  try {
+    chat = await ctx.api.getChat(chatRef);
+  } catch {
+    await showLinkPrompt(
+      ctx,
+      session,
+      "❌ Канал или группа не найдены.\n\nПроверьте ссылку и убедитесь, что бот добавлен в этот чат.",
+    );
+    return;
+  }
+
+  if (!(await canUserPost(ctx.api, chat.id, userId))) {
+    await showLinkPrompt(ctx, session, NO_POST_RIGHTS_TEXT);
+    return;
+  }
+
+  // Pre-flight: explain missing rights instead of a raw API error
+  const rightsProblem = checkCanEdit(await getBotRights(ctx.api, chat.id));
+  if (rightsProblem) {
+    await showLinkPrompt(
+      ctx,
+      session,
+      `❌ Бот не может изменить пост: ${rightsProblem}.\n\nВыдайте боту право <b>«Редактирование сообщений»</b> в настройках администратора канала.`,
+    );
+    return;
+  }
+
+  const post = await findSentPostByMessage(userId, chat.id, messageId);
+  if (post) {
+    Object.assign(session, createDefaultSession());
+    await showPostDetails(ctx, session, post, "📰 Этот пост вы опубликовали через бота — его текст, медиа и кнопки меняются здесь.");
+    return;
+  }
+
+  const grid = await getMessageGrid(chat.id, messageId);
+  const target: LinkEditTarget = {
+    chatId: chat.id,
+    messageId,
+    chatTitle: "title" in chat && chat.title ? chat.title : String(chat.id),
+    buttons: grid?.buttons ?? [],
+    buttonsChanged: false,
+    gridUnknown: !grid,
+    trackLinks: grid?.trackLinks,
+  };
+  Object.assign(session, createDefaultSession());
+  session.linkEdit = target;
+  await showContentPrompt(ctx, session, target);
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Input: link, new content, button layout (from messageInput)
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Opens the message a link points to. Called on text in the link_edit_url step.
+ */
+export async function handleLinkEditUrl(ctx: MyContext, session: SessionData, url: string): Promise<void> {
+  const parsed = parseMessageLink(url);
+  if (!parsed) {
+    await showLinkPrompt(ctx, session, "❌ <b>Неверный формат ссылки</b>");
+    return;
+  }
+  await openMessage(ctx, session, parsed.chatId, parsed.messageId);
+}
+
+/**
+ * Applies new text (or caption) with its formatting. Called on text in the
+ * link_edit_content step.
+ */
+export async function applyLinkEditText(ctx: MyContext, session: SessionData): Promise<void> {
+  const target = session.linkEdit;
+  const text = ctx.message?.text;
+  const chatId = ctx.chat?.id;
+  if (!target || text === undefined || !chatId) return;
+
+  try {
+    await editLinkedText(ctx.api, target, chatId, text, ctx.message?.entities);
+  } catch (error) {
+    console.error(`Failed to edit message ${target.messageId} in ${target.chatId}:`, error);
+    await showContentPrompt(ctx, session, target, explainEditError(error, "Не удалось изменить пост."));
+    return;
+  }
+  await showDone(ctx, session, target, "✅ Текст поста изменён.");
+}
+
+/**
+ * Replaces the media with the file the user sent, its caption becoming the
+ * post's caption. Called on media in the link_edit_content step; only the
+ * first file of an album is used, the rest arrive with the flow already over.
+ */
+export async function applyLinkEditMedia(ctx: MyContext, session: SessionData): Promise<void> {
+  const target = session.linkEdit;
+  const item = ctx.message ? extractAttachment(ctx.message) : undefined;
+  const chatId = ctx.chat?.id;
+  if (!target || !item || !chatId) return;
+
+  try {
+    await editLinkedMedia(ctx.api, target, chatId, item, ctx.message?.caption, ctx.message?.caption_entities);
+  } catch (error) {
+    console.error(`Failed to replace media of message ${target.messageId} in ${target.chatId}:`, error);
+    await showContentPrompt(ctx, session, target, explainEditError(error, "Не удалось заменить медиа."));
+    return;
+  }
+  await showDone(ctx, session, target, "✅ Медиа поста заменено.");
+}
+
+/**
+ * Replaces the buttons to put under the message with a pasted text layout.
+ * Called on text in the link_edit_buttons step.
+ */
+export async function applyLinkEditLayout(ctx: MyContext, session: SessionData, layout: string): Promise<void> {
+  const target = session.linkEdit;
+  const userId = ctx.from?.id;
+  if (!target || !userId) return;
+
+  const { buttons, errors } = parseButtonLayout(layout);
+  // A giveaway the message already runs stays; a new one couldn't be drawn
+  if (errors.length === 0 && !(await getGiveaway(target.chatId, target.messageId))) {
+    errors.push(...rejectGiveawayButtons(buttons));
+  }
+  if (errors.length === 0) {
+    errors.push(...(await resolveFeedbackInboxes(buttons, userId)));
+    errors.push(...(await checkGateChats(buttons, userId, ctx.api)));
+  }
+  if (errors.length > 0) {
+    await showStep(
+      ctx,
+      session,
+      `${buildLayoutErrorsText(errors)}\n\n${buildButtonLayoutHelp(target.buttons)}`,
+      new InlineKeyboard().text("⬅️ Назад", "le_back"),
+    );
+    return;
+  }
+
+  target.buttons = buttons;
+  target.buttonsChanged = true;
+  await showContentPrompt(
+    ctx,
+    session,
+    target,
+    "✅ Кнопки загружены из текста. Они появятся вместе с новым текстом или медиа.",
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Buttons: start, button choices, cancel
+// ═══════════════════════════════════════════════════════════════
+
+linkEditCallbacks.callbackQuery("link_edit_start", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  Object.assign(session, createDefaultSession());
+  await showLinkPrompt(ctx, session);
+});
+
+// The same message again after an edit: le_again:CHAT_ID:MESSAGE_ID
+linkEditCallbacks.callbackQuery(/^le_again:(-?\d+):(\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await openMessage(ctx, session, Number(ctx.match[1]), Number(ctx.match[2]));
+});
+
+linkEditCallbacks.callbackQuery("le_btns", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const target = session.linkEdit;
+  if (!target) return;
+
+  session.step = "link_edit_buttons";
+  await showStep(ctx, session, buildButtonLayoutHelp(target.buttons), new InlineKeyboard().text("⬅️ Назад", "le_back"));
+});
+
+linkEditCallbacks.callbackQuery("le_btns_clear", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const target = session.linkEdit;
+  if (!target) return;
+
+  target.buttons = [];
+  target.buttonsChanged = true;
+  await showContentPrompt(ctx, session, target);
+});
+
+// Back to the buttons the message has now
+linkEditCallbacks.callbackQuery("le_btns_keep", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const target = session.linkEdit;
+  if (!target) return;
+
+  const grid = await getMessageGrid(target.chatId, target.messageId);
+  target.buttons = grid?.buttons ?? [];
+  target.trackLinks = grid?.trackLinks;
+  target.gridUnknown = !grid;
+  target.buttonsChanged = false;
+  await showContentPrompt(ctx, session, target);
+});
+
+// New buttons without new content
+linkEditCallbacks.callbackQuery("le_btns_apply", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const target = session.linkEdit;
+  if (!target) return;
+
+  try {
+    await editLinkedButtons(ctx.api, target);
+  } catch (error) {
+    console.error(`Failed to edit buttons of message ${target.messageId} in ${target.chatId}:`, error);
+    await showContentPrompt(ctx, session, target, explainEditError(error, "Не удалось изменить кнопки."));
+    return;
+  }
+  await showDone(ctx, session, target, target.buttons.length > 0 ? "✅ Кнопки поста заменены." : "✅ Кнопки поста убраны.");
+});
+
+linkEditCallbacks.callbackQuery("le_back", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const target = session.linkEdit;
+  if (!target) return;
+  await showContentPrompt(ctx, session, target);
+});
+
+linkEditCallbacks.callbackQuery("le_cancel", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  Object.assign(session, createDefaultSession());
+  await showStep(ctx, session, "👋 Изменение поста отменено.", startKeyboard());
+});
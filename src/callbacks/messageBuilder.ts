@@ -1,28 +1,58 @@
 import { Composer, InlineKeyboard } from "grammy";
-import type { MyContext, SessionData, BuilderStep } from "../types/index.js";
+import type { LinkPreviewOptions } from "grammy/types";
+import type { ButtonAction, MyContext, SessionData } from "../types/index.js";
 import { createDefaultSession } from "../types/index.js";
-import { buildPreviewText, getStepInstruction } from "../services/preview.js";
-import { getGroupsForUser, getVerifiedGroupsForUser } from "../services/groups.js";
-import { sendComposedMessage } from "../services/sender.js";
+import {
+  buildStepText,
+  buildSendReport,
+  targetsLabel,
+  getStepInstruction,
+  hasMedia,
+  deleteLastBotMessage,
+  sendStepScreen,
+} from "../services/preview.js";
+import {
+  getChatJoinLink,
+  getChatRecord,
+  getGroupsForUser,
+  isChatMember,
+  resolveTargetsForUser,
+} from "../services/groups.js";
+import { getInboxChats } from "../services/feedback.js";
+import { sendToTargets } from "../services/sender.js";
+import { moveItem } from "../services/media.js";
+import {
+  BUTTON_ACTIONS,
+  buildButtonLayoutHelp,
+  buildGatedAlertPrompt,
+  buildGatePickerText,
+  buildFeedbackPickerText,
+  checkCanAddButton,
+  placeButton,
+} from "../services/buttons.js";
+import { alertId, getAlertText } from "../services/alerts.js";
+import { recordClick } from "../services/stats.js";
+import { cancelScheduledPost, enqueueFanOut } from "../services/scheduler.js";
 import {
   startKeyboard,
-  addImageKeyboard,
-  imageAttachedKeyboard,
+  addMediaKeyboard,
+  mediaAttachedKeyboard,
   buttonGridKeyboard,
   buttonActionKeyboard,
   editButtonKeyboard,
   reviewKeyboard,
-  groupSelectionKeyboard,
   confirmSendKeyboard,
+  messageOptionsKeyboard,
+  gateChatKeyboard,
+  feedbackInboxKeyboard,
 } from "../keyboards/messageBuilder.js";
-import { requireEnv } from "../utils/env.js";
+import { applyPostButtons, returnToPost } from "./posts.js";
+import { escapeHtml } from "../utils/formatting.js";
 
 export const messageBuilderCallbacks = new Composer<MyContext>();
 
-/** Escape HTML special chars for Telegram HTML parse mode */
-function escapeHtml(text: string): string {
-  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-}
+/** Above this many chats a send goes through the dispatch queue, not the webhook */
+const INLINE_SEND_LIMIT = 5;
 
 // ═══════════════════════════════════════════════════════════════
 //  Utility: send/edit bot message
@@ -42,52 +72,10 @@ async function showStep(
   const chatId = ctx.chat?.id;
   if (!chatId) return;
 
-  const showPhoto = options?.showPhoto && session.message.imageFileId;
-
-  // Try to delete previous message if switching type or if it exists
-  if (session.lastBotMessageId) {
-    try {
-      await ctx.api.deleteMessage(chatId, session.lastBotMessageId);
-    } catch {
-      // Message might already be deleted, ignore
-    }
-    session.lastBotMessageId = undefined;
-    session.lastBotMessageIsPhoto = undefined;
-  }
-
-  let sentMsg;
-  if (showPhoto && session.message.imageFileId) {
-    sentMsg = await ctx.api.sendPhoto(chatId, session.message.imageFileId, {
-      caption: text,
-      parse_mode: "HTML",
-      reply_markup: keyboard,
-    });
-    session.lastBotMessageIsPhoto = true;
-  } else {
-    sentMsg = await ctx.api.sendMessage(chatId, text, {
-      parse_mode: "HTML",
-      reply_markup: keyboard,
-      link_preview_options: { is_disabled: true },
-    });
-    session.lastBotMessageIsPhoto = false;
-  }
-  session.lastBotMessageId = sentMsg.message_id;
-}
+  // Delete previous message (and album preview) before sending the new screen
+  await deleteLastBotMessage(ctx.api, chatId, session);
 
-/**
- * Builds the combined preview + instruction text for a step.
- */
-function stepText(session: SessionData, step: BuilderStep): string {
-  const parts: string[] = [];
-  // Show preview if message has any content
-  if (session.message.text || session.message.imageFileId || session.message.buttons.length > 0) {
-    parts.push(buildPreviewText(session.message));
-    parts.push("");
-    parts.push("─────────────────");
-    parts.push("");
-  }
-  parts.push(getStepInstruction(step));
-  return parts.join("\n");
+  await sendStepScreen(ctx.api, chatId, session, text, keyboard, options?.showPhoto);
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -111,7 +99,7 @@ messageBuilderCallbacks.callbackQuery("create_message", async (ctx) => {
 });
 
 // ═══════════════════════════════════════════════════════════════
-//  Step 1 → 2: Text written → Add Image?
+//  Step 1 → 2: Text written → Add Media?
 // ═══════════════════════════════════════════════════════════════
 
 messageBuilderCallbacks.callbackQuery("img_yes", async (ctx) => {
@@ -120,44 +108,77 @@ messageBuilderCallbacks.callbackQuery("img_yes", async (ctx) => {
   session.step = "send_image";
 
 
-  await showStep(ctx, session, stepText(session, "send_image"), new InlineKeyboard().text("⬅️ Назад", "back_to_image"));
+  await showStep(ctx, session, buildStepText(session, "send_image"), new InlineKeyboard().text("⬅️ Назад", "back_to_image"));
 });
 
 messageBuilderCallbacks.callbackQuery("img_no", async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
-  // Skip image, go to buttons
-  session.message.imageFileId = undefined;
+  // Skip media, go to buttons
+  session.message.media = undefined;
   session.step = "edit_buttons";
 
-  await showStep(ctx, session, stepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+  await showStep(ctx, session, buildStepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
 });
 
 messageBuilderCallbacks.callbackQuery("img_replace", async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
+  // New files replace the current set instead of being appended
+  session.message.media = undefined;
   session.step = "send_image";
 
 
-  await showStep(ctx, session, stepText(session, "send_image"), new InlineKeyboard().text("⬅️ Назад", "back_to_image"));
+  await showStep(ctx, session, buildStepText(session, "send_image"), new InlineKeyboard().text("⬅️ Назад", "back_to_image"));
 });
 
 messageBuilderCallbacks.callbackQuery("img_remove", async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
-  session.message.imageFileId = undefined;
+  session.message.media = undefined;
   session.step = "add_image";
 
-  await showStep(ctx, session, stepText(session, "add_image"), addImageKeyboard());
+  await showStep(ctx, session, buildStepText(session, "add_image"), addMediaKeyboard());
 });
 
 messageBuilderCallbacks.callbackQuery("img_done", async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
-  // Image is set, go to buttons
+  // Media is set, go to buttons
   session.step = "edit_buttons";
 
-  await showStep(ctx, session, stepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+  await showStep(ctx, session, buildStepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+});
+
+// Reorder album: img_up:I / img_down:I
+messageBuilderCallbacks.callbackQuery(/^img_(up|down):(\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const index = parseInt(ctx.match[2]!);
+  const media = session.message.media ?? [];
+
+  moveItem(media, index, ctx.match[1] === "up" ? -1 : 1);
+  session.step = "add_image";
+
+  await showStep(ctx, session, buildStepText(session, "add_image"), mediaAttachedKeyboard(media), { showPhoto: true });
+});
+
+// Remove a single file from the album: img_del:I
+messageBuilderCallbacks.callbackQuery(/^img_del:(\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const index = parseInt(ctx.match[1]!);
+  const media = session.message.media ?? [];
+
+  media.splice(index, 1);
+  session.message.media = media.length > 0 ? media : undefined;
+  session.step = "add_image";
+
+  if (hasMedia(session.message)) {
+    await showStep(ctx, session, buildStepText(session, "add_image"), mediaAttachedKeyboard(media), { showPhoto: true });
+  } else {
+    await showStep(ctx, session, buildStepText(session, "add_image"), addMediaKeyboard());
+  }
 });
 
 // ═══════════════════════════════════════════════════════════════
@@ -166,31 +187,43 @@ messageBuilderCallbacks.callbackQuery("img_done", async (ctx) => {
 
 // Add row: +r:R
 messageBuilderCallbacks.callbackQuery(/^\+r:(\d+)$/, async (ctx) => {
-  await ctx.answerCallbackQuery();
   const session = await ctx.session;
   const rowIdx = parseInt(ctx.match[1]!);
 
+  const limit = checkCanAddButton(session.message.buttons);
+  if (limit) {
+    await ctx.answerCallbackQuery({ text: limit, show_alert: true });
+    return;
+  }
+  await ctx.answerCallbackQuery();
+
   // Insert empty row and start button creation
   session.message.buttons.splice(rowIdx, 0, []);
   session.editingButton = { row: rowIdx, col: 0, isNew: true };
   session.step = "btn_text";
 
 
-  await showStep(ctx, session, stepText(session, "btn_text"), new InlineKeyboard().text("⬅️ Назад", "back_to_buttons"));
+  await showStep(ctx, session, buildStepText(session, "btn_text"), new InlineKeyboard().text("⬅️ Назад", "back_to_buttons"));
 });
 
 // Add column: +c:R:C
 messageBuilderCallbacks.callbackQuery(/^\+c:(\d+):(\d+)$/, async (ctx) => {
-  await ctx.answerCallbackQuery();
   const session = await ctx.session;
   const rowIdx = parseInt(ctx.match[1]!);
   const colIdx = parseInt(ctx.match[2]!);
 
+  const limit = checkCanAddButton(session.message.buttons, rowIdx);
+  if (limit) {
+    await ctx.answerCallbackQuery({ text: limit, show_alert: true });
+    return;
+  }
+  await ctx.answerCallbackQuery();
+
   session.editingButton = { row: rowIdx, col: colIdx, isNew: true };
   session.step = "btn_text";
 
 
-  await showStep(ctx, session, stepText(session, "btn_text"), new InlineKeyboard().text("⬅️ Назад", "back_to_buttons"));
+  await showStep(ctx, session, buildStepText(session, "btn_text"), new InlineKeyboard().text("⬅️ Назад", "back_to_buttons"));
 });
 
 // Edit existing button: eb:R:C
@@ -202,20 +235,30 @@ messageBuilderCallbacks.callbackQuery(/^eb:(\d+):(\d+)$/, async (ctx) => {
   const btn = session.message.buttons[rowIdx]?.[colIdx];
 
   if (!btn) {
-    await showStep(ctx, session, stepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+    await showStep(ctx, session, buildStepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
     return;
   }
 
-  const actionLabel = btn.action === "url" ? "🔗 Ссылка" : "💬 Уведомление";
+  const { icon, label } = BUTTON_ACTIONS[btn.action];
   const info = [
     `✏️ <b>Редактирование кнопки:</b>`,
     ``,
-    `<b>Текст:</b> ${btn.text}`,
-    `<b>Действие:</b> ${actionLabel}`,
-    `<b>Значение:</b> ${btn.value}`,
-  ].join("\n");
+    `<b>Текст:</b> ${escapeHtml(btn.text)}`,
+    `<b>Действие:</b> ${icon} ${label}`,
+    `<b>Значение:</b> ${escapeHtml(btn.value)}`,
+  ];
+  if (btn.gateChatId !== undefined) {
+    const title = (await getChatRecord(btn.gateChatId))?.title ?? String(btn.gateChatId);
+    info.push(`<b>Только для подписчиков:</b> ${escapeHtml(title)}`);
+  }
+  if (btn.action === "feedback") {
+    const inbox = Number(btn.value);
+    const title =
+      inbox === ctx.from.id ? "вы, в личных сообщениях" : ((await getChatRecord(inbox))?.title ?? btn.value);
+    info.push(`<b>Сообщения получает:</b> ${escapeHtml(title)}`);
+  }
 
-  await showStep(ctx, session, info, editButtonKeyboard(rowIdx, colIdx));
+  await showStep(ctx, session, info.join("\n"), editButtonKeyboard(rowIdx, colIdx));
 });
 
 // Start editing existing button
@@ -229,7 +272,7 @@ messageBuilderCallbacks.callbackQuery(/^btn_edit:(\d+):(\d+)$/, async (ctx) => {
   session.step = "btn_text";
 
 
-  await showStep(ctx, session, stepText(session, "btn_text"), new InlineKeyboard().text("⬅️ Назад", "back_to_buttons"));
+  await showStep(ctx, session, buildStepText(session, "btn_text"), new InlineKeyboard().text("⬅️ Назад", "back_to_buttons"));
 });
 
 // Delete button
@@ -249,7 +292,22 @@ messageBuilderCallbacks.callbackQuery(/^btn_del:(\d+):(\d+)$/, async (ctx) => {
   }
 
   session.step = "edit_buttons";
-  await showStep(ctx, session, stepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+  await showStep(ctx, session, buildStepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+});
+
+// Text layout: syntax help and the current grid to copy; a pasted layout
+// is handled by the edit_buttons step in messageInput
+messageBuilderCallbacks.callbackQuery("btn_layout", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  session.step = "edit_buttons";
+
+  await showStep(
+    ctx,
+    session,
+    buildButtonLayoutHelp(session.message.buttons),
+    new InlineKeyboard().text("⬅️ Назад", "back_to_buttons"),
+  );
 });
 
 // Noop for empty placeholder buttons
@@ -261,50 +319,108 @@ messageBuilderCallbacks.callbackQuery("noop", async (ctx) => {
 messageBuilderCallbacks.callbackQuery("skip_buttons", async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
+
+  // Editing the buttons of a published post (/posts)
+  if (session.editingPostId) {
+    await applyPostButtons(ctx, session);
+    return;
+  }
+
   session.step = "review";
 
-  await showStep(ctx, session, stepText(session, "review"), reviewKeyboard());
+  await showStep(ctx, session, buildStepText(session, "review"), reviewKeyboard());
 });
 
 // Buttons done
 messageBuilderCallbacks.callbackQuery("buttons_done", async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
+
+  // Editing the buttons of a published post (/posts)
+  if (session.editingPostId) {
+    await applyPostButtons(ctx, session);
+    return;
+  }
+
   session.step = "review";
 
-  await showStep(ctx, session, stepText(session, "review"), reviewKeyboard());
+  await showStep(ctx, session, buildStepText(session, "review"), reviewKeyboard());
 });
 
 // ═══════════════════════════════════════════════════════════════
 //  Step 5-7: Button Action & Value
 // ═══════════════════════════════════════════════════════════════
 
-messageBuilderCallbacks.callbackQuery("btnact_url", async (ctx) => {
+// Choose the button kind: btnact_ACTION
+messageBuilderCallbacks.callbackQuery(new RegExp(`^btnact_(${Object.keys(BUTTON_ACTIONS).join("|")})$`), async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
-  session.step = "btn_value";
-  session.pendingButtonAction = "url";
+  const action = ctx.match[1] as ButtonAction;
 
+  // A gated alert first needs the chat whose members may see it
+  if (action === "gated_alert") {
+    const groups = await getGroupsForUser(ctx.from.id);
+    await showStep(ctx, session, buildGatePickerText(groups.length > 0), gateChatKeyboard(groups, ""));
+    return;
+  }
 
+  // A feedback button needs no typed value: its inbox is picked from a list
+  if (action === "feedback") {
+    const groups = await getInboxChats(ctx.from.id);
+    await showStep(ctx, session, buildFeedbackPickerText(), feedbackInboxKeyboard(groups, ""));
+    return;
+  }
+
+  session.step = "btn_value";
+  session.pendingButtonAction = action;
   await showStep(
     ctx,
     session,
-    "🔗 Введите URL для кнопки (например, https://example.com):",
+    BUTTON_ACTIONS[action].prompt,
     new InlineKeyboard().text("⬅️ Назад", "back_to_btn_action"),
   );
 });
 
-messageBuilderCallbacks.callbackQuery("btnact_alert", async (ctx) => {
+// Inbox of a feedback button: btnfb:me or btnfb:CHAT_ID
+messageBuilderCallbacks.callbackQuery(/^btnfb:(me|-?\d+)$/, async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
-  session.step = "btn_value";
-  session.pendingButtonAction = "alert";
+  const editing = session.editingButton;
+  const inbox = ctx.match[1] === "me" ? ctx.from.id : Number(ctx.match[1]);
+  if (!editing) return;
+  if (inbox !== ctx.from.id && !(await getInboxChats(ctx.from.id)).some((g) => g.chatId === inbox)) return;
+
+  placeButton(session.message.buttons, editing, {
+    text: session.pendingButtonText ?? "Кнопка",
+    action: "feedback",
+    value: String(inbox),
+  });
 
+  session.editingButton = undefined;
+  session.pendingButtonText = undefined;
+  session.pendingButtonAction = undefined;
+  session.pendingGateChatId = undefined;
+  session.step = "edit_buttons";
+
+  await showStep(ctx, session, buildStepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+});
+
+// Gating chat of a gated alert: btngate:CHAT_ID
+messageBuilderCallbacks.callbackQuery(/^btngate:(-?\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const chatId = Number(ctx.match[1]);
+  const group = (await getGroupsForUser(ctx.from.id)).find((g) => g.chatId === chatId);
+  if (!group) return;
+
+  session.step = "btn_value";
+  session.pendingButtonAction = "gated_alert";
+  session.pendingGateChatId = chatId;
 
   await showStep(
     ctx,
     session,
-    "💬 Введите текст всплывающего уведомления:",
+    buildGatedAlertPrompt(group.title),
     new InlineKeyboard().text("⬅️ Назад", "back_to_btn_action"),
   );
 });
@@ -320,19 +436,19 @@ messageBuilderCallbacks.callbackQuery("edit_text", async (ctx) => {
   session.step = "write_text";
 
 
-  await showStep(ctx, session, stepText(session, "write_text"), new InlineKeyboard().text("⬅️ Назад", "back_to_review_direct"));
+  await showStep(ctx, session, buildStepText(session, "write_text"), new InlineKeyboard().text("⬅️ Назад", "back_to_review_direct"));
 });
 
-// Edit image from review
+// Edit media from review
 messageBuilderCallbacks.callbackQuery("edit_image", async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
   session.step = "add_image";
 
-  if (session.message.imageFileId) {
-    await showStep(ctx, session, stepText(session, "add_image"), imageAttachedKeyboard(), { showPhoto: true });
+  if (hasMedia(session.message)) {
+    await showStep(ctx, session, buildStepText(session, "add_image"), mediaAttachedKeyboard(session.message.media ?? []), { showPhoto: true });
   } else {
-    await showStep(ctx, session, stepText(session, "add_image"), addImageKeyboard());
+    await showStep(ctx, session, buildStepText(session, "add_image"), addMediaKeyboard());
   }
 });
 
@@ -342,77 +458,67 @@ messageBuilderCallbacks.callbackQuery("edit_buttons_review", async (ctx) => {
   const session = await ctx.session;
   session.step = "edit_buttons";
 
-  await showStep(ctx, session, stepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+  await showStep(ctx, session, buildStepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
 });
 
 // ═══════════════════════════════════════════════════════════════
-//  Step 9: Group Selection
+//  Step 8.1: Message Options (caption position, spoiler, link preview…)
 // ═══════════════════════════════════════════════════════════════
 
-messageBuilderCallbacks.callbackQuery("goto_select_group", async (ctx) => {
-  await ctx.answerCallbackQuery();
-  const session = await ctx.session;
-  session.step = "select_group";
-
-  const userId = ctx.from?.id;
-  if (!userId) return;
-
-  const botId = Number(requireEnv("BOT_ID"));
-  const groups = await getVerifiedGroupsForUser(userId, ctx.api, botId);
-  const botUsername = requireEnv("BOT_USERNAME");
-
-  if (groups.length === 0) {
-    await showStep(
-      ctx,
-      session,
-      "📢 У вас пока нет групп или каналов, куда добавлен бот.\n\nДобавьте бота в группу или канал как администратора, затем нажмите «Обновить список».",
-      groupSelectionKeyboard([], botUsername),
-    );
-  } else {
-    await showStep(ctx, session, stepText(session, "select_group"), groupSelectionKeyboard(groups, botUsername));
-  }
-});
+/**
+ * Cycles link preview mode: auto → disabled → large → small → auto.
+ * The "above text" flag survives the cycle except while disabled.
+ */
+function nextLinkPreview(current?: LinkPreviewOptions): LinkPreviewOptions | undefined {
+  const above = current?.show_above_text ? true : undefined;
+  if (current?.is_disabled) return { prefer_large_media: true, show_above_text: above };
+  if (current?.prefer_large_media) return { prefer_small_media: true, show_above_text: above };
+  if (current?.prefer_small_media) return above ? { show_above_text: true } : undefined;
+  return { is_disabled: true };
+}
 
-// Refresh groups list
-messageBuilderCallbacks.callbackQuery("refresh_groups", async (ctx) => {
-  await ctx.answerCallbackQuery({ text: "Список обновлён" });
+messageBuilderCallbacks.callbackQuery("edit_options", async (ctx) => {
+  await ctx.answerCallbackQuery();
   const session = await ctx.session;
+  session.step = "edit_options";
 
-  const userId = ctx.from?.id;
-  if (!userId) return;
-
-  const botId = Number(requireEnv("BOT_ID"));
-  const groups = await getVerifiedGroupsForUser(userId, ctx.api, botId);
-  const botUsername = requireEnv("BOT_USERNAME");
-
-  await showStep(
-    ctx,
-    session,
-    groups.length === 0
-      ? "📢 У вас пока нет групп или каналов. Добавьте бота и нажмите «Обновить»."
-      : stepText(session, "select_group"),
-    groupSelectionKeyboard(groups, botUsername),
-  );
+  await showStep(ctx, session, buildStepText(session, "edit_options"), messageOptionsKeyboard(session.message));
 });
 
-// Select a group: grp:CHATID
-messageBuilderCallbacks.callbackQuery(/^grp:(-?\d+)$/, async (ctx) => {
+// Toggle an option: opt:NAME
+messageBuilderCallbacks.callbackQuery(/^opt:(above|spoiler|lp|lp_above|silent|protect|track)$/, async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
-  const chatId = parseInt(ctx.match[1]!);
-
-  session.targetGroupId = chatId;
-  session.step = "confirm_send";
-
-  // Get group title
-  const userId = ctx.from?.id;
-  if (!userId) return;
-
-  const groups = await getGroupsForUser(userId);
-  const group = groups.find((g) => g.chatId === chatId);
-  const title = group?.title ?? `Чат ${chatId}`;
+  const opts = (session.message.options ??= {});
+
+  switch (ctx.match[1]) {
+    case "above":
+      opts.captionAboveMedia = !opts.captionAboveMedia || undefined;
+      break;
+    case "spoiler":
+      opts.mediaSpoiler = !opts.mediaSpoiler || undefined;
+      break;
+    case "lp":
+      opts.linkPreview = nextLinkPreview(opts.linkPreview);
+      break;
+    case "lp_above": {
+      const lp = { ...opts.linkPreview, show_above_text: !opts.linkPreview?.show_above_text || undefined };
+      opts.linkPreview = Object.values(lp).some(Boolean) ? lp : undefined;
+      break;
+    }
+    case "silent":
+      opts.silent = !opts.silent || undefined;
+      break;
+    case "protect":
+      opts.protectContent = !opts.protectContent || undefined;
+      break;
+    case "track":
+      opts.trackLinks = !opts.trackLinks || undefined;
+      break;
+  }
 
-  await showStep(ctx, session, stepText(session, "confirm_send"), confirmSendKeyboard(title));
+  session.step = "edit_options";
+  await showStep(ctx, session, buildStepText(session, "edit_options"), messageOptionsKeyboard(session.message));
 });
 
 // ═══════════════════════════════════════════════════════════════
@@ -422,41 +528,71 @@ messageBuilderCallbacks.callbackQuery(/^grp:(-?\d+)$/, async (ctx) => {
 messageBuilderCallbacks.callbackQuery("confirm_send", async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
 
-  if (!session.targetGroupId) {
+  if (!session.targetGroupIds?.length) {
     await showStep(ctx, session, "❌ Группа или канал не выбраны.", reviewKeyboard());
     return;
   }
 
-  if (!session.message.text && !session.message.imageFileId) {
+  if (!session.message.text && !hasMedia(session.message)) {
     await showStep(
       ctx,
       session,
-      "❌ Сообщение пустое. Добавьте текст или изображение перед отправкой.",
+      "❌ Сообщение пустое. Добавьте текст или медиа перед отправкой.",
       reviewKeyboard(),
     );
     return;
   }
 
-  try {
-    await sendComposedMessage(ctx.api, session.targetGroupId, session.message);
-
-    // Reset session
+  const targets = await resolveTargetsForUser(userId, session.targetGroupIds, session.targetTopics);
+  if (targets.length > INLINE_SEND_LIMIT) {
+    await enqueueFanOut(userId, targets, session.message);
+    if (session.scheduledPostId) {
+      await cancelScheduledPost(session.scheduledPostId, userId);
+    }
     Object.assign(session, createDefaultSession());
-
-    await showStep(ctx, session, "✅ Сообщение успешно отправлено!", startKeyboard());
-  } catch (error) {
-    console.error("Failed to send message:", error);
-
-    // Show the actual Telegram error to help debugging
-    const errMsg = error instanceof Error ? error.message : String(error);
     await showStep(
       ctx,
       session,
-      `❌ Не удалось отправить сообщение.\n\n<code>${escapeHtml(errMsg)}</code>`,
-      reviewKeyboard(),
+      `📤 Пост поставлен в очередь и в течение пары минут уйдёт в ${targetsLabel(targets)}.\n\n` +
+        "Если в какие-то чаты отправить не получится, я пришлю отчёт, а пост для них останется в /scheduled.",
+      startKeyboard(),
     );
+    return;
+  }
+
+  const results = await sendToTargets(ctx.api, targets, session.message, userId);
+  const failed = results.filter((r) => !r.ok);
+
+  // Sending a scheduled post right away replaces its scheduled publication
+  if (session.scheduledPostId && failed.length < results.length) {
+    await cancelScheduledPost(session.scheduledPostId, userId);
+    session.scheduledPostId = undefined;
   }
+
+  if (failed.length === 0) {
+    // Reset session
+    Object.assign(session, createDefaultSession());
+
+    const text =
+      results.length === 1 ? "✅ Сообщение успешно отправлено!" : buildSendReport(results);
+    await showStep(ctx, session, text, startKeyboard());
+    return;
+  }
+
+  // Keep the message and narrow targets to failed chats so "send" retries them
+  session.targetGroupIds = failed.map((r) => r.chatId);
+  session.step = "confirm_send";
+  const failedTargets = targets.filter((t) => session.targetGroupIds!.includes(t.chatId));
+
+  await showStep(
+    ctx,
+    session,
+    buildSendReport(results),
+    confirmSendKeyboard(targetsLabel(failedTargets), !!session.scheduledPostId),
+  );
 });
 
 // ═══════════════════════════════════════════════════════════════
@@ -469,7 +605,7 @@ messageBuilderCallbacks.callbackQuery("back_to_text", async (ctx) => {
   session.step = "write_text";
 
 
-  await showStep(ctx, session, stepText(session, "write_text"), new InlineKeyboard().text("❌ Отмена", "cancel"));
+  await showStep(ctx, session, buildStepText(session, "write_text"), new InlineKeyboard().text("❌ Отмена", "cancel"));
 });
 
 messageBuilderCallbacks.callbackQuery("back_to_image", async (ctx) => {
@@ -477,22 +613,28 @@ messageBuilderCallbacks.callbackQuery("back_to_image", async (ctx) => {
   const session = await ctx.session;
   session.step = "add_image";
 
-  if (session.message.imageFileId) {
-    await showStep(ctx, session, stepText(session, "add_image"), imageAttachedKeyboard(), { showPhoto: true });
+  if (hasMedia(session.message)) {
+    await showStep(ctx, session, buildStepText(session, "add_image"), mediaAttachedKeyboard(session.message.media ?? []), { showPhoto: true });
   } else {
-    await showStep(ctx, session, stepText(session, "add_image"), addImageKeyboard());
+    await showStep(ctx, session, buildStepText(session, "add_image"), addMediaKeyboard());
   }
 });
 
 messageBuilderCallbacks.callbackQuery("back_to_image_or_pos", async (ctx) => {
   await ctx.answerCallbackQuery();
   const session = await ctx.session;
+
+  if (session.editingPostId) {
+    await returnToPost(ctx, session);
+    return;
+  }
+
   session.step = "add_image";
 
-  if (session.message.imageFileId) {
-    await showStep(ctx, session, stepText(session, "add_image"), imageAttachedKeyboard(), { showPhoto: true });
+  if (hasMedia(session.message)) {
+    await showStep(ctx, session, buildStepText(session, "add_image"), mediaAttachedKeyboard(session.message.media ?? []), { showPhoto: true });
   } else {
-    await showStep(ctx, session, stepText(session, "add_image"), addImageKeyboard());
+    await showStep(ctx, session, buildStepText(session, "add_image"), addMediaKeyboard());
   }
 });
 
@@ -510,9 +652,10 @@ messageBuilderCallbacks.callbackQuery("back_to_buttons", async (ctx) => {
   session.editingButton = undefined;
   session.pendingButtonText = undefined;
   session.pendingButtonAction = undefined;
+  session.pendingGateChatId = undefined;
 
   session.step = "edit_buttons";
-  await showStep(ctx, session, stepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+  await showStep(ctx, session, buildStepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
 });
 
 messageBuilderCallbacks.callbackQuery("back_to_btn_action", async (ctx) => {
@@ -520,7 +663,7 @@ messageBuilderCallbacks.callbackQuery("back_to_btn_action", async (ctx) => {
   const session = await ctx.session;
   session.step = "btn_action";
 
-  await showStep(ctx, session, stepText(session, "btn_action"), buttonActionKeyboard());
+  await showStep(ctx, session, buildStepText(session, "btn_action"), buttonActionKeyboard());
 });
 
 messageBuilderCallbacks.callbackQuery("back_to_review", async (ctx) => {
@@ -528,7 +671,7 @@ messageBuilderCallbacks.callbackQuery("back_to_review", async (ctx) => {
   const session = await ctx.session;
   session.step = "review";
 
-  await showStep(ctx, session, stepText(session, "review"), reviewKeyboard());
+  await showStep(ctx, session, buildStepText(session, "review"), reviewKeyboard());
 });
 
 // Back to review directly (from editing in review mode)
@@ -537,21 +680,7 @@ messageBuilderCallbacks.callbackQuery("back_to_review_direct", async (ctx) => {
   const session = await ctx.session;
   session.step = "review";
 
-  await showStep(ctx, session, stepText(session, "review"), reviewKeyboard());
-});
-
-messageBuilderCallbacks.callbackQuery("back_to_groups", async (ctx) => {
-  await ctx.answerCallbackQuery();
-  const session = await ctx.session;
-  session.step = "select_group";
-
-  const userId = ctx.from?.id;
-  if (!userId) return;
-
-  const groups = await getGroupsForUser(userId);
-  const botUsername = requireEnv("BOT_USERNAME");
-
-  await showStep(ctx, session, stepText(session, "select_group"), groupSelectionKeyboard(groups, botUsername));
+  await showStep(ctx, session, buildStepText(session, "review"), reviewKeyboard());
 });
 
 // ═══════════════════════════════════════════════════════════════
@@ -573,15 +702,64 @@ messageBuilderCallbacks.callbackQuery("cancel", async (ctx) => {
 messageBuilderCallbacks.callbackQuery(/^alert:(.+)$/, async (ctx) => {
   const alertText = ctx.match[1]!;
   await ctx.answerCallbackQuery({ text: alertText, show_alert: true });
+  await recordAlertClick(ctx, `alert:${alertId(alertText)}`);
 });
 
-// Short-key alert: text stored in Redis (for alerts exceeding 64-byte callback limit)
+// Stored alert: text kept in Redis by its ID (for alerts exceeding 64-byte callback limit)
 messageBuilderCallbacks.callbackQuery(/^alrt:(.+)$/, async (ctx) => {
-  const shortId = ctx.match[1]!;
-  const { redis } = await import("../storage/redis.js");
-  const text = await redis.get<string>(`alert:${shortId}`);
+  const id = ctx.match[1]!;
+  const text = await getAlertText(id);
   await ctx.answerCallbackQuery({
     text: text ?? "⚠️ Уведомление устарело",
     show_alert: true,
   });
+  if (text) await recordAlertClick(ctx, `alert:${id}`);
 });
+
+// Gated alert: shown only to members of the gating chat (galrt:ID:CHAT_ID)
+messageBuilderCallbacks.callbackQuery(/^galrt:(\w+):(-?\d+)$/, async (ctx) => {
+  const id = ctx.match[1]!;
+  const gateChatId = Number(ctx.match[2]);
+  const text = await getAlertText(id);
+  if (!text) {
+    await ctx.answerCallbackQuery({ text: "⚠️ Уведомление устарело", show_alert: true });
+    return;
+  }
+
+  let isMember: boolean;
+  try {
+    isMember = await isChatMember(ctx.api, gateChatId, ctx.from.id);
+  } catch (error) {
+    console.error(`Failed to check membership of ${ctx.from.id} in ${gateChatId}:`, error);
+    await ctx.answerCallbackQuery({
+      text: "⚠️ Не удалось проверить подписку. Попробуйте позже.",
+      show_alert: true,
+    });
+    return;
+  }
+
+  await ctx.answerCallbackQuery({
+    text: isMember ? text : await buildSubscribeFirstText(ctx, gateChatId),
+    show_alert: true,
+  });
+  await recordAlertClick(ctx, `gated:${id}`);
+});
+
+/** Alert for non-members: the chat to join and its link (alerts can't hold clickable links) */
+async function buildSubscribeFirstText(ctx: MyContext, chatId: number): Promise<string> {
+  const title = (await getChatRecord(chatId))?.title;
+  const link = await getChatJoinLink(ctx.api, chatId);
+  const lines = [
+    title ? `🔒 Доступно только подписчикам «${title.slice(0, 60)}».` : "🔒 Доступно только подписчикам.",
+  ];
+  if (link) lines.push("", `Подпишитесь: ${link}`);
+  lines.push("", "Затем нажмите кнопку ещё раз.");
+  return lines.join("\n");
+}
+
+/** Counts an alert click for /stats under the given stats key */
+async function recordAlertClick(ctx: MyContext, key: string): Promise<void> {
+  const message = ctx.callbackQuery?.message;
+  if (!message || !ctx.from) return;
+  await recordClick(message.chat.id, message.message_id, key, ctx.from.id);
+}
@@ -1,18 +1,66 @@
 import { Composer, InlineKeyboard } from "grammy";
-import type { MyContext, SessionData, BuilderStep } from "../types/index.js";
-import { buildPreviewText, getStepInstruction } from "../services/preview.js";
+import type { MessageButton, MyContext, SessionData } from "../types/index.js";
+import { createDefaultSession } from "../types/index.js";
 import {
-  addImageKeyboard,
-  imageAttachedKeyboard,
+  buildStepText,
+  hasMedia,
+  deleteLastBotMessage,
+  sendStepScreen,
+  targetsLabel,
+} from "../services/preview.js";
+import {
+  canAddToAlbum,
+  collectMediaGroupItem,
+  extractAttachment,
+  mergeMediaGroup,
+} from "../services/media.js";
+import {
+  addMediaKeyboard,
+  mediaAttachedKeyboard,
   buttonGridKeyboard,
   buttonActionKeyboard,
   attachButtonGridKeyboard,
   attachButtonActionKeyboard,
   attachAwaitingUrlKeyboard,
   startKeyboard,
+  reviewKeyboard,
 } from "../keyboards/messageBuilder.js";
-import { parseMessageLink } from "../utils/messageLink.js";
-import { buildAttachInlineKeyboard } from "../services/sender.js";
+import { parseMessageLink, parseTopicLink } from "../utils/messageLink.js";
+import {
+  buildAttachInlineKeyboard,
+  editPostText,
+  replacePostMedia,
+  trackPublishedKeyboard,
+} from "../services/sender.js";
+import { escapeHtml } from "../utils/formatting.js";
+import { formatLocalDateTime, normalizeTimezone, parseLocalDateTime } from "../utils/datetime.js";
+import { canUserPost, getGroupsForUser, resolveTargetsForUser } from "../services/groups.js";
+import { createScheduledPost, isScheduledPostDispatching, updateScheduledPost } from "../services/scheduler.js";
+import { getUserTimezone, setUserTimezone } from "../services/timezone.js";
+import { scheduleTimeKeyboard, scheduleTimezoneKeyboard } from "../keyboards/scheduled.js";
+import { buildSchedulePrompt, buildTimezonePrompt } from "./scheduled.js";
+import { updateSentPost } from "../services/posts.js";
+import { buildEditErrorText, explainEditError, loadPostForChange, showPostDetails, showPostsList } from "./posts.js";
+import { createDraft, MAX_DRAFT_NAME_LENGTH, MAX_DRAFTS_PER_USER } from "../services/drafts.js";
+import { draftNameKeyboard } from "../keyboards/drafts.js";
+import { buildDraftNamePrompt, buildDraftSavedText, getLoadedDraft } from "./drafts.js";
+import { chooseTopic, showTopicPicker } from "./topics.js";
+import { showAliasPrompt, showChatSettings, showGroupSelection } from "./groups.js";
+import { applyLinkEditLayout, applyLinkEditMedia, applyLinkEditText, handleLinkEditUrl } from "./linkEdit.js";
+import { MAX_ALIAS_LENGTH, setChatAlias } from "../services/chatPrefs.js";
+import { checkCanEdit, getBotRights } from "../services/permissions.js";
+import { resolveFeedbackInboxes } from "../services/feedback.js";
+import { checkGateChats } from "../services/alerts.js";
+import {
+  BUTTON_ACTIONS,
+  buildLayoutErrorsText,
+  buttonIcon,
+  parseButtonLayout,
+  placeButton,
+  rejectGiveawayButtons,
+  validateButtonText,
+  validateButtonValue,
+} from "../services/buttons.js";
 
 export const messageInputHandlers = new Composer<MyContext>();
 
@@ -30,57 +78,22 @@ async function showStep(
   const chatId = ctx.chat?.id;
   if (!chatId) return;
 
-  const showPhoto = options?.showPhoto && session.message.imageFileId;
+  // Delete previous bot message (and album preview)
+  await deleteLastBotMessage(ctx.api, chatId, session);
+  await deleteInputMessage(ctx);
 
-  // Delete previous bot message
-  if (session.lastBotMessageId) {
-    try {
-      await ctx.api.deleteMessage(chatId, session.lastBotMessageId);
-    } catch {
-      // ignore
-    }
-    session.lastBotMessageId = undefined;
-    session.lastBotMessageIsPhoto = undefined;
-  }
-
-  // Delete the user's input message for cleaner UI
-  if (ctx.message?.message_id) {
-    try {
-      await ctx.api.deleteMessage(chatId, ctx.message.message_id);
-    } catch {
-      // Bot may not have delete permission in DMs — that's fine
-    }
-  }
-
-  let sentMsg;
-  if (showPhoto && session.message.imageFileId) {
-    sentMsg = await ctx.api.sendPhoto(chatId, session.message.imageFileId, {
-      caption: text,
-      parse_mode: "HTML",
-      reply_markup: keyboard,
-    });
-    session.lastBotMessageIsPhoto = true;
-  } else {
-    sentMsg = await ctx.api.sendMessage(chatId, text, {
-      parse_mode: "HTML",
-      reply_markup: keyboard,
-      link_preview_options: { is_disabled: true },
-    });
-    session.lastBotMessageIsPhoto = false;
-  }
-  session.lastBotMessageId = sentMsg.message_id;
+  await sendStepScreen(ctx.api, chatId, session, text, keyboard, options?.showPhoto);
 }
 
-function stepText(session: SessionData, step: BuilderStep): string {
-  const parts: string[] = [];
-  if (session.message.text || session.message.imageFileId || session.message.buttons.length > 0) {
-    parts.push(buildPreviewText(session.message));
-    parts.push("");
-    parts.push("─────────────────");
-    parts.push("");
+/** Deletes the user's input message for cleaner UI */
+async function deleteInputMessage(ctx: MyContext): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (!chatId || !ctx.message?.message_id) return;
+  try {
+    await ctx.api.deleteMessage(chatId, ctx.message.message_id);
+  } catch {
+    // Bot may not have delete permission in DMs — that's fine
   }
-  parts.push(getStepInstruction(step));
-  return parts.join("\n");
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -93,21 +106,66 @@ messageInputHandlers.on("message:text", async (ctx, next) => {
   switch (session.step) {
     case "write_text": {
       session.message.text = ctx.message.text;
+      session.message.entities = ctx.message.entities;
       session.step = "add_image";
 
-      if (session.message.imageFileId) {
-        await showStep(ctx, session, stepText(session, "add_image"), imageAttachedKeyboard(), { showPhoto: true });
+      if (hasMedia(session.message)) {
+        await showStep(
+          ctx,
+          session,
+          buildStepText(session, "add_image"),
+          mediaAttachedKeyboard(session.message.media ?? []),
+          { showPhoto: true },
+        );
       } else {
-        await showStep(ctx, session, stepText(session, "add_image"), addImageKeyboard());
+        await showStep(ctx, session, buildStepText(session, "add_image"), addMediaKeyboard());
       }
       return;
     }
 
+    // A pasted text layout replaces the whole grid
+    case "edit_buttons": {
+      const { buttons, errors } = parseButtonLayout(ctx.message.text);
+      if (errors.length === 0 && ctx.from) {
+        errors.push(...(await resolveFeedbackInboxes(buttons, ctx.from.id)));
+        errors.push(...(await checkGateChats(buttons, ctx.from.id, ctx.api)));
+      }
+      if (errors.length > 0) {
+        await showStep(
+          ctx,
+          session,
+          `${buildLayoutErrorsText(errors)}\n\n${buildStepText(session, "edit_buttons")}`,
+          buttonGridKeyboard(session.message.buttons),
+        );
+        return;
+      }
+
+      session.message.buttons = buttons;
+      await showStep(
+        ctx,
+        session,
+        `✅ Кнопки загружены из текста.\n\n${buildStepText(session, "edit_buttons")}`,
+        buttonGridKeyboard(session.message.buttons),
+      );
+      return;
+    }
+
     case "btn_text": {
-      session.pendingButtonText = ctx.message.text;
+      const text = validateButtonText(ctx.message.text);
+      if (!text.ok) {
+        await showStep(
+          ctx,
+          session,
+          `❌ ${text.error}\n\n${buildStepText(session, "btn_text")}`,
+          new InlineKeyboard().text("⬅️ Назад", "back_to_buttons"),
+        );
+        return;
+      }
+
+      session.pendingButtonText = text.value;
       session.step = "btn_action";
 
-      await showStep(ctx, session, stepText(session, "btn_action"), buttonActionKeyboard());
+      await showStep(ctx, session, buildStepText(session, "btn_action"), buttonActionKeyboard());
       return;
     }
 
@@ -119,33 +177,253 @@ messageInputHandlers.on("message:text", async (ctx, next) => {
       if (!editing) {
         // Shouldn't happen, go back to buttons
         session.step = "edit_buttons";
-        await showStep(ctx, session, stepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+        await showStep(ctx, session, buildStepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
         return;
       }
 
       const action = session.pendingButtonAction ?? "alert";
-      const newButton = { text: btnText, action, value };
+      const checked = validateButtonValue(action, value);
+      if (!checked.ok) {
+        await showStep(
+          ctx,
+          session,
+          `❌ ${checked.error}\n\n${BUTTON_ACTIONS[action].prompt}`,
+          new InlineKeyboard().text("⬅️ Назад", "back_to_btn_action"),
+        );
+        return;
+      }
 
-      if (editing.isNew) {
-        // Ensure row exists
-        if (!session.message.buttons[editing.row]) {
-          session.message.buttons[editing.row] = [];
-        }
-        session.message.buttons[editing.row]!.splice(editing.col, 0, newButton);
-      } else {
-        // Update existing
-        if (session.message.buttons[editing.row]) {
-          session.message.buttons[editing.row]![editing.col] = newButton;
-        }
+      const newButton: MessageButton = { text: btnText, action, value: checked.value };
+      if (action === "gated_alert" && session.pendingGateChatId !== undefined) {
+        newButton.gateChatId = session.pendingGateChatId;
       }
 
+      placeButton(session.message.buttons, editing, newButton);
+
       // Clean up and return to grid
       session.editingButton = undefined;
       session.pendingButtonText = undefined;
       session.pendingButtonAction = undefined;
+      session.pendingGateChatId = undefined;
       session.step = "edit_buttons";
 
-      await showStep(ctx, session, stepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+      await showStep(ctx, session, buildStepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+      return;
+    }
+
+    case "schedule_time": {
+      const userId = ctx.from?.id;
+      const targetIds = session.targetGroupIds;
+      if (!userId || !targetIds?.length) return next();
+
+      const tz = await getUserTimezone(userId);
+      const sendAt = parseLocalDateTime(ctx.message.text, tz);
+
+      if (!sendAt) {
+        await showStep(
+          ctx,
+          session,
+          buildSchedulePrompt(tz, "Не удалось распознать дату и время."),
+          scheduleTimeKeyboard(tz),
+        );
+        return;
+      }
+      if (sendAt.getTime() <= Date.now()) {
+        await showStep(ctx, session, buildSchedulePrompt(tz, "Это время уже прошло."), scheduleTimeKeyboard(tz));
+        return;
+      }
+
+      const targets = await resolveTargetsForUser(userId, targetIds, session.targetTopics);
+
+      const saved = session.scheduledPostId
+        ? await updateScheduledPost(session.scheduledPostId, userId, {
+            targets,
+            message: session.message,
+            sendAt: sendAt.getTime(),
+          })
+        : null;
+      if (session.scheduledPostId && !saved && (await isScheduledPostDispatching(session.scheduledPostId))) {
+        // A second copy at the new time would publish the post twice
+        Object.assign(session, createDefaultSession());
+        await showStep(
+          ctx,
+          session,
+          "⏳ Пост как раз публикуется, поэтому новое время не сохранено.\n\nУправлять публикациями: /scheduled",
+          startKeyboard(),
+        );
+        return;
+      }
+      if (!saved) {
+        // New post, or the edited one was already published/cancelled meanwhile
+        await createScheduledPost(userId, targets, session.message, sendAt.getTime());
+      }
+
+      Object.assign(session, createDefaultSession());
+      await showStep(
+        ctx,
+        session,
+        `⏰ Пост запланирован на <b>${formatLocalDateTime(sendAt, tz)}</b> (${escapeHtml(tz)}) в «${escapeHtml(targetsLabel(targets))}».\n\nУправлять публикациями: /scheduled`,
+        startKeyboard(),
+      );
+      return;
+    }
+
+    case "schedule_timezone": {
+      const userId = ctx.from?.id;
+      if (!userId) return next();
+
+      const tz = normalizeTimezone(ctx.message.text);
+      if (!tz) {
+        await showStep(ctx, session, buildTimezonePrompt("Неизвестный часовой пояс."), scheduleTimezoneKeyboard());
+        return;
+      }
+
+      await setUserTimezone(userId, tz);
+      session.step = "schedule_time";
+      await showStep(ctx, session, buildSchedulePrompt(tz), scheduleTimeKeyboard(tz));
+      return;
+    }
+
+    // Typed text in the group picker searches chats by title and alias
+    case "select_group": {
+      const userId = ctx.from?.id;
+      if (!userId) return next();
+
+      session.groupSearch = ctx.message.text.trim() || undefined;
+      session.groupPage = 0;
+      await deleteInputMessage(ctx);
+      await showGroupSelection(ctx, session, await getGroupsForUser(userId));
+      return;
+    }
+
+    case "group_alias": {
+      const userId = ctx.from?.id;
+      const chatId = session.configChatId;
+      if (!userId || !chatId) return next();
+
+      const alias = ctx.message.text.trim();
+      await deleteInputMessage(ctx);
+      if (!alias || alias.length > MAX_ALIAS_LENGTH) {
+        await showAliasPrompt(ctx, session, chatId, `Псевдоним должен быть от 1 до ${MAX_ALIAS_LENGTH} символов.`);
+        return;
+      }
+
+      await setChatAlias(userId, chatId, alias);
+      await showChatSettings(ctx, session, chatId, "✅ Псевдоним сохранён.");
+      return;
+    }
+
+    case "select_topic": {
+      const chatId = session.topicChatId;
+      if (!chatId) return next();
+
+      const link = parseTopicLink(ctx.message.text);
+      await deleteInputMessage(ctx);
+      if (!link) {
+        await showTopicPicker(ctx, session, chatId, "Не удалось распознать ссылку на тему.");
+        return;
+      }
+
+      // Public links name the chat by username; compare by resolved ID
+      let linkChatId = link.chatId;
+      if (typeof linkChatId === "string") {
+        try {
+          linkChatId = (await ctx.api.getChat(linkChatId)).id;
+        } catch {
+          linkChatId = NaN;
+        }
+      }
+      if (linkChatId !== chatId) {
+        await showTopicPicker(ctx, session, chatId, "Ссылка ведёт в другой чат.");
+        return;
+      }
+
+      await chooseTopic(ctx, session, link.threadId);
+      return;
+    }
+
+    case "draft_name": {
+      const userId = ctx.from?.id;
+      if (!userId) return next();
+
+      const name = ctx.message.text.trim();
+      if (!name || name.length > MAX_DRAFT_NAME_LENGTH) {
+        const loaded = await getLoadedDraft(session, userId);
+        await showStep(
+          ctx,
+          session,
+          buildDraftNamePrompt(session, `Название должно быть от 1 до ${MAX_DRAFT_NAME_LENGTH} символов.`),
+          draftNameKeyboard(loaded),
+        );
+        return;
+      }
+
+      const draft = await createDraft(userId, name, session.message);
+      if (!draft) {
+        const loaded = await getLoadedDraft(session, userId);
+        await showStep(
+          ctx,
+          session,
+          buildDraftNamePrompt(
+            session,
+            `Достигнут лимит черновиков (${MAX_DRAFTS_PER_USER}). Удалите ненужные в /drafts.`,
+          ),
+          draftNameKeyboard(loaded),
+        );
+        return;
+      }
+
+      session.draftId = draft.id;
+      session.step = "review";
+      await showStep(ctx, session, buildDraftSavedText(session, draft), reviewKeyboard());
+      return;
+    }
+
+    case "post_edit_text": {
+      const id = session.editingPostId;
+      Object.assign(session, createDefaultSession());
+      await deleteInputMessage(ctx);
+
+      const post = id ? await loadPostForChange(ctx, session, id) : null;
+      if (!post) {
+        if (!id) await showPostsList(ctx, session);
+        return;
+      }
+
+      try {
+        await editPostText(ctx.api, post, ctx.message.text, ctx.message.entities);
+      } catch (error) {
+        console.error(`Failed to edit text of post ${post.id}:`, error);
+        await showPostDetails(ctx, session, post, buildEditErrorText(error));
+        return;
+      }
+
+      const updated = await updateSentPost(post, {
+        ...post.message,
+        text: ctx.message.text,
+        entities: ctx.message.entities,
+      });
+      await showPostDetails(ctx, session, updated, "✅ Текст обновлён.");
+      return;
+    }
+
+    case "link_edit_url": {
+      await deleteInputMessage(ctx);
+      await handleLinkEditUrl(ctx, session, ctx.message.text);
+      return;
+    }
+
+    case "link_edit_content": {
+      if (!session.linkEdit) return next();
+      await deleteInputMessage(ctx);
+      await applyLinkEditText(ctx, session);
+      return;
+    }
+
+    case "link_edit_buttons": {
+      if (!session.linkEdit) return next();
+      await deleteInputMessage(ctx);
+      await applyLinkEditLayout(ctx, session, ctx.message.text);
       return;
     }
 
@@ -156,27 +434,113 @@ messageInputHandlers.on("message:text", async (ctx, next) => {
 });
 
 // ═══════════════════════════════════════════════════════════════
-//  Handle photo messages (for image upload step)
+//  Handle media messages (for media upload step)
 // ═══════════════════════════════════════════════════════════════
 
-messageInputHandlers.on("message:photo", async (ctx, next) => {
-  const session = await ctx.session;
+messageInputHandlers.on(
+  ["message:photo", "message:video", "message:animation", "message:document", "message:audio"],
+  async (ctx, next) => {
+    const session = await ctx.session;
 
-  if (session.step !== "send_image") {
-    return next();
+    if (session.step === "post_replace_media") {
+      await handleReplacePostMedia(ctx, session);
+      return;
+    }
+
+    if (session.step === "link_edit_content" && session.linkEdit) {
+      await deleteInputMessage(ctx);
+      await applyLinkEditMedia(ctx, session);
+      return;
+    }
+
+    // Media is also accepted on the media step itself: later album items
+    // arrive after the first one has already moved the flow to "add_image"
+    if (session.step !== "send_image" && session.step !== "add_image") {
+      return next();
+    }
+
+    const item = extractAttachment(ctx.message);
+    if (!item) return;
+
+    const existing = session.message.media ?? [];
+    const mediaGroupId = ctx.message.media_group_id;
+
+    if (mediaGroupId) {
+      // Album: each file arrives as its own update, collect them in Redis
+      const group = await collectMediaGroupItem(mediaGroupId, ctx.message.message_id, item);
+      const base = existing.filter((m) => !group.items.some((g) => g.fileId === m.fileId));
+      if (!group.items.every((g) => canAddToAlbum(base, g.type))) {
+        if (group.isLatest) await showIncompatibleMedia(ctx, session);
+        return;
+      }
+      session.message.media = mergeMediaGroup(existing, group.items);
+      if (!group.isLatest) return;
+    } else {
+      if (!canAddToAlbum(existing, item.type)) {
+        await showIncompatibleMedia(ctx, session);
+        return;
+      }
+      session.message.media = [...existing, item];
+    }
+
+    // Media received, show it attached and let user proceed
+    session.step = "add_image";
+    await showStep(
+      ctx,
+      session,
+      buildStepText(session, "add_image"),
+      mediaAttachedKeyboard(session.message.media),
+      { showPhoto: true },
+    );
+  },
+);
+
+/**
+ * Replaces the media of the published post being edited via /posts.
+ */
+async function handleReplacePostMedia(ctx: MyContext, session: SessionData): Promise<void> {
+  const item = ctx.message ? extractAttachment(ctx.message) : undefined;
+  // Only the first file of an album is used; the rest arrive with the step already reset
+  const id = session.editingPostId;
+  Object.assign(session, createDefaultSession());
+  await deleteInputMessage(ctx);
+
+  const post = id ? await loadPostForChange(ctx, session, id) : null;
+  if (!post) {
+    if (!id) await showPostsList(ctx, session);
+    return;
+  }
+  if (!item) {
+    await showPostDetails(ctx, session, post);
+    return;
   }
 
-  // Get the highest resolution photo
-  const photos = ctx.message.photo;
-  const bestPhoto = photos[photos.length - 1];
-  if (!bestPhoto) return;
+  try {
+    await replacePostMedia(ctx.api, post, item);
+  } catch (error) {
+    console.error(`Failed to replace media of post ${post.id}:`, error);
+    await showPostDetails(ctx, session, post, buildEditErrorText(error));
+    return;
+  }
 
-  session.message.imageFileId = bestPhoto.file_id;
+  const updated = await updateSentPost(post, { ...post.message, media: [item] });
+  await showPostDetails(ctx, session, updated, "✅ Медиа заменено.");
+}
 
-  // Image received, show it attached and let user proceed
+/**
+ * Explains why a file can't join the current album and keeps the current media.
+ */
+async function showIncompatibleMedia(ctx: MyContext, session: SessionData): Promise<void> {
   session.step = "add_image";
-  await showStep(ctx, session, stepText(session, "add_image"), imageAttachedKeyboard(), { showPhoto: true });
-});
+  const text = [
+    "⚠️ Этот файл нельзя добавить к уже прикреплённым.",
+    "",
+    "В альбоме можно объединять фото с видео, документы — только с документами, аудио — только с аудио. GIF отправляется отдельно. Максимум — 10 файлов.",
+    "",
+    "Нажмите «Заменить», чтобы начать заново.",
+  ].join("\n");
+  await showStep(ctx, session, text, mediaAttachedKeyboard(session.message.media ?? []));
+}
 
 // ═══════════════════════════════════════════════════════════════
 //  Handle text messages for ATTACH BUTTONS flow
@@ -203,14 +567,7 @@ messageInputHandlers.on("message:text", async (ctx, next) => {
   // Helper to show step
   const show = async (text: string, keyboard: InlineKeyboard) => {
     // Delete previous bot message
-    if (session.lastBotMessageId) {
-      try {
-        await ctx.api.deleteMessage(chatId, session.lastBotMessageId);
-      } catch {
-        // ignore
-      }
-      session.lastBotMessageId = undefined;
-    }
+    await deleteLastBotMessage(ctx.api, chatId, session);
     // Delete user's message
     if (ctx.message?.message_id) {
       try {
@@ -233,7 +590,7 @@ messageInputHandlers.on("message:text", async (ctx, next) => {
     const lines = ["<b>Кнопки:</b>"];
     for (const row of af.buttons) {
       const rowText = row
-        .map((btn) => `[${btn.action === "url" ? "🔗" : "💬"} ${btn.text}]`)
+        .map((btn) => `[${buttonIcon(btn.action)} ${escapeHtml(btn.text)}]`)
         .join(" ");
       lines.push(rowText);
     }
@@ -252,7 +609,16 @@ messageInputHandlers.on("message:text", async (ctx, next) => {
 
   // Handle button text input (when editingButton is set but no pendingButtonText yet)
   if (af.editingButton && !af.pendingButtonText && !af.pendingButtonAction) {
-    af.pendingButtonText = ctx.message.text;
+    const text = validateButtonText(ctx.message.text);
+    if (!text.ok) {
+      await show(
+        `❌ ${text.error}\n\n✏️ Напишите текст для кнопки:`,
+        new InlineKeyboard().text("⬅️ Назад", "ab_back_to_buttons"),
+      );
+      return;
+    }
+
+    af.pendingButtonText = text.value;
     await show("⚡ Что делать при нажатии на кнопку?", attachButtonActionKeyboard());
     return;
   }
@@ -264,24 +630,46 @@ messageInputHandlers.on("message:text", async (ctx, next) => {
     const btnText = af.pendingButtonText;
     const action = af.pendingButtonAction;
 
-    const newButton = { text: btnText, action, value };
+    const checked = validateButtonValue(action, value);
+    if (!checked.ok) {
+      await show(
+        `❌ ${checked.error}\n\n${BUTTON_ACTIONS[action].prompt}`,
+        new InlineKeyboard().text("⬅️ Назад", "ab_back_to_btn_action"),
+      );
+      return;
+    }
 
-    if (editing.isNew) {
-      if (!af.buttons[editing.row]) {
-        af.buttons[editing.row] = [];
-      }
-      af.buttons[editing.row]!.splice(editing.col, 0, newButton);
-    } else {
-      if (af.buttons[editing.row]) {
-        af.buttons[editing.row]![editing.col] = newButton;
-      }
+    const newButton: MessageButton = { text: btnText, action, value: checked.value };
+    if (action === "gated_alert" && af.pendingGateChatId !== undefined) {
+      newButton.gateChatId = af.pendingGateChatId;
     }
 
+    placeButton(af.buttons, editing, newButton);
+
     // Clean up
     af.editingButton = undefined;
     af.pendingButtonText = undefined;
     af.pendingButtonAction = undefined;
+    af.pendingGateChatId = undefined;
+
+    await show(buildStepText(), attachButtonGridKeyboard(af.buttons));
+    return;
+  }
+
+  // Handle a pasted text layout on the grid (replaces all buttons)
+  if (af.step === "attach_edit_buttons" && !af.editingButton) {
+    const { buttons, errors } = parseButtonLayout(ctx.message.text);
+    if (errors.length === 0) errors.push(...rejectGiveawayButtons(buttons));
+    if (errors.length === 0 && ctx.from) {
+      errors.push(...(await resolveFeedbackInboxes(buttons, ctx.from.id)));
+      errors.push(...(await checkGateChats(buttons, ctx.from.id, ctx.api)));
+    }
+    if (errors.length > 0) {
+      await show(`${buildLayoutErrorsText(errors)}\n\n${buildStepText()}`, attachButtonGridKeyboard(af.buttons));
+      return;
+    }
 
+    af.buttons = buttons;
     await show(buildStepText(), attachButtonGridKeyboard(af.buttons));
     return;
   }
@@ -305,33 +693,48 @@ messageInputHandlers.on("message:text", async (ctx, next) => {
       return;
     }
 
+    // Only admins who may post in the chat may change its posts
+    const targetChatId = await resolveChatId(ctx, parsed.chatId);
+    if (targetChatId === null) {
+      await show(
+        "❌ Канал или группа не найдены.\n\nПроверьте ссылку и убедитесь, что бот добавлен в этот чат.",
+        attachAwaitingUrlKeyboard(),
+      );
+      return;
+    }
+    if (!(await canUserPost(ctx.api, targetChatId, ctx.from.id))) {
+      await show(
+        "❌ Добавлять кнопки к постам этого чата могут только его администраторы с правом публикации.",
+        attachAwaitingUrlKeyboard(),
+      );
+      return;
+    }
+
+    // Pre-flight: explain missing rights instead of a raw API error
+    const rightsProblem = await preflightEdit(ctx, targetChatId);
+    if (rightsProblem) {
+      await show(
+        `❌ Бот не может добавить кнопки: ${rightsProblem}.\n\nВыдайте боту право <b>«Редактирование сообщений»</b> в настройках администратора канала.`,
+        attachAwaitingUrlKeyboard(),
+      );
+      return;
+    }
+
     // Try to attach buttons
     try {
       const keyboard = await buildAttachInlineKeyboard(af.buttons);
-      await ctx.api.editMessageReplyMarkup(parsed.chatId, parsed.messageId, {
+      const edited = await ctx.api.editMessageReplyMarkup(targetChatId, parsed.messageId, {
         reply_markup: keyboard,
       });
+      if (edited !== true) {
+        await trackPublishedKeyboard(targetChatId, edited.message_id, af.buttons);
+      }
 
       // Success! Reset flow
       session.attachFlow = { step: "attach_idle", buttons: [] };
       await show("✅ Кнопки успешно добавлены к сообщению!", startKeyboard());
     } catch (error) {
-      const errMsg = error instanceof Error ? error.message : String(error);
-      let userMessage: string;
-
-      if (errMsg.includes("not enough rights") || errMsg.includes("CHAT_ADMIN_REQUIRED")) {
-        userMessage = "❌ Бот не является администратором в этом канале/группе.\n\nДобавьте бота как администратора с правом <b>редактирования сообщений</b>.";
-      } else if (errMsg.includes("message to edit not found") || errMsg.includes("MESSAGE_ID_INVALID")) {
-        userMessage = "❌ Сообщение не найдено.\n\nВозможно, оно было удалено или ссылка неверна.";
-      } else if (errMsg.includes("message can't be edited")) {
-        userMessage = "❌ Бот не может редактировать это сообщение.\n\nУбедитесь, что у бота есть право <b>«Изменение чужих сообщений»</b> (Edit messages) в настройках администратора канала/группы.";
-      } else if (errMsg.includes("chat not found") || errMsg.includes("CHAT_NOT_FOUND")) {
-        userMessage = "❌ Канал или группа не найдены.\n\nПроверьте ссылку и убедитесь, что бот добавлен в этот чат.";
-      } else {
-        userMessage = `❌ Не удалось добавить кнопки.\n\n<code>${escapeHtml(errMsg)}</code>`;
-      }
-
-      await show(userMessage, attachAwaitingUrlKeyboard());
+      await show(explainEditError(error, "Не удалось добавить кнопки."), attachAwaitingUrlKeyboard());
     }
     return;
   }
@@ -339,7 +742,28 @@ messageInputHandlers.on("message:text", async (ctx, next) => {
   return next();
 });
 
-// Helper for escaping HTML
-function escapeHtml(text: string): string {
-  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+/**
+ * Resolves a linked chat (numeric ID or @username) to its ID, or null if
+ * the bot can't see it.
+ */
+async function resolveChatId(ctx: MyContext, chatRef: number | string): Promise<number | null> {
+  if (typeof chatRef === "number") return chatRef;
+  try {
+    return (await ctx.api.getChat(chatRef)).id;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks the bot's rights to edit messages in the linked chat.
+ * Returns the reason it can't, or null (also when the chat can't be checked —
+ * then Telegram's own error is explained after the attempt).
+ */
+async function preflightEdit(ctx: MyContext, chatId: number): Promise<string | null> {
+  try {
+    return checkCanEdit(await getBotRights(ctx.api, chatId));
+  } catch {
+    return null;
+  }
 }
@@ -0,0 +1,371 @@
+import { Composer, InlineKeyboard } from "grammy";
+import type { MyContext, SentPost, SessionData } from "../types/index.js";
+import { createDefaultSession } from "../types/index.js";
+import {
+  buildPreviewText,
+  buildStepText,
+  deleteLastBotMessage,
+  sendStepScreen,
+} from "../services/preview.js";
+import {
+  getSentPost,
+  getSentPostsForUser,
+  removeSentPost,
+  updateSentPost,
+} from "../services/posts.js";
+import { deletePostMessages, editPostButtons } from "../services/sender.js";
+import { canUserPost } from "../services/groups.js";
+import { getUserTimezone } from "../services/timezone.js";
+import { buttonGridKeyboard } from "../keyboards/messageBuilder.js";
+import {
+  postActionsKeyboard,
+  postDeleteConfirmKeyboard,
+  postInputKeyboard,
+  postsListKeyboard,
+} from "../keyboards/posts.js";
+import { formatLocalDateTime } from "../utils/datetime.js";
+import { escapeHtml } from "../utils/formatting.js";
+import { buildMessageLink } from "../utils/messageLink.js";
+
+export const postsCallbacks = new Composer<MyContext>();
+
+// ═══════════════════════════════════════════════════════════════
+//  Utility: show step
+// ═══════════════════════════════════════════════════════════════
+
+async function showStep(
+  ctx: MyContext,
+  session: SessionData,
+  text: string,
+  keyboard: InlineKeyboard,
+): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  await deleteLastBotMessage(ctx.api, chatId, session);
+  await sendStepScreen(ctx.api, chatId, session, text, keyboard);
+}
+
+/**
+ * Shows the user's recent posts. Used by the /posts command and the
+ * "back to list" button.
+ */
+export async function showPostsList(ctx: MyContext, session: SessionData): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const posts = await getSentPostsForUser(userId);
+  const tz = await getUserTimezone(userId);
+
+  const text =
+    posts.length === 0
+      ? "📰 Вы ещё не публиковали постов через бота."
+      : ["📰 <b>Недавние посты</b>", "", "Выберите пост, чтобы изменить или удалить его."].join("\n");
+
+  await showStep(ctx, session, text, postsListKeyboard(posts, tz));
+}
+
+/**
+ * Shows a published post with its management actions.
+ * @param notice - result line of the previous action, shown on top
+ */
+export async function showPostDetails(
+  ctx: MyContext,
+  session: SessionData,
+  post: SentPost,
+  notice?: string,
+): Promise<void> {
+  const tz = await getUserTimezone(post.userId);
+  const lines: string[] = [];
+  if (notice) {
+    lines.push(notice);
+    lines.push("");
+  }
+  lines.push(buildPreviewText(post.message));
+  lines.push("");
+  lines.push("─────────────────");
+  lines.push("");
+  lines.push(`📢 <b>Чат:</b> ${escapeHtml(post.chatTitle)}`);
+  lines.push(`🕒 <b>Опубликован:</b> ${formatLocalDateTime(post.sentAt, tz)} (${escapeHtml(tz)})`);
+  if (post.editedAt) {
+    lines.push(`✏️ <b>Изменён:</b> ${formatLocalDateTime(post.editedAt, tz)}`);
+  }
+  const link = buildMessageLink(post.chatId, post.messageId);
+  if (link) {
+    lines.push(`🔗 <a href="${link}">Открыть пост</a>`);
+  }
+
+  await showStep(ctx, session, lines.join("\n"), postActionsKeyboard(post));
+}
+
+/** Text of a failed edit, with Telegram's reason */
+export function buildEditErrorText(error: unknown): string {
+  const reason = error instanceof Error ? error.message : String(error);
+  return `❌ Не удалось изменить пост:\n<code>${escapeHtml(reason)}</code>`;
+}
+
+/**
+ * Explains a failed edit of a message found by link (attaching buttons,
+ * editing its content) in plain words, or shows Telegram's reason.
+ * @param failure - first line for errors without a known cause
+ */
+export function explainEditError(error: unknown, failure: string): string {
+  const errMsg = error instanceof Error ? error.message : String(error);
+
+  if (errMsg.includes("not enough rights") || errMsg.includes("CHAT_ADMIN_REQUIRED")) {
+    return "❌ Бот не является администратором в этом канале/группе.\n\nДобавьте бота как администратора с правом <b>редактирования сообщений</b>.";
+  }
+  if (errMsg.includes("message to edit not found") || errMsg.includes("MESSAGE_ID_INVALID")) {
+    return "❌ Сообщение не найдено.\n\nВозможно, оно было удалено или ссылка неверна.";
+  }
+  if (errMsg.includes("message can't be edited")) {
+    return "❌ Бот не может редактировать это сообщение.\n\nУбедитесь, что у бота есть право <b>«Изменение чужих сообщений»</b> (Edit messages) в настройках администратора канала/группы.";
+  }
+  if (errMsg.includes("chat not found") || errMsg.includes("CHAT_NOT_FOUND")) {
+    return "❌ Канал или группа не найдены.\n\nПроверьте ссылку и убедитесь, что бот добавлен в этот чат.";
+  }
+  if (errMsg.includes("no media in the message")) {
+    return "❌ В этом сообщении нет медиа.\n\nФайл можно заменить только в посте с медиа, а текст — отправьте обычным сообщением.";
+  }
+  if (errMsg.includes("message is too long") || errMsg.includes("MESSAGE_TOO_LONG")) {
+    return "❌ Текст слишком длинный: в сообщении — до 4096 символов.";
+  }
+  if (errMsg.includes("caption is too long") || errMsg.includes("MEDIA_CAPTION_TOO_LONG")) {
+    return "❌ Подпись слишком длинная: у медиа — до 1024 символов.";
+  }
+  return `❌ ${failure}\n\n<code>${escapeHtml(errMsg)}</code>`;
+}
+
+/** Why a demoted author can't change a post (or any message) of a chat any more */
+export const NO_POST_RIGHTS_TEXT = "❌ Изменять посты этого чата могут только его администраторы с правом публикации.";
+
+/** Loads the user's post by ID, or null if it's gone or belongs to someone else */
+async function loadOwnPost(ctx: MyContext, id: string): Promise<SentPost | null> {
+  const post = await getSentPost(id);
+  if (!post || post.userId !== ctx.from?.id) return null;
+  return post;
+}
+
+/**
+ * Loads the user's post before a change (edit text, media, buttons, delete).
+ * The author must still be an admin with posting rights in the post's chat.
+ * Otherwise shows why — the list if the post is gone, the post with
+ * NO_POST_RIGHTS_TEXT if the rights were lost — and returns null.
+ */
+export async function loadPostForChange(ctx: MyContext, session: SessionData, id: string): Promise<SentPost | null> {
+  const post = await loadOwnPost(ctx, id);
+  if (!post) {
+    await showPostsList(ctx, session);
+    return null;
+  }
+  if (!(await canUserPost(ctx.api, post.chatId, post.userId))) {
+    await showPostDetails(ctx, session, post, NO_POST_RIGHTS_TEXT);
+    return null;
+  }
+  return post;
+}
+
+/** Resets the builder and links the session to the post being edited */
+function startPostEdit(session: SessionData, post: SentPost): void {
+  Object.assign(session, createDefaultSession());
+  session.editingPostId = post.id;
+}
+
+/**
+ * Leaves post editing (e.g. "back" from the button grid) and returns to
+ * the post, or to the list if the post is gone.
+ */
+export async function returnToPost(ctx: MyContext, session: SessionData): Promise<void> {
+  const id = session.editingPostId;
+  Object.assign(session, createDefaultSession());
+
+  const post = id ? await loadOwnPost(ctx, id) : null;
+  if (post) {
+    await showPostDetails(ctx, session, post);
+  } else {
+    await showPostsList(ctx, session);
+  }
+}
+
+/**
+ * Opens a post's management screen from a deep link (/start post_ID).
+ * Only the author can open it; anyone else gets the main menu.
+ * @returns false if the post is gone or belongs to someone else
+ */
+export async function openPostFromLink(ctx: MyContext, session: SessionData, id: string): Promise<boolean> {
+  const post = await loadOwnPost(ctx, id);
+  if (!post) return false;
+
+  Object.assign(session, createDefaultSession());
+  await showPostDetails(ctx, session, post);
+  return true;
+}
+
+/**
+ * Applies the button grid edited in the builder to the published post.
+ * Called by the grid's "done"/"skip" buttons while a post is being edited.
+ */
+export async function applyPostButtons(ctx: MyContext, session: SessionData): Promise<void> {
+  const id = session.editingPostId;
+  const buttons = session.message.buttons;
+  Object.assign(session, createDefaultSession());
+
+  const post = id ? await loadPostForChange(ctx, session, id) : null;
+  if (!post) {
+    if (!id) await showPostsList(ctx, session);
+    return;
+  }
+
+  try {
+    await editPostButtons(ctx.api, post, buttons);
+  } catch (error) {
+    console.error(`Failed to edit buttons of post ${post.id}:`, error);
+    await showPostDetails(ctx, session, post, buildEditErrorText(error));
+    return;
+  }
+
+  const updated = await updateSentPost(post, { ...post.message, buttons });
+  await showPostDetails(ctx, session, updated, "✅ Кнопки обновлены.");
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  /posts: list and details
+// ═══════════════════════════════════════════════════════════════
+
+postsCallbacks.callbackQuery("pst_list", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  Object.assign(session, createDefaultSession());
+  await showPostsList(ctx, session);
+});
+
+postsCallbacks.callbackQuery("pst_close", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+  await deleteLastBotMessage(ctx.api, chatId, session);
+});
+
+// Post details: pst:ID (also "back" from text/media input)
+postsCallbacks.callbackQuery(/^pst:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const post = await loadOwnPost(ctx, ctx.match[1]!);
+  if (session.editingPostId) {
+    Object.assign(session, createDefaultSession());
+  }
+  if (!post) {
+    await showPostsList(ctx, session);
+    return;
+  }
+
+  await showPostDetails(ctx, session, post);
+});
+
+// ═══════════════════════════════════════════════════════════════
+//  Edit text, buttons, media
+// ═══════════════════════════════════════════════════════════════
+
+postsCallbacks.callbackQuery(/^pst_text:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const post = await loadPostForChange(ctx, session, ctx.match[1]!);
+  if (!post) return;
+
+  startPostEdit(session, post);
+  session.step = "post_edit_text";
+  await showStep(
+    ctx,
+    session,
+    "✏️ Отправьте новый текст поста:\n\n<i>Форматирование Telegram сохранится, кнопки и медиа останутся прежними.</i>",
+    postInputKeyboard(post.id),
+  );
+});
+
+// Edit buttons in the regular grid editor
+postsCallbacks.callbackQuery(/^pst_btns:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const post = await loadPostForChange(ctx, session, ctx.match[1]!);
+  if (!post) return;
+
+  startPostEdit(session, post);
+  session.message = post.message;
+  session.step = "edit_buttons";
+  await showStep(ctx, session, buildStepText(session, "edit_buttons"), buttonGridKeyboard(session.message.buttons));
+});
+
+postsCallbacks.callbackQuery(/^pst_media:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const post = await loadPostForChange(ctx, session, ctx.match[1]!);
+  if (!post) return;
+
+  startPostEdit(session, post);
+  session.step = "post_replace_media";
+  await showStep(
+    ctx,
+    session,
+    "🔄 Отправьте новый файл (фото, видео, GIF, документ или аудио):\n\n<i>Подпись и кнопки останутся прежними.</i>",
+    postInputKeyboard(post.id),
+  );
+});
+
+// ═══════════════════════════════════════════════════════════════
+//  Delete
+// ═══════════════════════════════════════════════════════════════
+
+postsCallbacks.callbackQuery(/^pst_del:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const post = await loadPostForChange(ctx, session, ctx.match[1]!);
+  if (!post) return;
+
+  await showStep(
+    ctx,
+    session,
+    `🗑 Удалить пост из «${escapeHtml(post.chatTitle)}»? Это действие нельзя отменить.`,
+    postDeleteConfirmKeyboard(post.id),
+  );
+});
+
+postsCallbacks.callbackQuery(/^pst_del_ok:([\w-]+)$/, async (ctx) => {
+  const session = await ctx.session;
+
+  const post = await loadOwnPost(ctx, ctx.match[1]!);
+  if (!post) {
+    await ctx.answerCallbackQuery();
+    await showPostsList(ctx, session);
+    return;
+  }
+  if (!(await canUserPost(ctx.api, post.chatId, post.userId))) {
+    await ctx.answerCallbackQuery();
+    await showPostDetails(ctx, session, post, NO_POST_RIGHTS_TEXT);
+    return;
+  }
+
+  try {
+    await deletePostMessages(ctx.api, post);
+  } catch (error) {
+    console.error(`Failed to delete post ${post.id}:`, error);
+    await ctx.answerCallbackQuery();
+    const reason = error instanceof Error ? error.message : String(error);
+    await showPostDetails(
+      ctx,
+      session,
+      post,
+      `❌ Не удалось удалить пост:\n<code>${escapeHtml(reason)}</code>\n\n<i>В группах бот может удалять свои сообщения старше 48 часов, только если у него есть право удалять сообщения.</i>`,
+    );
+    return;
+  }
+
+  await removeSentPost(post);
+  await ctx.answerCallbackQuery({ text: "Пост удалён" });
+  await showPostsList(ctx, session);
+});
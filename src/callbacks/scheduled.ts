@@ -0,0 +1,309 @@
+import { Composer, InlineKeyboard } from "grammy";
+import type { MyContext, ScheduledPost, SessionData } from "../types/index.js";
+import { createDefaultSession } from "../types/index.js";
+import {
+  buildConfirmText,
+  buildPreviewText,
+  buildStepText,
+  buildTargetsList,
+  targetsLabel,
+  deleteLastBotMessage,
+  hasMedia,
+  sendStepScreen,
+} from "../services/preview.js";
+import { resolveTargetsForUser } from "../services/groups.js";
+import {
+  cancelScheduledPost,
+  getScheduledPost,
+  getScheduledPostsForUser,
+  isScheduledPostDispatching,
+  updateScheduledPost,
+} from "../services/scheduler.js";
+import { getUserTimezone } from "../services/timezone.js";
+import { confirmSendKeyboard, reviewKeyboard } from "../keyboards/messageBuilder.js";
+import {
+  scheduleTimeKeyboard,
+  scheduleTimezoneKeyboard,
+  scheduledListKeyboard,
+  scheduledPostKeyboard,
+} from "../keyboards/scheduled.js";
+import { formatLocalDateTime } from "../utils/datetime.js";
+import { escapeHtml } from "../utils/formatting.js";
+
+export const scheduledCallbacks = new Composer<MyContext>();
+
+// ═══════════════════════════════════════════════════════════════
+//  Utility: show step
+// ═══════════════════════════════════════════════════════════════
+
+async function showStep(
+  ctx: MyContext,
+  session: SessionData,
+  text: string,
+  keyboard: InlineKeyboard,
+): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  await deleteLastBotMessage(ctx.api, chatId, session);
+  await sendStepScreen(ctx.api, chatId, session, text, keyboard);
+}
+
+/**
+ * Builds the date/time prompt for scheduling, with an optional error line
+ * (shown when the previous input couldn't be used).
+ */
+export function buildSchedulePrompt(tz: string, error?: string): string {
+  const lines: string[] = [];
+  if (error) {
+    lines.push(`❌ ${error}`);
+    lines.push("");
+  }
+  lines.push("⏰ <b>Когда опубликовать?</b>");
+  lines.push("");
+  lines.push(`Часовой пояс: <b>${escapeHtml(tz)}</b>, сейчас ${formatLocalDateTime(Date.now(), tz)}`);
+  lines.push("");
+  lines.push("Отправьте дату и время в одном из форматов:");
+  lines.push("• <code>18:30</code> — сегодня (или завтра, если время прошло)");
+  lines.push("• <code>завтра 18:30</code>");
+  lines.push("• <code>25.12 18:30</code>");
+  lines.push("• <code>25.12.2026 18:30</code>");
+  return lines.join("\n");
+}
+
+/** Prompt for the user's timezone */
+export function buildTimezonePrompt(error?: string): string {
+  const lines: string[] = [];
+  if (error) {
+    lines.push(`❌ ${error}`);
+    lines.push("");
+  }
+  lines.push("🌍 <b>Отправьте ваш часовой пояс</b>");
+  lines.push("");
+  lines.push("Например: <code>Europe/Moscow</code>, <code>Asia/Almaty</code> или смещение <code>+3</code>, <code>UTC-5</code>.");
+  return lines.join("\n");
+}
+
+/**
+ * Shows the user's scheduled posts. Used by the /scheduled command and the
+ * "back to list" button.
+ */
+export async function showScheduledList(ctx: MyContext, session: SessionData): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const posts = await getScheduledPostsForUser(userId);
+  const tz = await getUserTimezone(userId);
+
+  const text =
+    posts.length === 0
+      ? "🗓 У вас нет запланированных постов.\n\nЗапланировать пост можно на шаге подтверждения отправки."
+      : [
+          "🗓 <b>Запланированные посты</b>",
+          "",
+          `Время указано в часовом поясе <b>${escapeHtml(tz)}</b>. ⚠️ — публикация не удалась.`,
+        ].join("\n");
+
+  await showStep(ctx, session, text, scheduledListKeyboard(posts, tz));
+}
+
+/** Loads a scheduled post into the builder session for editing or rescheduling */
+function loadIntoBuilder(session: SessionData, post: ScheduledPost): void {
+  Object.assign(session, createDefaultSession());
+  session.message = post.message;
+  session.targetGroupIds = post.targets.map((t) => t.chatId);
+  session.targetTopics = Object.fromEntries(
+    post.targets.filter((t) => t.threadId).map((t) => [String(t.chatId), t.threadId!]),
+  );
+  session.scheduledPostId = post.id;
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Schedule from the confirm step
+// ═══════════════════════════════════════════════════════════════
+
+scheduledCallbacks.callbackQuery("schedule_post", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  if (!session.targetGroupIds?.length) {
+    await showStep(ctx, session, "❌ Группа или канал не выбраны.", reviewKeyboard());
+    return;
+  }
+
+  if (!session.message.text && !hasMedia(session.message)) {
+    await showStep(
+      ctx,
+      session,
+      "❌ Сообщение пустое. Добавьте текст или медиа перед отправкой.",
+      reviewKeyboard(),
+    );
+    return;
+  }
+
+  session.step = "schedule_time";
+  const tz = await getUserTimezone(userId);
+  await showStep(ctx, session, buildSchedulePrompt(tz), scheduleTimeKeyboard(tz));
+});
+
+// Change timezone
+scheduledCallbacks.callbackQuery("sch_tz", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  session.step = "schedule_timezone";
+
+  await showStep(ctx, session, buildTimezonePrompt(), scheduleTimezoneKeyboard());
+});
+
+// Back from the time prompt to the confirm step
+scheduledCallbacks.callbackQuery("back_to_confirm", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId || !session.targetGroupIds?.length) return;
+
+  session.step = "confirm_send";
+  const targets = await resolveTargetsForUser(userId, session.targetGroupIds, session.targetTopics);
+
+  await showStep(
+    ctx,
+    session,
+    buildConfirmText(session, targets),
+    confirmSendKeyboard(targetsLabel(targets), !!session.scheduledPostId),
+  );
+});
+
+// Save an edited scheduled post, keeping its publish time
+scheduledCallbacks.callbackQuery("sch_save", async (ctx) => {
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId || !session.scheduledPostId || !session.targetGroupIds?.length) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  const updated = await updateScheduledPost(session.scheduledPostId, userId, {
+    targets: await resolveTargetsForUser(userId, session.targetGroupIds, session.targetTopics),
+    message: session.message,
+  });
+
+  if (!updated) {
+    const text = (await isScheduledPostDispatching(session.scheduledPostId))
+      ? "Пост как раз публикуется, изменения не сохранены"
+      : "Пост уже опубликован или отменён";
+    await ctx.answerCallbackQuery({ text, show_alert: true });
+    return;
+  }
+
+  await ctx.answerCallbackQuery({ text: "Изменения сохранены" });
+  Object.assign(session, createDefaultSession());
+  await showScheduledList(ctx, session);
+});
+
+// ═══════════════════════════════════════════════════════════════
+//  /scheduled: list, details, reschedule, edit, cancel
+// ═══════════════════════════════════════════════════════════════
+
+scheduledCallbacks.callbackQuery("sch_list", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showScheduledList(ctx, session);
+});
+
+scheduledCallbacks.callbackQuery("sch_close", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+  await deleteLastBotMessage(ctx.api, chatId, session);
+});
+
+// Post details: sch:ID
+scheduledCallbacks.callbackQuery(/^sch:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const post = await getScheduledPost(ctx.match[1]!);
+  if (!post || post.userId !== userId) {
+    await showScheduledList(ctx, session);
+    return;
+  }
+
+  const tz = await getUserTimezone(userId);
+  const lines = [
+    buildPreviewText(post.message),
+    "",
+    "─────────────────",
+    "",
+    "📢 <b>Куда:</b>",
+    buildTargetsList(post.targets),
+    `⏰ <b>Когда:</b> ${formatLocalDateTime(post.sendAt, tz)} (${escapeHtml(tz)})`,
+  ];
+  if (post.status === "failed") {
+    lines.push("");
+    lines.push("⚠️ <b>Публикация не удалась:</b>");
+    lines.push(`<code>${escapeHtml(post.lastError ?? "неизвестная ошибка")}</code>`);
+  }
+
+  await showStep(ctx, session, lines.join("\n"), scheduledPostKeyboard(post.id));
+});
+
+// Reschedule: sch_resched:ID
+scheduledCallbacks.callbackQuery(/^sch_resched:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const post = await getScheduledPost(ctx.match[1]!);
+  if (!post || post.userId !== userId) {
+    await showScheduledList(ctx, session);
+    return;
+  }
+
+  loadIntoBuilder(session, post);
+  session.step = "schedule_time";
+  const tz = await getUserTimezone(userId);
+  await showStep(ctx, session, buildSchedulePrompt(tz), scheduleTimeKeyboard(tz));
+});
+
+// Edit content in the builder: sch_edit:ID
+scheduledCallbacks.callbackQuery(/^sch_edit:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const post = await getScheduledPost(ctx.match[1]!);
+  if (!post || post.userId !== userId) {
+    await showScheduledList(ctx, session);
+    return;
+  }
+
+  loadIntoBuilder(session, post);
+  session.step = "review";
+  await showStep(ctx, session, buildStepText(session, "review"), reviewKeyboard());
+});
+
+// Cancel: sch_cancel:ID
+scheduledCallbacks.callbackQuery(/^sch_cancel:([\w-]+)$/, async (ctx) => {
+  const session = await ctx.session;
+  const userId = ctx.from?.id;
+  if (!userId) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  const cancelled = await cancelScheduledPost(ctx.match[1]!, userId);
+  await ctx.answerCallbackQuery({ text: cancelled ? "Публикация отменена" : "Пост не найден" });
+
+  // Drop the builder link if the cancelled post was being edited
+  if (session.scheduledPostId === ctx.match[1]) {
+    session.scheduledPostId = undefined;
+  }
+  await showScheduledList(ctx, session);
+});
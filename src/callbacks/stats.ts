@@ -0,0 +1,139 @@
+import { Composer, InlineKeyboard } from "grammy";
+import type { MyContext, SentPost, SessionData } from "../types/index.js";
+import { deleteLastBotMessage, sendStepScreen } from "../services/preview.js";
+import { getSentPost, getSentPostsForUser } from "../services/posts.js";
+import { getMessageStats } from "../services/stats.js";
+import type { ButtonStats } from "../services/stats.js";
+import { buttonIcon } from "../services/buttons.js";
+import { getUserTimezone } from "../services/timezone.js";
+import { postStatsKeyboard, statsListKeyboard } from "../keyboards/stats.js";
+import type { PostClicks } from "../keyboards/stats.js";
+import { formatLocalDateTime } from "../utils/datetime.js";
+import { escapeHtml, plural } from "../utils/formatting.js";
+import { buildMessageLink } from "../utils/messageLink.js";
+
+export const statsCallbacks = new Composer<MyContext>();
+
+/** How many recent posts /stats looks through */
+const STATS_POSTS_LIMIT = 20;
+
+/** Days in the per-day breakdown, today included */
+const STATS_DAYS = 7;
+
+async function showStep(
+  ctx: MyContext,
+  session: SessionData,
+  text: string,
+  keyboard: InlineKeyboard,
+): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  await deleteLastBotMessage(ctx.api, chatId, session);
+  await sendStepScreen(ctx.api, chatId, session, text, keyboard);
+}
+
+/** Click stats of a post's buttons; tracked links only count when the post routes them */
+function getPostStats(post: SentPost): Promise<ButtonStats[]> {
+  return getMessageStats(
+    post.chatId,
+    post.messageId,
+    post.message.buttons,
+    !!post.message.options?.trackLinks,
+    STATS_DAYS,
+  );
+}
+
+/**
+ * Shows the user's recent posts that have countable buttons (alerts,
+ * votes, tracked links), with their total clicks. Used by /stats.
+ */
+export async function showStatsList(ctx: MyContext, session: SessionData): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const entries: PostClicks[] = [];
+  for (const post of await getSentPostsForUser(userId, STATS_POSTS_LIMIT)) {
+    const stats = await getPostStats(post);
+    if (stats.length === 0) continue;
+    entries.push({ post, total: stats.reduce((sum, s) => sum + s.total, 0) });
+  }
+
+  const text =
+    entries.length === 0
+      ? [
+          "📊 Пока нечего считать.",
+          "",
+          "Статистика собирается по кнопкам-уведомлениям, голосованиям и ссылкам с включённым счётом переходов (в параметрах поста).",
+        ].join("\n")
+      : ["📊 <b>Статистика кнопок</b>", "", "Число — все нажатия на кнопки поста. Выберите пост, чтобы увидеть детали."].join("\n");
+
+  await showStep(ctx, session, text, statsListKeyboard(entries, await getUserTimezone(userId)));
+}
+
+/** One button's stats: totals, distinct users and the per-day breakdown */
+function formatButtonStats(stats: ButtonStats): string[] {
+  const { button, total, unique } = stats;
+  const parts = [`${total} ${plural(total, "нажатие", "нажатия", "нажатий")}`];
+  if (unique !== null) {
+    parts.push(`${unique} ${plural(unique, "пользователь", "пользователя", "пользователей")}`);
+  }
+  return [
+    `${buttonIcon(button.action)} <b>${escapeHtml(button.text)}</b> — ${parts.join(", ")}`,
+    `    по дням: ${stats.byDay.join(" · ")}`,
+  ];
+}
+
+async function showPostStats(ctx: MyContext, session: SessionData, post: SentPost): Promise<void> {
+  const tz = await getUserTimezone(post.userId);
+  const stats = await getPostStats(post);
+
+  const lines = [
+    "📊 <b>Статистика поста</b>",
+    "",
+    `📢 ${escapeHtml(post.chatTitle)} · ${formatLocalDateTime(post.sentAt, tz)}`,
+  ];
+  const link = buildMessageLink(post.chatId, post.messageId);
+  if (link) {
+    lines.push(`🔗 <a href="${link}">Открыть пост</a>`);
+  }
+  lines.push("");
+
+  for (const s of stats) {
+    lines.push(...formatButtonStats(s));
+  }
+  lines.push("");
+  lines.push(`<i>По дням — последние ${STATS_DAYS} дней по UTC, последнее число — сегодня.</i>`);
+  if (stats.some((s) => s.unique === null)) {
+    lines.push("<i>По ссылкам считаются только переходы: они открываются в браузере, и бот не видит, кто нажал.</i>");
+  }
+
+  await showStep(ctx, session, lines.join("\n"), postStatsKeyboard(post));
+}
+
+// Post stats: sts:ID (also "refresh")
+statsCallbacks.callbackQuery(/^sts:([\w-]+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+
+  const post = await getSentPost(ctx.match[1]!);
+  if (!post || post.userId !== ctx.from.id) {
+    await showStatsList(ctx, session);
+    return;
+  }
+  await showPostStats(ctx, session, post);
+});
+
+statsCallbacks.callbackQuery("sts_list", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showStatsList(ctx, session);
+});
+
+statsCallbacks.callbackQuery("sts_close", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+  await deleteLastBotMessage(ctx.api, chatId, session);
+});
@@ -0,0 +1,189 @@
+import { Composer, InlineKeyboard } from "grammy";
+import type { MyContext, SessionData } from "../types/index.js";
+import {
+  buildConfirmText,
+  buildStepText,
+  deleteLastBotMessage,
+  sendStepScreen,
+  targetsLabel,
+} from "../services/preview.js";
+import { resolveTargetsForUser } from "../services/groups.js";
+import { filterForumChats, getForumTopics } from "../services/topics.js";
+import {
+  confirmSendKeyboard,
+  forumTargetsKeyboard,
+  topicPickerKeyboard,
+} from "../keyboards/messageBuilder.js";
+import { escapeHtml } from "../utils/formatting.js";
+
+export const topicsCallbacks = new Composer<MyContext>();
+
+// ═══════════════════════════════════════════════════════════════
+//  Utility: show step
+// ═══════════════════════════════════════════════════════════════
+
+async function showStep(
+  ctx: MyContext,
+  session: SessionData,
+  text: string,
+  keyboard: InlineKeyboard,
+): Promise<void> {
+  const chatId = ctx.chat?.id;
+  if (!chatId) return;
+
+  await deleteLastBotMessage(ctx.api, chatId, session);
+  await sendStepScreen(ctx.api, chatId, session, text, keyboard);
+}
+
+/** Shows the confirm step for the selected chats and topics */
+export async function showConfirmStep(ctx: MyContext, session: SessionData): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  session.step = "confirm_send";
+  session.topicChatId = undefined;
+  const targets = await resolveTargetsForUser(userId, session.targetGroupIds ?? [], session.targetTopics);
+  await showStep(
+    ctx,
+    session,
+    buildConfirmText(session, targets),
+    confirmSendKeyboard(targetsLabel(targets), !!session.scheduledPostId),
+  );
+}
+
+/**
+ * Runs after the group selection: finds forum supergroups among the selected
+ * chats and asks for a topic in each; without forums goes straight to confirm.
+ */
+export async function startTopicSelection(ctx: MyContext, session: SessionData): Promise<void> {
+  const selected = session.targetGroupIds ?? [];
+  const forums = await filterForumChats(ctx.api, selected);
+  session.forumChatIds = forums;
+
+  // Forget topics of chats that are no longer selected or no longer forums
+  const topics: Record<string, number> = {};
+  for (const chatId of forums) {
+    const threadId = session.targetTopics?.[String(chatId)];
+    if (threadId) topics[String(chatId)] = threadId;
+  }
+  session.targetTopics = topics;
+
+  if (forums.length === 0) {
+    await showConfirmStep(ctx, session);
+  } else if (forums.length === 1) {
+    await showTopicPicker(ctx, session, forums[0]!);
+  } else {
+    await showForumOverview(ctx, session);
+  }
+}
+
+/**
+ * Shows the topic picker for one forum chat.
+ * @param error - shown on top when a sent topic link couldn't be used
+ */
+export async function showTopicPicker(
+  ctx: MyContext,
+  session: SessionData,
+  chatId: number,
+  error?: string,
+): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  session.step = "select_topic";
+  session.topicChatId = chatId;
+
+  const [chat] = await resolveTargetsForUser(userId, [chatId]);
+  const topics = await getForumTopics(chatId);
+
+  const lines: string[] = [];
+  if (error) {
+    lines.push(`❌ ${error}`);
+    lines.push("");
+  }
+  lines.push(buildStepText(session, "select_topic"));
+  lines.push("");
+  lines.push(`💬 Чат: <b>${escapeHtml(chat!.title)}</b>`);
+  if (topics.length === 0) {
+    lines.push("");
+    lines.push("<i>Бот ещё не видел тем в этом чате — он узнаёт о них, когда тема создаётся. Отправьте ссылку на тему или сообщение в ней.</i>");
+  }
+
+  const backData = (session.forumChatIds?.length ?? 0) > 1 ? "tpc_overview" : "back_to_groups";
+  await showStep(
+    ctx,
+    session,
+    lines.join("\n"),
+    topicPickerKeyboard(topics, session.targetTopics?.[String(chatId)], backData),
+  );
+}
+
+/**
+ * Stores the topic chosen for the chat whose picker is open (0 = General)
+ * and moves on: back to the overview when several forums are selected,
+ * otherwise to confirm.
+ */
+export async function chooseTopic(ctx: MyContext, session: SessionData, threadId: number): Promise<void> {
+  const chatId = session.topicChatId;
+  if (!chatId) return;
+
+  const topics = { ...session.targetTopics };
+  if (threadId) {
+    topics[String(chatId)] = threadId;
+  } else {
+    delete topics[String(chatId)];
+  }
+  session.targetTopics = topics;
+
+  if ((session.forumChatIds?.length ?? 0) > 1) {
+    await showForumOverview(ctx, session);
+  } else {
+    await showConfirmStep(ctx, session);
+  }
+}
+
+/** Lists the selected forum chats with their topics */
+async function showForumOverview(ctx: MyContext, session: SessionData): Promise<void> {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  session.step = "select_topic";
+  session.topicChatId = undefined;
+  const forums = await resolveTargetsForUser(userId, session.forumChatIds ?? [], session.targetTopics);
+  await showStep(
+    ctx,
+    session,
+    "🧵 Среди выбранных чатов есть форумы. Нажмите на чат, чтобы выбрать тему — без выбора пост уйдёт в General.",
+    forumTargetsKeyboard(forums),
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Step 9.1: Forum Topics
+// ═══════════════════════════════════════════════════════════════
+
+// Pick a topic: tpc:THREAD_ID (0 = General)
+topicsCallbacks.callbackQuery(/^tpc:(\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await chooseTopic(ctx, session, parseInt(ctx.match[1]!, 10));
+});
+
+// Open the picker for a forum chat from the overview: tpc_chat:CHATID
+topicsCallbacks.callbackQuery(/^tpc_chat:(-?\d+)$/, async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showTopicPicker(ctx, session, parseInt(ctx.match[1]!, 10));
+});
+
+topicsCallbacks.callbackQuery("tpc_overview", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showForumOverview(ctx, session);
+});
+
+topicsCallbacks.callbackQuery("tpc_done", async (ctx) => {
+  await ctx.answerCallbackQuery();
+  const session = await ctx.session;
+  await showConfirmStep(ctx, session);
+});
@@ -0,0 +1,74 @@
+import { Composer, type Api } from "grammy";
+import type { MyContext } from "../types/index.js";
+import { castVote, getVoteGrid, renderVotesThrottled } from "../services/votes.js";
+import { recordClick } from "../services/stats.js";
+import { buildAttachInlineKeyboard } from "../services/sender.js";
+
+/**
+ * Clicks on vote buttons of published posts (vote:OPTION). Each click is
+ * tallied right away; the counts on the buttons follow, throttled.
+ */
+export const votesCallbacks = new Composer<MyContext>();
+
+votesCallbacks.callbackQuery(/^vote:([\w-]+)$/, async (ctx) => {
+  const message = ctx.callbackQuery.message;
+  if (!message) {
+    await ctx.answerCallbackQuery({ text: "⚠️ Голосование недоступно" });
+    return;
+  }
+
+  const chatId = message.chat.id;
+  const messageId = message.message_id;
+  const optionId = ctx.match[1]!;
+
+  const grid = await getVoteGrid(chatId, messageId);
+  const option = grid?.buttons.flat().find((btn) => btn.action === "vote" && btn.value === optionId);
+  if (!option) {
+    await ctx.answerCallbackQuery({ text: "⚠️ Голосование закрыто" });
+    return;
+  }
+
+  const choice = await castVote(chatId, messageId, ctx.from.id, optionId);
+  await ctx.answerCallbackQuery({ text: choice ? `✅ Ваш голос: ${option.text}` : "↩️ Голос отменён" });
+  await recordClick(chatId, messageId, `vote:${optionId}`, ctx.from.id);
+
+  await renderVotesThrottled(chatId, messageId, () => renderLiveCounts(ctx.api, chatId, messageId));
+});
+
+/** Edit failures that retrying can't fix */
+const PERMANENT_EDIT_ERRORS = [
+  "message to edit not found",
+  "MESSAGE_ID_INVALID",
+  "message can't be edited",
+  "chat not found",
+  "not enough rights",
+  "CHAT_ADMIN_REQUIRED",
+  "bot was kicked",
+];
+
+/**
+ * Re-renders the keyboard of a published message with its current counts
+ * (votes, giveaway participants). Also used by giveaway entries.
+ * Returns false if the counts couldn't be shown but may be on a retry.
+ */
+export async function renderLiveCounts(api: Api, chatId: number, messageId: number): Promise<boolean> {
+  // The post's buttons may have been edited while waiting
+  const current = await getVoteGrid(chatId, messageId);
+  if (!current) return true;
+
+  try {
+    const keyboard = await buildAttachInlineKeyboard(current.buttons, {
+      chatId,
+      messageId,
+      trackLinks: current.trackLinks,
+    });
+    await api.editMessageReplyMarkup(chatId, messageId, { reply_markup: keyboard });
+    return true;
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    if (errMsg.includes("message is not modified")) return true;
+    console.error(`Failed to update counts of message ${messageId} in ${chatId}:`, error);
+    // A deleted message or lost rights won't get better with retries
+    return PERMANENT_EDIT_ERRORS.every((text) => !errMsg.includes(text));
+  }
+}
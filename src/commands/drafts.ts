@@ -0,0 +1,14 @@
+import type { CommandContext } from "grammy";
+import type { MyContext } from "../types/index.js";
+import { showDraftsList } from "../callbacks/drafts.js";
+
+/**
+ * Handles the /drafts command. Lists the user's saved drafts with actions
+ * to resume, duplicate or delete them.
+ */
+export async function handleDrafts(ctx: CommandContext<MyContext>): Promise<void> {
+  if (ctx.chat.type !== "private") return;
+
+  const session = await ctx.session;
+  await showDraftsList(ctx, session);
+}
@@ -0,0 +1,14 @@
+import type { CommandContext } from "grammy";
+import type { MyContext } from "../types/index.js";
+import { showGiveawaysList } from "../callbacks/giveaways.js";
+
+/**
+ * Handles the /giveaways command. Lists the user's recent posts with a
+ * giveaway button, to close entries and draw the winners.
+ */
+export async function handleGiveaways(ctx: CommandContext<MyContext>): Promise<void> {
+  if (ctx.chat.type !== "private") return;
+
+  const session = await ctx.session;
+  await showGiveawaysList(ctx, session);
+}
@@ -10,12 +10,21 @@ export async function handleHelp(ctx: CommandContext<MyContext>): Promise<void>
       "📖 <b>Как пользоваться ботом:</b>",
       "",
       "/start — Начать создание сообщения",
+      "/drafts — Черновики",
+      "/scheduled — Запланированные посты",
+      "/posts — Опубликованные посты: изменить или удалить",
+      "/stats — Статистика нажатий на кнопки",
+      "/giveaways — Розыгрыши: приём участников и итоги",
       "/help — Показать эту справку",
       "",
       "<b>Возможности:</b>",
-      "• Создание сообщения с текстом и изображением",
-      "• Добавление интерактивных кнопок (ссылки, уведомления)",
-      "• Отправка сообщения в группу, где бот — администратор",
+      "• Создание сообщения с текстом и медиа: фото, видео, GIF, документ, аудио или альбом",
+      "• Добавление интерактивных кнопок: ссылки, уведомления (в том числе только для подписчиков), промокоды, «Поделиться», Mini App, вход на сайт, ссылка на бота, голосование со счётчиками, розыгрыш, «Написать автору»",
+      "• Отправка сообщения в одну или несколько групп, где бот и вы — администраторы",
+      "• Поиск, избранное, псевдонимы и чат по умолчанию в списке чатов",
+      "• Отложенная публикация по расписанию",
+      "• Изменение текста и медиа любого поста по ссылке — кнопка «Изменить опубликованный пост» в /start",
+      "• Черновики без срока хранения — ими можно поделиться ссылкой",
       "",
       "Чтобы начать, нажмите /start и следуйте инструкциям.",
     ].join("\n"),
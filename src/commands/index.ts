@@ -2,8 +2,18 @@ import { Composer } from "grammy";
 import type { MyContext } from "../types/index.js";
 import { handleStart } from "./start.js";
 import { handleHelp } from "./help.js";
+import { handleScheduled } from "./scheduled.js";
+import { handlePosts } from "./posts.js";
+import { handleDrafts } from "./drafts.js";
+import { handleStats } from "./stats.js";
+import { handleGiveaways } from "./giveaways.js";
 
 export const commandsComposer = new Composer<MyContext>();
 
 commandsComposer.command("start", handleStart);
 commandsComposer.command("help", handleHelp);
+commandsComposer.command("scheduled", handleScheduled);
+commandsComposer.command("posts", handlePosts);
+commandsComposer.command("drafts", handleDrafts);
+commandsComposer.command("stats", handleStats);
+commandsComposer.command("giveaways", handleGiveaways);
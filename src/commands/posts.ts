@@ -0,0 +1,14 @@
+import type { CommandContext } from "grammy";
+import type { MyContext } from "../types/index.js";
+import { showPostsList } from "../callbacks/posts.js";
+
+/**
+ * Handles the /posts command. Lists the user's recently published posts
+ * with actions to edit the text, buttons or media, or delete them.
+ */
+export async function handlePosts(ctx: CommandContext<MyContext>): Promise<void> {
+  if (ctx.chat.type !== "private") return;
+
+  const session = await ctx.session;
+  await showPostsList(ctx, session);
+}
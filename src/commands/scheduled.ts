@@ -0,0 +1,14 @@
+import type { CommandContext } from "grammy";
+import type { MyContext } from "../types/index.js";
+import { showScheduledList } from "../callbacks/scheduled.js";
+
+/**
+ * Handles the /scheduled command. Lists the user's pending and failed
+ * scheduled posts with actions to reschedule, edit or cancel them.
+ */
+export async function handleScheduled(ctx: CommandContext<MyContext>): Promise<void> {
+  if (ctx.chat.type !== "private") return;
+
+  const session = await ctx.session;
+  await showScheduledList(ctx, session);
+}
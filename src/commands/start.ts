@@ -1,17 +1,33 @@
+import { InlineKeyboard } from "grammy";
 import type { CommandContext } from "grammy";
-import type { MyContext } from "../types/index.js";
+import type { MyContext, SessionData } from "../types/index.js";
 import { createDefaultSession } from "../types/index.js";
 import { startKeyboard } from "../keyboards/messageBuilder.js";
+import { FEEDBACK_START_PREFIX } from "../services/feedback.js";
+import { addChatCandidate, CHAT_LINK_START_PAYLOAD, LINKED_CHAT_START_PREFIX } from "../services/groups.js";
+import { DRAFT_SHARE_START_PREFIX } from "../services/drafts.js";
+import { POST_START_PREFIX } from "../services/posts.js";
+import { startFeedback } from "../callbacks/feedback.js";
+import { resumeWithLinkedChat } from "../callbacks/groups.js";
+import { openSharedDraft } from "../callbacks/drafts.js";
+import { openPostFromLink } from "../callbacks/posts.js";
+import { buildStartLink } from "../utils/messageLink.js";
 
 /**
  * Handles the /start command. Resets session and shows main menu with
- * "Создать сообщение" button. Only works in private chats.
+ * "Создать сообщение" button.
+ * A deep link payload (/start PAYLOAD) opens its screen instead, see
+ * routeStartPayload(). In groups only the "add to group" link is answered.
  */
 export async function handleStart(ctx: CommandContext<MyContext>): Promise<void> {
-  // Ignore /start in groups — bot should only interact in private DMs
-  if (ctx.chat.type !== "private") return;
+  if (ctx.chat.type !== "private") {
+    await handleChatLinkStart(ctx);
+    return;
+  }
 
   const session = await ctx.session;
+  if (await routeStartPayload(ctx, session)) return;
+
   Object.assign(session, createDefaultSession());
 
   await ctx.reply(
@@ -23,3 +39,62 @@ export async function handleStart(ctx: CommandContext<MyContext>): Promise<void>
     },
   );
 }
+
+/**
+ * Opens the screen a deep link points to:
+ * - fb_TOKEN: a message to a post's author (the builder state is kept)
+ * - grp_CHAT: back to the chat picker with a newly linked chat selected
+ * - drf_TOKEN: a copy of a shared draft
+ * - post_ID: management of the user's own post
+ *
+ * Returns false if there's no payload, it's unknown or its post is gone,
+ * so the main menu is shown instead.
+ */
+async function routeStartPayload(ctx: CommandContext<MyContext>, session: SessionData): Promise<boolean> {
+  const payload = ctx.match;
+
+  if (payload.startsWith(FEEDBACK_START_PREFIX)) {
+    await startFeedback(ctx, session, payload.slice(FEEDBACK_START_PREFIX.length));
+    return true;
+  }
+  if (payload.startsWith(LINKED_CHAT_START_PREFIX)) {
+    const chatId = Number(payload.slice(LINKED_CHAT_START_PREFIX.length));
+    if (!Number.isSafeInteger(chatId)) return false;
+    await resumeWithLinkedChat(ctx, session, chatId);
+    return true;
+  }
+  if (payload.startsWith(DRAFT_SHARE_START_PREFIX)) {
+    await openSharedDraft(ctx, session, payload.slice(DRAFT_SHARE_START_PREFIX.length));
+    return true;
+  }
+  if (payload.startsWith(POST_START_PREFIX)) {
+    return openPostFromLink(ctx, session, payload.slice(POST_START_PREFIX.length));
+  }
+  return false;
+}
+
+/**
+ * /start in a chat the bot was just added to by the picker's "add" links:
+ * points the user back to their DM, where the picker continues.
+ * The link also works for a chat someone else added the bot to: the chat
+ * becomes one of the user's candidates.
+ */
+async function handleChatLinkStart(ctx: CommandContext<MyContext>): Promise<void> {
+  if (ctx.match !== CHAT_LINK_START_PAYLOAD) return;
+  // Anonymous admins write as a bot, they can't be matched to a user
+  if (ctx.from && !ctx.from.is_bot) {
+    await addChatCandidate(ctx.from.id, ctx.chat.id);
+  }
+
+  try {
+    await ctx.reply("✅ Бот подключён. Вернитесь в личные сообщения, чтобы продолжить.", {
+      reply_markup: new InlineKeyboard().url(
+        "↩️ Вернуться к боту",
+        buildStartLink(`${LINKED_CHAT_START_PREFIX}${ctx.chat.id}`),
+      ),
+    });
+  } catch (error) {
+    // The bot may have no right to post here yet
+    console.error(`Failed to answer /start in ${ctx.chat.id}:`, error);
+  }
+}
@@ -0,0 +1,14 @@
+import type { CommandContext } from "grammy";
+import type { MyContext } from "../types/index.js";
+import { showStatsList } from "../callbacks/stats.js";
+
+/**
+ * Handles the /stats command. Lists the user's recent posts that have
+ * countable buttons, with click stats per button.
+ */
+export async function handleStats(ctx: CommandContext<MyContext>): Promise<void> {
+  if (ctx.chat.type !== "private") return;
+
+  const session = await ctx.session;
+  await showStatsList(ctx, session);
+}
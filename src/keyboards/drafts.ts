@@ -0,0 +1,59 @@
+import { InlineKeyboard } from "grammy";
+import type { Draft } from "../types/index.js";
+
+// ─── Save Draft ───
+
+/**
+ * Name prompt when saving a draft.
+ * @param loadedDraft - draft the builder was resumed from; offered for overwrite
+ */
+export function draftNameKeyboard(loadedDraft?: Draft): InlineKeyboard {
+  const kb = new InlineKeyboard();
+  if (loadedDraft) {
+    kb.text(`💾 Перезаписать «${truncate(loadedDraft.name, 25)}»`, "draft_overwrite");
+    kb.row();
+  }
+  return kb.text("⬅️ Назад", "back_to_review");
+}
+
+// ─── /drafts: List & Manage ───
+
+/** One row per draft, most recently updated first */
+export function draftsListKeyboard(drafts: Draft[]): InlineKeyboard {
+  const kb = new InlineKeyboard();
+
+  for (const draft of drafts) {
+    kb.text(`📝 ${truncate(draft.name, 30)}`, `drf:${draft.id}`);
+    kb.row();
+  }
+
+  kb.text("✖️ Закрыть", "drf_close");
+  return kb;
+}
+
+export function draftKeyboard(id: string): InlineKeyboard {
+  return new InlineKeyboard()
+    .text("▶️ Продолжить", `drf_open:${id}`)
+    .row()
+    .text("📄 Дублировать", `drf_dup:${id}`)
+    .text("🔗 Поделиться", `drf_share:${id}`)
+    .row()
+    .text("🗑 Удалить", `drf_del:${id}`)
+    .row()
+    .text("⬅️ К списку", "drf_list");
+}
+
+/** Share link screen: revoke the link or go back to the draft */
+export function draftShareKeyboard(id: string): InlineKeyboard {
+  return new InlineKeyboard()
+    .text("🚫 Отключить ссылку", `drf_unshare:${id}`)
+    .row()
+    .text("⬅️ Назад", `drf:${id}`);
+}
+
+// ─── Helpers ───
+
+function truncate(text: string, maxLen: number): string {
+  if (text.length <= maxLen) return text;
+  return text.slice(0, maxLen - 1) + "…";
+}
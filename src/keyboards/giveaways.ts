@@ -0,0 +1,87 @@
+import { InlineKeyboard } from "grammy";
+import type { SentPost } from "../types/index.js";
+import type { Giveaway } from "../services/giveaways.js";
+import { MAX_GIVEAWAY_WINNERS } from "../services/giveaways.js";
+import { formatLocalDateTime } from "../utils/datetime.js";
+
+// ─── /giveaways: List ───
+
+/** A post in the /giveaways list with its giveaway and number of participants */
+export interface PostGiveaway {
+  post: SentPost;
+  giveaway: Giveaway;
+  participants: number;
+}
+
+/** Stage of a giveaway: 🟢 accepting entries, 🔒 entries closed, 🏁 drawn */
+export function giveawayStatusIcon(giveaway: Giveaway): string {
+  if (giveaway.result) return "🏁";
+  return giveaway.closed ? "🔒" : "🟢";
+}
+
+/** One row per post with a giveaway: stage, time, chat title and participants */
+export function giveawaysListKeyboard(entries: PostGiveaway[], tz: string): InlineKeyboard {
+  const kb = new InlineKeyboard();
+
+  for (const { post, giveaway, participants } of entries) {
+    // "25.12.2026 18:30" → "25.12 18:30" to keep the button short
+    const [date, time] = formatLocalDateTime(post.sentAt, tz).split(" ");
+    const when = `${date!.slice(0, 5)} ${time}`;
+    kb.text(
+      `${giveawayStatusIcon(giveaway)} ${when} · ${truncate(post.chatTitle, 18)} · ${participants}`,
+      `gw:${post.id}`,
+    );
+    kb.row();
+  }
+
+  kb.text("✖️ Закрыть", "gw_exit");
+  return kb;
+}
+
+// ─── /giveaways: One Giveaway ───
+
+/**
+ * Settings while the giveaway runs (membership condition only while
+ * entries are open), the draw, and publishing the results if that failed.
+ */
+export function giveawayKeyboard(post: SentPost, giveaway: Giveaway): InlineKeyboard {
+  const kb = new InlineKeyboard();
+  const id = post.id;
+
+  if (!giveaway.result) {
+    if (!giveaway.closed) {
+      kb.text(`${giveaway.requireMember ? "✅" : "⬜️"} Только подписчики чата`, `gw_req:${id}`).row();
+    }
+
+    const n = giveaway.winnersCount;
+    if (n > 1) kb.text("➖", `gw_win:${id}:${n - 1}`);
+    kb.text(`🏆 Победителей: ${n}`, `gw:${id}`);
+    if (n < MAX_GIVEAWAY_WINNERS) kb.text("➕", `gw_win:${id}:${n + 1}`);
+    kb.row();
+
+    if (giveaway.closed) {
+      kb.text("🔓 Возобновить приём", `gw_open:${id}`).row();
+    } else {
+      kb.text("🔒 Закрыть приём", `gw_stop:${id}`).row();
+    }
+    kb.text("🎲 Подвести итоги", `gw_draw:${id}`).row();
+  } else if (!giveaway.resultMessageId) {
+    kb.text("📣 Опубликовать итоги", `gw_pub:${id}`).row();
+  }
+
+  return kb.text("🔄 Обновить", `gw:${id}`).row().text("⬅️ К списку", "gw_list");
+}
+
+export function giveawayDrawConfirmKeyboard(id: string): InlineKeyboard {
+  return new InlineKeyboard()
+    .text("🎲 Да, подвести итоги", `gw_draw_ok:${id}`)
+    .row()
+    .text("⬅️ Отмена", `gw:${id}`);
+}
+
+// ─── Helpers ───
+
+function truncate(text: string, maxLen: number): string {
+  if (text.length <= maxLen) return text;
+  return text.slice(0, maxLen - 1) + "…";
+}
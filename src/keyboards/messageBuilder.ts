@@ -1,5 +1,20 @@
 import { InlineKeyboard } from "grammy";
-import type { GroupInfo, MessageButton } from "../types/index.js";
+import type {
+  ButtonAction,
+  ChatPrefs,
+  ComposedMessage,
+  ForumTopic,
+  GroupInfo,
+  MediaAttachment,
+  MessageButton,
+  SendTarget,
+} from "../types/index.js";
+import { MAX_ALBUM_SIZE, MEDIA_ICONS, supportsVisualOptions } from "../services/media.js";
+import { linkPreviewLabel } from "../services/preview.js";
+import { chatDisplayName } from "../services/chatPrefs.js";
+import { BUTTON_ACTIONS, buttonIcon } from "../services/buttons.js";
+import { isLinkTrackingAvailable } from "../services/stats.js";
+import { CHAT_LINK_START_PAYLOAD } from "../services/groups.js";
 
 // ─── Start / Main ───
 
@@ -8,29 +23,55 @@ export function startKeyboard(): InlineKeyboard {
   return new InlineKeyboard()
     .text("📝 Создать сообщение", "create_message")
     .row()
-    .text("🔘 Добавить кнопки к посту", "attach_buttons_start");
+    .text("🔘 Добавить кнопки к посту", "attach_buttons_start")
+    .row()
+    .text("✏️ Изменить опубликованный пост", "link_edit_start");
 }
 
-// ─── Step: Add Image ───
+// ─── Step: Add Media ───
 
-export function addImageKeyboard(): InlineKeyboard {
+export function addMediaKeyboard(): InlineKeyboard {
   return new InlineKeyboard()
-    .text("🖼 Добавить изображение", "img_yes")
+    .text("📎 Добавить медиа", "img_yes")
     .row()
     .text("⏭ Пропустить", "img_no")
     .row()
     .text("⬅️ Назад", "back_to_text");
 }
 
-/** Keyboard shown when image is already attached — allows change or remove */
-export function imageAttachedKeyboard(): InlineKeyboard {
-  return new InlineKeyboard()
-    .text("🔄 Заменить изображение", "img_replace")
-    .text("🗑 Удалить", "img_remove")
-    .row()
-    .text("➡️ Далее", "img_done")
-    .row()
-    .text("⬅️ Назад", "back_to_text");
+/**
+ * Keyboard shown when media is already attached — allows change or remove.
+ * For albums, each file gets its own row with reorder/remove controls:
+ *   [🖼 1] [⬆️] [⬇️] [🗑]
+ */
+export function mediaAttachedKeyboard(media: MediaAttachment[]): InlineKeyboard {
+  const kb = new InlineKeyboard();
+
+  if (media.length > 1) {
+    for (let i = 0; i < media.length; i++) {
+      kb.text(`${MEDIA_ICONS[media[i]!.type]} ${i + 1}`, "noop");
+      kb.text("⬆️", `img_up:${i}`);
+      kb.text("⬇️", `img_down:${i}`);
+      kb.text("🗑", `img_del:${i}`);
+      kb.row();
+    }
+  }
+
+  // "Add more" only while another album-compatible file could still fit
+  const canAddMore = media.length < MAX_ALBUM_SIZE && media.every((m) => m.type !== "animation");
+  if (canAddMore) {
+    kb.text("➕ Добавить ещё", "img_yes");
+    kb.row();
+  }
+
+  kb.text(media.length > 1 ? "🔄 Заменить все" : "🔄 Заменить медиа", "img_replace");
+  kb.text("🗑 Удалить", "img_remove");
+  kb.row();
+  kb.text("➡️ Далее", "img_done");
+  kb.row();
+  kb.text("⬅️ Назад", "back_to_text");
+
+  return kb;
 }
 
 // ─── Step: Button Grid ───
@@ -54,6 +95,8 @@ export function buttonGridKeyboard(buttons: MessageButton[][]): InlineKeyboard {
     // No buttons yet — show single "add" button
     kb.text("➕ Добавить кнопку", "+r:0");
     kb.row();
+    kb.text("📋 Кнопки текстом", "btn_layout");
+    kb.row();
     kb.text("⏭ Пропустить", "skip_buttons");
     kb.row();
     kb.text("⬅️ Назад", "back_to_image_or_pos");
@@ -78,8 +121,7 @@ export function buttonGridKeyboard(buttons: MessageButton[][]): InlineKeyboard {
     kb.text("➕ ←", `+c:${r}:0`);
     for (let c = 0; c < row.length; c++) {
       const btn = row[c]!;
-      const icon = btn.action === "url" ? "🔗" : "💬";
-      kb.text(`${icon} ${truncate(btn.text, 12)}`, `eb:${r}:${c}`);
+      kb.text(`${buttonIcon(btn.action)} ${truncate(btn.text, 12)}`, `eb:${r}:${c}`);
       if (c < row.length - 1) {
         // Insert between buttons
         kb.text("➕", `+c:${r}:${c + 1}`);
@@ -101,6 +143,9 @@ export function buttonGridKeyboard(buttons: MessageButton[][]): InlineKeyboard {
   kb.text(`   `, `noop`);
   kb.row();
 
+  kb.text("📋 Кнопки текстом", "btn_layout");
+  kb.row();
+
   // Navigation
   kb.text("✅ Готово", "buttons_done");
   kb.row();
@@ -109,15 +154,80 @@ export function buttonGridKeyboard(buttons: MessageButton[][]): InlineKeyboard {
   return kb;
 }
 
+// ─── Button Move Mode (main builder and attach flow) ───
+
+/**
+ * Move controls for the button at (row, col). Shared by both grid editors;
+ * the attach flow passes the "ab_" prefix. Each press moves the button and
+ * re-opens this keyboard at its new position.
+ */
+export function buttonMoveKeyboard(
+  buttons: MessageButton[][],
+  row: number,
+  col: number,
+  prefix: "" | "ab_",
+): InlineKeyboard {
+  const data = (move: string) => `${prefix}mv:${move}:${row}:${col}`;
+  const kb = new InlineKeyboard()
+    .text("⬅️", data("left"))
+    .text("⬆️", data("up"))
+    .text("⬇️", data("down"))
+    .text("➡️", data("right"))
+    .row();
+
+  const rowLength = buttons[row]?.length ?? 0;
+  if (rowLength > 1) {
+    kb.text("↩️ В отдельный ряд", data("row")).row();
+  }
+  if (row < buttons.length - 1) {
+    kb.text("🔗 Объединить со следующим рядом", data("merge")).row();
+  }
+  if (buttons.length > 1) {
+    if (row > 0) kb.text("⏫ Ряд выше", data("row_up"));
+    if (row < buttons.length - 1) kb.text("⏬ Ряд ниже", data("row_down"));
+    kb.row();
+  }
+
+  return kb.text("✅ Готово", `${prefix}back_to_buttons`);
+}
+
 // ─── Step: Button Action ───
 
 export function buttonActionKeyboard(): InlineKeyboard {
-  return new InlineKeyboard()
-    .text("🔗 Ссылка (URL)", "btnact_url")
-    .row()
-    .text("💬 Всплывающее уведомление", "btnact_alert")
-    .row()
-    .text("⬅️ Назад", "back_to_buttons");
+  return addActionChoices(new InlineKeyboard(), "btnact_").text("⬅️ Назад", "back_to_buttons");
+}
+
+/** One row per button kind: "<prefix><action>", except the excluded kinds */
+function addActionChoices(kb: InlineKeyboard, prefix: string, exclude: ButtonAction[] = []): InlineKeyboard {
+  for (const [action, info] of Object.entries(BUTTON_ACTIONS)) {
+    if (exclude.includes(action as ButtonAction)) continue;
+    kb.text(`${info.icon} ${info.label}`, `${prefix}${action}`).row();
+  }
+  return kb;
+}
+
+/**
+ * Picker of the chat whose members may see a gated alert: the user's
+ * linked chats. Shared by both flows; the prefix selects the flow.
+ */
+export function gateChatKeyboard(groups: GroupInfo[], prefix: "" | "ab_"): InlineKeyboard {
+  const kb = new InlineKeyboard();
+  for (const group of groups) {
+    kb.text(`📢 ${truncate(group.title, 40)}`, `${prefix}btngate:${group.chatId}`).row();
+  }
+  return kb.text("⬅️ Назад", `${prefix}back_to_btn_action`);
+}
+
+/**
+ * Picker of where a feedback button's messages go: the author's DM or one
+ * of their linked groups as a team inbox. Shared by both flows.
+ */
+export function feedbackInboxKeyboard(groups: GroupInfo[], prefix: "" | "ab_"): InlineKeyboard {
+  const kb = new InlineKeyboard().text("👤 Мне в личные сообщения", `${prefix}btnfb:me`).row();
+  for (const group of groups) {
+    kb.text(`👥 ${truncate(group.title, 40)}`, `${prefix}btnfb:${group.chatId}`).row();
+  }
+  return kb.text("⬅️ Назад", `${prefix}back_to_btn_action`);
 }
 
 // ─── Step: Edit Existing Button ───
@@ -127,6 +237,8 @@ export function editButtonKeyboard(row: number, col: number): InlineKeyboard {
     .text("✏️ Изменить", `btn_edit:${row}:${col}`)
     .text("🗑 Удалить", `btn_del:${row}:${col}`)
     .row()
+    .text("↔️ Переместить", `mv:${row}:${col}`)
+    .row()
     .text("⬅️ Назад", "back_to_buttons");
 }
 
@@ -137,33 +249,136 @@ export function reviewKeyboard(): InlineKeyboard {
     .text("📢 Выбрать группу / канал", "goto_select_group")
     .row()
     .text("✏️ Редактировать текст", "edit_text")
-    .text("🖼 Редактировать фото", "edit_image")
+    .text("📎 Редактировать медиа", "edit_image")
     .row()
     .text("🔘 Редактировать кнопки", "edit_buttons_review")
     .row()
+    .text("⚙️ Параметры публикации", "edit_options")
+    .row()
+    .text("💾 Сохранить черновик", "draft_save")
+    .row()
     .text("⬅️ Назад", "back_to_buttons");
 }
 
+// ─── Step: Message Options ───
+
+/**
+ * Per-message options screen. Shows only the toggles that apply to the
+ * current content: caption position and spoiler for visual media, link
+ * preview settings for text-only posts.
+ */
+export function messageOptionsKeyboard(msg: ComposedMessage): InlineKeyboard {
+  const kb = new InlineKeyboard();
+  const opts = msg.options ?? {};
+  const media = msg.media ?? [];
+  const check = (on?: boolean) => (on ? "✅" : "⬜");
+
+  if (media.length > 0 && supportsVisualOptions(media)) {
+    kb.text(`${check(opts.captionAboveMedia)} Подпись над медиа`, "opt:above");
+    kb.row();
+    kb.text(`${check(opts.mediaSpoiler)} Медиа под спойлером`, "opt:spoiler");
+    kb.row();
+  }
+
+  if (media.length === 0) {
+    kb.text(`🔗 Превью ссылки: ${linkPreviewLabel(msg)}`, "opt:lp");
+    kb.row();
+    if (!opts.linkPreview?.is_disabled) {
+      kb.text(`${check(opts.linkPreview?.show_above_text)} Превью над текстом`, "opt:lp_above");
+      kb.row();
+    }
+  }
+
+  kb.text(`${check(opts.silent)} 🔕 Без звука`, "opt:silent");
+  kb.row();
+  kb.text(`${check(opts.protectContent)} 🔒 Запрет пересылки`, "opt:protect");
+  kb.row();
+  if (isLinkTrackingAvailable() && msg.buttons.flat().some((b) => b.action === "url")) {
+    kb.text(`${check(opts.trackLinks)} 📊 Считать переходы по ссылкам`, "opt:track");
+    kb.row();
+  }
+  kb.text("⬅️ Назад", "back_to_review");
+
+  return kb;
+}
+
 // ─── Step: Group Selection ───
 
-export function groupSelectionKeyboard(groups: GroupInfo[], botUsername: string): InlineKeyboard {
+/** Chats per page in the group picker and its settings list */
+export const GROUPS_PER_PAGE = 8;
+
+/** Number of picker pages for a list of chats (at least 1) */
+export function groupPageCount(count: number): number {
+  return Math.max(1, Math.ceil(count / GROUPS_PER_PAGE));
+}
+
+export interface GroupSelectionOptions {
+  /** Selected chat IDs, including ones outside the current page or search */
+  selected: number[];
+  /** Bot rights badge per chat ID (🟢/🟡/🔴) */
+  badges: Record<string, string>;
+  prefs: ChatPrefs;
+  page: number;
+  /** Active search query, if any */
+  search?: string;
+}
+
+/**
+ * Paginated multi-select checklist of the user's chats, already arranged
+ * (favorites first, filtered by search). Clicking a chat toggles it;
+ * "select all" toggles every listed chat; "next" proceeds with the selection.
+ */
+export function groupSelectionKeyboard(
+  groups: GroupInfo[],
+  botUsername: string,
+  { selected, badges, prefs, page, search }: GroupSelectionOptions,
+): InlineKeyboard {
   const kb = new InlineKeyboard();
 
-  for (const g of groups) {
-    kb.text(`📢 ${g.title}`, `grp:${g.chatId}`);
+  for (const g of groups.slice(page * GROUPS_PER_PAGE, (page + 1) * GROUPS_PER_PAGE)) {
+    const parts = [selected.includes(g.chatId) ? "✅" : "⬜"];
+    const badge = badges[g.chatId];
+    if (badge) parts.push(badge);
+    if (prefs.favorites.includes(g.chatId)) parts.push("⭐");
+    if (prefs.defaultChatId === g.chatId) parts.push("📌");
+    parts.push(truncate(chatDisplayName(g, prefs), 40));
+    kb.text(parts.join(" "), `grp:${g.chatId}`);
+    kb.row();
+  }
+
+  addPageRow(kb, page, groupPageCount(groups.length), "grp_page");
+
+  if (search) {
+    kb.text("✖️ Сбросить поиск", "grp_search_clear");
+    kb.row();
+  }
+
+  if (groups.length > 1) {
+    const allSelected = groups.every((g) => selected.includes(g.chatId));
+    const scope = search ? " найденные" : "";
+    kb.text(allSelected ? `⬜ Снять все${scope}` : `☑️ Выбрать все${scope}`, "grp_all");
+    kb.row();
+  }
+
+  if (selected.length > 0) {
+    kb.text(`➡️ Далее (${selected.length})`, "grp_done");
     kb.row();
   }
 
   // Deep link to add bot to a new group with admin rights
-  const addGroupUrl = `https://t.me/${botUsername}?startgroup=botstart&admin=post_messages+delete_messages+edit_messages`;
+  const addGroupUrl = `https://t.me/${botUsername}?startgroup=${CHAT_LINK_START_PAYLOAD}&admin=post_messages+delete_messages+edit_messages`;
   kb.url("➕ Добавить в группу", addGroupUrl);
   kb.row();
 
   // Deep link to add bot to a channel as admin
-  const addChannelUrl = `https://t.me/${botUsername}?startchannel=botstart&admin=post_messages+delete_messages+edit_messages`;
+  const addChannelUrl = `https://t.me/${botUsername}?startchannel=${CHAT_LINK_START_PAYLOAD}&admin=post_messages+delete_messages+edit_messages`;
   kb.url("➕ Добавить в канал", addChannelUrl);
   kb.row();
 
+  if (groups.length > 0 || search) {
+    kb.text("⚙️ Избранное и псевдонимы", "grp_manage");
+    kb.row();
+  }
   kb.text("🔄 Обновить список", "refresh_groups");
   kb.row();
   kb.text("⬅️ Назад", "back_to_review");
@@ -171,15 +386,127 @@ export function groupSelectionKeyboard(groups: GroupInfo[], botUsername: string)
   return kb;
 }
 
-// ─── Step: Confirm Send ───
+/**
+ * DM sent when the user adds the bot to a chat: back to the checklist with
+ * the chat selected if a message is in progress, otherwise a new message.
+ */
+export function chatLinkedKeyboard(chatId: number, canResume: boolean): InlineKeyboard {
+  return canResume
+    ? new InlineKeyboard().text("➡️ Продолжить: выбор чатов", `grp_linked:${chatId}`)
+    : new InlineKeyboard().text("📝 Создать сообщение", "create_message");
+}
 
-export function confirmSendKeyboard(groupTitle: string): InlineKeyboard {
-  return new InlineKeyboard()
-    .text(`✅ Отправить в «${truncate(groupTitle, 25)}»`, "confirm_send")
+/** Paginated list of the user's chats; clicking one opens its settings */
+export function groupSettingsListKeyboard(groups: GroupInfo[], prefs: ChatPrefs, page: number): InlineKeyboard {
+  const kb = new InlineKeyboard();
+
+  for (const g of groups.slice(page * GROUPS_PER_PAGE, (page + 1) * GROUPS_PER_PAGE)) {
+    const marks = `${prefs.favorites.includes(g.chatId) ? "⭐ " : ""}${prefs.defaultChatId === g.chatId ? "📌 " : ""}`;
+    kb.text(`${marks}${truncate(chatDisplayName(g, prefs), 40)}`, `grp_cfg:${g.chatId}`);
+    kb.row();
+  }
+
+  addPageRow(kb, page, groupPageCount(groups.length), "grp_mpage");
+
+  return kb.text("⬅️ Назад", "back_to_groups");
+}
+
+/** Settings of one chat in the picker: favorite, alias, default target */
+export function groupSettingsKeyboard(chatId: number, prefs: ChatPrefs): InlineKeyboard {
+  const kb = new InlineKeyboard()
+    .text(prefs.favorites.includes(chatId) ? "☆ Убрать из избранного" : "⭐ В избранное", `grp_fav:${chatId}`)
+    .row()
+    .text("✏️ Задать псевдоним", `grp_alias:${chatId}`);
+
+  if (prefs.aliases[String(chatId)]) {
+    kb.text("🗑 Убрать псевдоним", `grp_alias_del:${chatId}`);
+  }
+  kb.row();
+
+  kb.text(
+    prefs.defaultChatId === chatId ? "📌 Не использовать по умолчанию" : "📌 Чат по умолчанию",
+    `grp_def:${chatId}`,
+  );
+  kb.row();
+
+  return kb.text("⬅️ Назад", "grp_manage");
+}
+
+/** Keyboard while waiting for a chat alias */
+export function groupAliasKeyboard(chatId: number): InlineKeyboard {
+  return new InlineKeyboard().text("⬅️ Назад", `grp_cfg:${chatId}`);
+}
+
+/** ◀️ n/m ▶️ row; the counter re-opens the current page */
+function addPageRow(kb: InlineKeyboard, page: number, pageCount: number, prefix: string): void {
+  if (pageCount <= 1) return;
+  if (page > 0) kb.text("◀️", `${prefix}:${page - 1}`);
+  kb.text(`${page + 1} / ${pageCount}`, `${prefix}:${page}`);
+  if (page < pageCount - 1) kb.text("▶️", `${prefix}:${page + 1}`);
+  kb.row();
+}
+
+// ─── Step: Select Forum Topic ───
+
+/**
+ * Topic picker for one forum chat: General, then the known topics.
+ * @param backData - callback for "back": the forum overview, or the group list
+ */
+export function topicPickerKeyboard(
+  topics: ForumTopic[],
+  selectedThreadId: number | undefined,
+  backData: string,
+): InlineKeyboard {
+  const kb = new InlineKeyboard();
+  const mark = (on: boolean) => (on ? "✅ " : "");
+
+  kb.text(`${mark(!selectedThreadId)}💬 General`, "tpc:0");
+  kb.row();
+  for (const topic of topics) {
+    kb.text(`${mark(topic.threadId === selectedThreadId)}🧵 ${truncate(topic.name, 30)}`, `tpc:${topic.threadId}`);
+    kb.row();
+  }
+
+  return kb.text("⬅️ Назад", backData);
+}
+
+/** Overview of the selected forum chats with their chosen topics */
+export function forumTargetsKeyboard(forums: SendTarget[]): InlineKeyboard {
+  const kb = new InlineKeyboard();
+
+  for (const forum of forums) {
+    const topic = forum.topicName ?? "General";
+    kb.text(`${truncate(forum.title, 18)} → ${truncate(topic, 18)}`, `tpc_chat:${forum.chatId}`);
+    kb.row();
+  }
+
+  return kb
+    .text("➡️ Далее", "tpc_done")
     .row()
     .text("⬅️ Назад", "back_to_groups");
 }
 
+// ─── Step: Confirm Send ───
+
+/**
+ * @param targetLabel - chat title for a single target, or a count like "3 чата"
+ * @param editingScheduled - true when the builder holds a scheduled post
+ *   loaded from /scheduled; adds "save" that keeps its publish time
+ */
+export function confirmSendKeyboard(targetLabel: string, editingScheduled = false): InlineKeyboard {
+  const kb = new InlineKeyboard()
+    .text(`✅ Отправить в «${truncate(targetLabel, 25)}»`, "confirm_send")
+    .row()
+    .text("⏰ Запланировать", "schedule_post")
+    .row();
+
+  if (editingScheduled) {
+    kb.text("💾 Сохранить в расписании", "sch_save").row();
+  }
+
+  return kb.text("⬅️ Назад", "back_to_groups");
+}
+
 // ─── Helpers ───
 
 function truncate(text: string, maxLen: number): string {
@@ -199,6 +526,8 @@ export function attachButtonGridKeyboard(buttons: MessageButton[][]): InlineKeyb
   if (buttons.length === 0) {
     kb.text("➕ Добавить кнопку", "ab_+r:0");
     kb.row();
+    kb.text("📋 Кнопки текстом", "ab_btn_layout");
+    kb.row();
     kb.text("❌ Отмена", "ab_cancel");
     return kb;
   }
@@ -221,8 +550,7 @@ export function attachButtonGridKeyboard(buttons: MessageButton[][]): InlineKeyb
     kb.text("➕ ←", `ab_+c:${r}:0`);
     for (let c = 0; c < row.length; c++) {
       const btn = row[c]!;
-      const icon = btn.action === "url" ? "🔗" : "💬";
-      kb.text(`${icon} ${truncate(btn.text, 12)}`, `ab_eb:${r}:${c}`);
+      kb.text(`${buttonIcon(btn.action)} ${truncate(btn.text, 12)}`, `ab_eb:${r}:${c}`);
       if (c < row.length - 1) {
         kb.text("➕", `ab_+c:${r}:${c + 1}`);
       }
@@ -243,6 +571,9 @@ export function attachButtonGridKeyboard(buttons: MessageButton[][]): InlineKeyb
   kb.text("   ", "noop");
   kb.row();
 
+  kb.text("📋 Кнопки текстом", "ab_btn_layout");
+  kb.row();
+
   // Navigation
   kb.text("✅ Готово — ввести ссылку", "ab_buttons_done");
   kb.row();
@@ -253,12 +584,8 @@ export function attachButtonGridKeyboard(buttons: MessageButton[][]): InlineKeyb
 
 /** Button action choice for attach flow */
 export function attachButtonActionKeyboard(): InlineKeyboard {
-  return new InlineKeyboard()
-    .text("🔗 Ссылка (URL)", "ab_btnact_url")
-    .row()
-    .text("💬 Всплывающее уведомление", "ab_btnact_alert")
-    .row()
-    .text("⬅️ Назад", "ab_back_to_buttons");
+  // A giveaway is managed in /giveaways, which lists only posts sent through the bot
+  return addActionChoices(new InlineKeyboard(), "ab_btnact_", ["giveaway"]).text("⬅️ Назад", "ab_back_to_buttons");
 }
 
 /** Edit existing button menu for attach flow */
@@ -267,6 +594,8 @@ export function attachEditButtonKeyboard(row: number, col: number): InlineKeyboa
     .text("✏️ Изменить", `ab_btn_edit:${row}:${col}`)
     .text("🗑 Удалить", `ab_btn_del:${row}:${col}`)
     .row()
+    .text("↔️ Переместить", `ab_mv:${row}:${col}`)
+    .row()
     .text("⬅️ Назад", "ab_back_to_buttons");
 }
 
@@ -0,0 +1,92 @@
+import { InlineKeyboard } from "grammy";
+import type { LinkEditTarget, SentPost } from "../types/index.js";
+import { formatLocalDateTime } from "../utils/datetime.js";
+import { canEditPostButtons } from "../services/sender.js";
+
+// ─── /posts: List ───
+
+/** One row per recent post: time and chat title */
+export function postsListKeyboard(posts: SentPost[], tz: string): InlineKeyboard {
+  const kb = new InlineKeyboard();
+
+  for (const post of posts) {
+    const icon = (post.message.media ?? []).length > 0 ? "🖼" : "📝";
+    // "25.12.2026 18:30" → "25.12 18:30" to keep the button short
+    const [date, time] = formatLocalDateTime(post.sentAt, tz).split(" ");
+    const when = `${date!.slice(0, 5)} ${time}`;
+    kb.text(`${icon} ${when} · ${truncate(post.chatTitle, 20)}`, `pst:${post.id}`);
+    kb.row();
+  }
+
+  kb.text("✖️ Закрыть", "pst_close");
+  return kb;
+}
+
+// ─── /posts: Manage One Post ───
+
+/** Actions available for the post's layout */
+export function postActionsKeyboard(post: SentPost): InlineKeyboard {
+  const kb = new InlineKeyboard().text("✏️ Изменить текст", `pst_text:${post.id}`).row();
+
+  if (canEditPostButtons(post)) {
+    kb.text("🔘 Изменить кнопки", `pst_btns:${post.id}`).row();
+  }
+  if ((post.message.media ?? []).length === 1) {
+    kb.text("🔄 Заменить медиа", `pst_media:${post.id}`).row();
+  }
+
+  return kb
+    .text("🗑 Удалить", `pst_del:${post.id}`)
+    .row()
+    .text("⬅️ К списку", "pst_list");
+}
+
+export function postDeleteConfirmKeyboard(id: string): InlineKeyboard {
+  return new InlineKeyboard()
+    .text("🗑 Да, удалить", `pst_del_ok:${id}`)
+    .row()
+    .text("⬅️ Отмена", `pst:${id}`);
+}
+
+/** Back to the post while waiting for new text or media */
+export function postInputKeyboard(id: string): InlineKeyboard {
+  return new InlineKeyboard().text("⬅️ Назад", `pst:${id}`);
+}
+
+// ─── Edit a Message by Link ───
+
+/** While waiting for the message link */
+export function linkEditUrlKeyboard(): InlineKeyboard {
+  return new InlineKeyboard().text("❌ Отмена", "le_cancel");
+}
+
+/** While waiting for new content: what happens to the buttons */
+export function linkEditKeyboard(target: LinkEditTarget): InlineKeyboard {
+  const kb = new InlineKeyboard().text("📋 Задать кнопки текстом", "le_btns").row();
+
+  // Buttons the bot didn't record may still be there
+  if (target.buttons.length > 0 || (target.gridUnknown && !target.buttonsChanged)) {
+    kb.text("🗑 Убрать кнопки", "le_btns_clear").row();
+  }
+  if (target.buttonsChanged) {
+    kb.text("✅ Применить только кнопки", "le_btns_apply").row();
+    kb.text("↩️ Вернуть текущие кнопки", "le_btns_keep").row();
+  }
+
+  return kb.text("❌ Отмена", "le_cancel");
+}
+
+/** After a successful edit */
+export function linkEditDoneKeyboard(target: LinkEditTarget): InlineKeyboard {
+  return new InlineKeyboard()
+    .text("✏️ Изменить ещё раз", `le_again:${target.chatId}:${target.messageId}`)
+    .row()
+    .text("📝 Создать сообщение", "create_message");
+}
+
+// ─── Helpers ───
+
+function truncate(text: string, maxLen: number): string {
+  if (text.length <= maxLen) return text;
+  return text.slice(0, maxLen - 1) + "…";
+}
@@ -0,0 +1,53 @@
+import { InlineKeyboard } from "grammy";
+import type { ScheduledPost } from "../types/index.js";
+import { formatLocalDateTime } from "../utils/datetime.js";
+import { targetsLabel } from "../services/preview.js";
+
+// ─── Schedule: Time Input ───
+
+export function scheduleTimeKeyboard(tz: string): InlineKeyboard {
+  return new InlineKeyboard()
+    .text(`🌍 Часовой пояс: ${tz}`, "sch_tz")
+    .row()
+    .text("⬅️ Назад", "back_to_confirm");
+}
+
+export function scheduleTimezoneKeyboard(): InlineKeyboard {
+  return new InlineKeyboard().text("⬅️ Назад", "schedule_post");
+}
+
+// ─── /scheduled: List & Manage ───
+
+/** One row per scheduled post, failed ones marked with ⚠️ */
+export function scheduledListKeyboard(posts: ScheduledPost[], tz: string): InlineKeyboard {
+  const kb = new InlineKeyboard();
+
+  for (const post of posts) {
+    const icon = post.status === "failed" ? "⚠️" : "🕒";
+    // "25.12.2026 18:30" → "25.12 18:30" to keep the button short
+    const [date, time] = formatLocalDateTime(post.sendAt, tz).split(" ");
+    const when = `${date!.slice(0, 5)} ${time}`;
+    kb.text(`${icon} ${when} · ${truncate(targetsLabel(post.targets), 20)}`, `sch:${post.id}`);
+    kb.row();
+  }
+
+  kb.text("✖️ Закрыть", "sch_close");
+  return kb;
+}
+
+export function scheduledPostKeyboard(id: string): InlineKeyboard {
+  return new InlineKeyboard()
+    .text("⏰ Перенести", `sch_resched:${id}`)
+    .text("✏️ Редактировать", `sch_edit:${id}`)
+    .row()
+    .text("🗑 Отменить публикацию", `sch_cancel:${id}`)
+    .row()
+    .text("⬅️ К списку", "sch_list");
+}
+
+// ─── Helpers ───
+
+function truncate(text: string, maxLen: number): string {
+  if (text.length <= maxLen) return text;
+  return text.slice(0, maxLen - 1) + "…";
+}
@@ -0,0 +1,43 @@
+import { InlineKeyboard } from "grammy";
+import type { SentPost } from "../types/index.js";
+import { formatLocalDateTime } from "../utils/datetime.js";
+
+// ─── /stats: List ───
+
+/** A post in the /stats list with its total clicks */
+export interface PostClicks {
+  post: SentPost;
+  total: number;
+}
+
+/** One row per post with countable buttons: time, chat title and total clicks */
+export function statsListKeyboard(entries: PostClicks[], tz: string): InlineKeyboard {
+  const kb = new InlineKeyboard();
+
+  for (const { post, total } of entries) {
+    // "25.12.2026 18:30" → "25.12 18:30" to keep the button short
+    const [date, time] = formatLocalDateTime(post.sentAt, tz).split(" ");
+    const when = `${date!.slice(0, 5)} ${time}`;
+    kb.text(`📊 ${when} · ${truncate(post.chatTitle, 18)} · ${total}`, `sts:${post.id}`);
+    kb.row();
+  }
+
+  kb.text("✖️ Закрыть", "sts_close");
+  return kb;
+}
+
+// ─── /stats: One Post ───
+
+export function postStatsKeyboard(post: SentPost): InlineKeyboard {
+  return new InlineKeyboard()
+    .text("🔄 Обновить", `sts:${post.id}`)
+    .row()
+    .text("⬅️ К списку", "sts_list");
+}
+
+// ─── Helpers ───
+
+function truncate(text: string, maxLen: number): string {
+  if (text.length <= maxLen) return text;
+  return text.slice(0, maxLen - 1) + "…";
+}
@@ -0,0 +1,217 @@
+import { createHash } from "node:crypto";
+import type { Api } from "grammy";
+import { redis } from "../storage/redis.js";
+import type { MessageButton } from "../types/index.js";
+import { requireEnv } from "../utils/env.js";
+import { getVerifiedGroupsForUser } from "./groups.js";
+
+/** Alert text by content hash; without expiry once a published keyboard references it */
+const ALERT_TEXT_KEY_PREFIX = "alert_text:";
+/** Set of published messages ("chatId:messageId") whose keyboard uses the alert */
+const ALERT_REFS_KEY_PREFIX = "alert_refs:";
+/** Set of stored alert IDs used by the keyboard of a published message */
+const MESSAGE_ALERTS_KEY_PREFIX = "msg_alerts:";
+/** Random 8-char keys with a 30-day TTL, written before the content-addressed store */
+const LEGACY_ALERT_KEY_PREFIX = "alert:";
+/** Hash: legacy 8-char ID → alert ID in the content-addressed store */
+const LEGACY_ALERTS_KEY = "alert_legacy";
+
+/** Max bytes for Telegram callback_data */
+const MAX_CALLBACK_DATA = 64;
+
+/** Hex chars of the SHA-256 digest used as the alert ID */
+const ALERT_ID_LENGTH = 16;
+
+/**
+ * How long a text no published keyboard references is kept, in seconds:
+ * longer than a builder session, so alerts in previews keep working.
+ */
+const UNREFERENCED_ALERT_TTL = 2 * 86_400;
+
+/**
+ * Stores an alert text with UNREFERENCED_ALERT_TTL, unless it's already
+ * stored without expiry, i.e. referenced: a preview must not put an expiry
+ * on an alert of a published post.
+ */
+const STORE_UNREFERENCED_SCRIPT = `
+if redis.call("TTL", KEYS[1]) == -1 then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[2])
+return 1`;
+
+/**
+ * ID of an alert text in the store. The same text always gets the same ID,
+ * so re-sending or editing a post never duplicates its alerts.
+ */
+export function alertId(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, ALERT_ID_LENGTH);
+}
+
+/** Whether the alert text fits into callback_data as is */
+function fitsInline(text: string): boolean {
+  return Buffer.byteLength(`alert:${text}`, "utf-8") <= MAX_CALLBACK_DATA;
+}
+
+/**
+ * Stores the text of a keyboard being built. It expires unless the keyboard
+ * gets published and setMessageAlerts() records the reference.
+ */
+async function storeAlertText(id: string, text: string): Promise<void> {
+  await redis.eval<[string, number], number>(
+    STORE_UNREFERENCED_SCRIPT,
+    [`${ALERT_TEXT_KEY_PREFIX}${id}`],
+    [text, UNREFERENCED_ALERT_TTL],
+  );
+}
+
+/**
+ * Returns the callback_data for an alert button: the text itself when it
+ * fits, otherwise a reference to the stored text (alrt:<id>).
+ */
+export async function alertCallbackData(text: string): Promise<string> {
+  if (fitsInline(text)) return `alert:${text}`;
+
+  const id = alertId(text);
+  await storeAlertText(id, text);
+  return `alrt:${id}`;
+}
+
+/**
+ * Returns the callback_data for a gated alert button: galrt:<id>:<chat ID>.
+ * The text is always stored, so it never shows up in the button's data.
+ */
+export async function gatedAlertCallbackData(text: string, gateChatId: number): Promise<string> {
+  const id = alertId(text);
+  await storeAlertText(id, text);
+  return `galrt:${id}:${gateChatId}`;
+}
+
+/**
+ * Checks the gating chats of gated alerts from a pasted layout: each must be
+ * one of the author's verified chats, as in the picker, so an alert can't
+ * probe who is a member of someone else's chat. Returns one message per
+ * rejected button.
+ */
+export async function checkGateChats(buttons: MessageButton[][], authorId: number, api: Api): Promise<string[]> {
+  const errors: string[] = [];
+  let chatIds: Set<number> | undefined;
+
+  for (const btn of buttons.flat()) {
+    if (btn.action !== "gated_alert") continue;
+
+    chatIds ??= new Set(
+      (await getVerifiedGroupsForUser(authorId, api, Number(requireEnv("BOT_ID")))).map((g) => g.chatId),
+    );
+    if (!chatIds.has(btn.gateChatId ?? 0)) {
+      errors.push(`Кнопка «${btn.text}» — чат ${btn.gateChatId} не подключён: укажите ID своего чата`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Returns the text behind an alrt:<id> button, or null if it's gone.
+ * Also resolves IDs of the legacy store, migrated or not.
+ */
+export async function getAlertText(id: string): Promise<string | null> {
+  const text = await redis.get<string>(`${ALERT_TEXT_KEY_PREFIX}${id}`);
+  if (text !== null) return text;
+
+  const migratedId = await redis.hget<string>(LEGACY_ALERTS_KEY, id);
+  if (migratedId) return redis.get<string>(`${ALERT_TEXT_KEY_PREFIX}${migratedId}`);
+
+  return redis.get<string>(`${LEGACY_ALERT_KEY_PREFIX}${id}`);
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  References from published keyboards
+// ═══════════════════════════════════════════════════════════════
+
+/** Stored alert texts of a button grid (long and gated alerts), by ID */
+function storedAlerts(buttons: MessageButton[][]): Map<string, string> {
+  const alerts = new Map<string, string>();
+  for (const btn of buttons.flat()) {
+    if ((btn.action === "alert" && !fitsInline(btn.value)) || btn.action === "gated_alert") {
+      alerts.set(alertId(btn.value), btn.value);
+    }
+  }
+  return alerts;
+}
+
+/**
+ * Records that a published message now carries the given button grid:
+ * references its stored alerts and releases the ones its previous keyboard
+ * used. An alert no published keyboard references anymore is deleted.
+ * Pass an empty grid when the keyboard or the message is removed.
+ */
+export async function setMessageAlerts(
+  chatId: number,
+  messageId: number,
+  buttons: MessageButton[][],
+): Promise<void> {
+  const ref = `${chatId}:${messageId}`;
+  const key = `${MESSAGE_ALERTS_KEY_PREFIX}${ref}`;
+  const previous = await redis.smembers(key);
+  const current = storedAlerts(buttons);
+
+  for (const [id, text] of current) {
+    await redis.sadd(`${ALERT_REFS_KEY_PREFIX}${id}`, ref);
+    // Written again after the reference, without expiry, in case a concurrent release just dropped it
+    await redis.set(`${ALERT_TEXT_KEY_PREFIX}${id}`, text);
+  }
+
+  for (const id of previous) {
+    if (!current.has(id)) await releaseAlert(id, ref);
+  }
+
+  await redis.del(key);
+  if (current.size > 0) {
+    const [first, ...rest] = current.keys();
+    await redis.sadd(key, first!, ...rest);
+  }
+}
+
+/** Drops one reference to an alert and deletes the alert when none are left */
+async function releaseAlert(id: string, ref: string): Promise<void> {
+  const refsKey = `${ALERT_REFS_KEY_PREFIX}${id}`;
+  await redis.srem(refsKey, ref);
+  if ((await redis.scard(refsKey)) === 0) {
+    await redis.del(refsKey, `${ALERT_TEXT_KEY_PREFIX}${id}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Migration of legacy keys
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Moves alert texts stored under legacy alert:<8 chars> keys into the
+ * content-addressed store, so alrt:<8 chars> buttons on published posts
+ * stop expiring. Which messages use a legacy key is unknown, so each one
+ * keeps a permanent "legacy" reference and is never cleaned up.
+ * Keys that already expired can't be recovered. Returns the number of migrated keys.
+ */
+export async function migrateLegacyAlerts(): Promise<number> {
+  let migrated = 0;
+  let cursor = "0";
+  do {
+    const [next, keys] = await redis.scan(cursor, { match: `${LEGACY_ALERT_KEY_PREFIX}*`, count: 100 });
+    cursor = next;
+
+    for (const key of keys) {
+      const text = await redis.get<string>(key);
+      if (text === null) continue;
+
+      const legacyId = key.slice(LEGACY_ALERT_KEY_PREFIX.length);
+      const id = alertId(text);
+      await redis.set(`${ALERT_TEXT_KEY_PREFIX}${id}`, text);
+      await redis.sadd(`${ALERT_REFS_KEY_PREFIX}${id}`, `legacy:${legacyId}`);
+      await redis.hset(LEGACY_ALERTS_KEY, { [legacyId]: id });
+      await redis.del(key);
+      migrated++;
+    }
+  } while (cursor !== "0");
+
+  return migrated;
+}
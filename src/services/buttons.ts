@@ -0,0 +1,646 @@
+import type { ButtonAction, MessageButton } from "../types/index.js";
+import { escapeHtml } from "../utils/formatting.js";
+
+/** How each button kind is shown in the editors */
+export interface ButtonActionInfo {
+  icon: string;
+  /** Name in the action picker */
+  label: string;
+  /** Prompt for the value */
+  prompt: string;
+  /** Prefix of the value in the text layout; plain values are links */
+  layoutPrefix?: string;
+}
+
+/** Button kinds in the order they are offered in the action picker */
+export const BUTTON_ACTIONS: Record<ButtonAction, ButtonActionInfo> = {
+  url: {
+    icon: "🔗",
+    label: "Ссылка (URL)",
+    prompt: "🔗 Введите URL для кнопки (например, https://example.com):",
+  },
+  alert: {
+    icon: "💬",
+    label: "Всплывающее уведомление",
+    prompt: "💬 Введите текст всплывающего уведомления:",
+    layoutPrefix: "alert",
+  },
+  gated_alert: {
+    icon: "🎁",
+    label: "Уведомление для подписчиков",
+    prompt: "🎁 Введите текст, который увидят только подписчики (например, промокод):",
+    layoutPrefix: "gate",
+  },
+  copy_text: {
+    icon: "📋",
+    label: "Скопировать текст (промокод)",
+    prompt: "📋 Введите текст, который скопируется при нажатии (например, промокод):",
+    layoutPrefix: "copy",
+  },
+  share: {
+    icon: "📤",
+    label: "Поделиться",
+    prompt: "📤 Введите текст, который отправится в выбранный чат вместе со ссылкой на бота:",
+    layoutPrefix: "share",
+  },
+  web_app: {
+    icon: "📱",
+    label: "Mini App",
+    prompt: "📱 Введите прямую ссылку на Mini App (например, https://t.me/mybot/app):",
+    layoutPrefix: "app",
+  },
+  login_url: {
+    icon: "🔐",
+    label: "Вход на сайт через Telegram",
+    prompt: "🔐 Введите URL сайта для входа (домен должен быть привязан к боту в @BotFather):",
+    layoutPrefix: "login",
+  },
+  start: {
+    icon: "🤖",
+    label: "Открыть бота",
+    prompt: "🤖 Введите параметр запуска бота (латиница, цифры, _ и -, до 64 символов):",
+    layoutPrefix: "start",
+  },
+  vote: {
+    icon: "🗳",
+    label: "Голосование со счётчиком",
+    prompt:
+      "🗳 Введите ID варианта (латиница, цифры, _ и -, до 16 символов, например <code>yes</code>).\n\nТекст кнопки — подпись варианта, рядом с ней в посте появится число голосов. Каждый пользователь голосует за один вариант и может передумать.",
+    layoutPrefix: "vote",
+  },
+  giveaway: {
+    icon: "🎉",
+    label: "Розыгрыш",
+    prompt:
+      "🎉 Что разыгрывается? Введите приз (например, <i>3 месяца подписки</i>).\n\nНажатие на кнопку записывает пользователя в участники, рядом с текстом кнопки появится их число. Приём участников и выбор победителей — в /giveaways.",
+    layoutPrefix: "giveaway",
+  },
+  feedback: {
+    icon: "✉️",
+    label: "Написать автору",
+    prompt: "✉️ Введите ID получателя: ваш ID пользователя или ID чата команды (-100…):",
+    layoutPrefix: "ask",
+  },
+};
+
+/** Icon of a button kind for previews and grids */
+export function buttonIcon(action: ButtonAction): string {
+  return BUTTON_ACTIONS[action].icon;
+}
+
+/** Screen of the gating chat picker, shown before a gated alert's text is asked for */
+export function buildGatePickerText(hasChats: boolean): string {
+  if (!hasChats) {
+    return "🎁 Нет подключённых каналов и групп. Добавьте бота администратором в канал, подписку на который нужно проверять.";
+  }
+  return [
+    "🎁 <b>Кому показывать уведомление?</b>",
+    "",
+    "Выберите канал или группу: текст увидят только их участники, остальным бот предложит подписаться.",
+    "",
+    "<i>Бот должен оставаться администратором чата, чтобы проверять подписку.</i>",
+  ].join("\n");
+}
+
+/** Value prompt of a gated alert, naming the chosen chat */
+export function buildGatedAlertPrompt(chatTitle: string): string {
+  return `📢 Только для участников «${escapeHtml(chatTitle)}»\n\n${BUTTON_ACTIONS.gated_alert.prompt}`;
+}
+
+/** Screen of the inbox picker of a feedback button */
+export function buildFeedbackPickerText(): string {
+  return [
+    "✉️ <b>Куда пересылать сообщения?</b>",
+    "",
+    "Кнопка откроет диалог с ботом: пользователь напишет сообщение, а бот перешлёт его вам или в чат команды с кнопкой «Ответить». Ответ придёт пользователю от имени бота — ваше имя он не увидит.",
+  ].join("\n");
+}
+
+/**
+ * Moves available in the grid editor's move mode:
+ * - left / right: swap with the neighbour in the row
+ * - up / down: move into the adjacent row (or into a new row at the edge)
+ * - row: take the button out into its own row below
+ * - merge: append the next row to the button's row
+ * - row_up / row_down: swap the whole row with its neighbour
+ */
+export type ButtonMove = "left" | "right" | "up" | "down" | "row" | "merge" | "row_up" | "row_down";
+
+export const BUTTON_MOVES: ButtonMove[] = ["left", "right", "up", "down", "row", "merge", "row_up", "row_down"];
+
+/** Position of a button in the grid */
+export interface ButtonPosition {
+  row: number;
+  col: number;
+}
+
+/**
+ * Applies a move to the button at (row, col), in place. Empty rows left
+ * behind are removed. Returns the button's new position, or null if the
+ * move isn't possible (edge of the grid, or the target row is full).
+ */
+export function moveButton(
+  buttons: MessageButton[][],
+  row: number,
+  col: number,
+  move: ButtonMove,
+): ButtonPosition | null {
+  const current = buttons[row];
+  if (!current || !current[col]) return null;
+
+  switch (move) {
+    case "left":
+    case "right": {
+      const target = move === "left" ? col - 1 : col + 1;
+      if (target < 0 || target >= current.length) return null;
+      [current[col], current[target]] = [current[target]!, current[col]!];
+      return { row, col: target };
+    }
+
+    case "up":
+    case "down": {
+      const targetRow = move === "up" ? row - 1 : row + 1;
+      const target = buttons[targetRow];
+
+      // At the edge: a button sharing its row gets a row of its own
+      if (!target) {
+        if (current.length === 1) return null;
+        const [btn] = current.splice(col, 1);
+        const newRow = move === "up" ? 0 : buttons.length;
+        buttons.splice(newRow, 0, [btn!]);
+        return { row: newRow, col: 0 };
+      }
+
+      if (target.length >= MAX_BUTTONS_PER_ROW) return null;
+      const [btn] = current.splice(col, 1);
+      const targetCol = Math.min(col, target.length);
+      target.splice(targetCol, 0, btn!);
+
+      if (current.length === 0) {
+        buttons.splice(row, 1);
+        return { row: move === "up" ? targetRow : row, col: targetCol };
+      }
+      return { row: targetRow, col: targetCol };
+    }
+
+    case "row": {
+      if (current.length === 1) return null;
+      const [btn] = current.splice(col, 1);
+      buttons.splice(row + 1, 0, [btn!]);
+      return { row: row + 1, col: 0 };
+    }
+
+    case "merge": {
+      const next = buttons[row + 1];
+      if (!next || current.length + next.length > MAX_BUTTONS_PER_ROW) return null;
+      current.push(...next);
+      buttons.splice(row + 1, 1);
+      return { row, col };
+    }
+
+    case "row_up":
+    case "row_down": {
+      const targetRow = move === "row_up" ? row - 1 : row + 1;
+      if (targetRow < 0 || targetRow >= buttons.length) return null;
+      [buttons[row], buttons[targetRow]] = [buttons[targetRow]!, current];
+      return { row: targetRow, col };
+    }
+  }
+}
+
+/**
+ * Puts a finished button at the position being edited: inserted for a new
+ * button (creating the row if needed), replacing the old one otherwise.
+ */
+export function placeButton(
+  buttons: MessageButton[][],
+  editing: { row: number; col: number; isNew: boolean },
+  button: MessageButton,
+): void {
+  if (editing.isNew) {
+    if (!buttons[editing.row]) {
+      buttons[editing.row] = [];
+    }
+    buttons[editing.row]!.splice(editing.col, 0, button);
+  } else if (buttons[editing.row]) {
+    buttons[editing.row]![editing.col] = button;
+  }
+}
+
+/**
+ * Text layout of the grid, one line per row, with the given button
+ * highlighted. Used on the move screen of both grid editors.
+ */
+export function buildButtonLayout(buttons: MessageButton[][], highlight?: ButtonPosition): string {
+  return buttons
+    .map((row, r) =>
+      row
+        .map((btn, c) => {
+          const label = `[${buttonIcon(btn.action)} ${escapeHtml(btn.text)}]`;
+          return highlight?.row === r && highlight.col === c ? `<b>👉${label}</b>` : label;
+        })
+        .join(" "),
+    )
+    .join("\n");
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Text layout: one line per row, "Text - value" separated by " | "
+// ═══════════════════════════════════════════════════════════════
+
+const BUTTON_SEPARATOR = "|";
+const VALUE_SEPARATOR = " - ";
+/** Layout prefix → button kind, e.g. "copy" → "copy_text" */
+const LAYOUT_ACTIONS: Record<string, ButtonAction> = Object.fromEntries(
+  (Object.keys(BUTTON_ACTIONS) as ButtonAction[])
+    .filter((action) => BUTTON_ACTIONS[action].layoutPrefix)
+    .map((action) => [BUTTON_ACTIONS[action].layoutPrefix!, action]),
+);
+const LAYOUT_PREFIX = new RegExp(`^(${Object.keys(LAYOUT_ACTIONS).join("|")}):(.*)$`, "is");
+/** Value of a gated alert in the layout: chat ID, then the text */
+const GATE_VALUE = /^(-?\d+)\s+(.+)$/s;
+/** Escapes of the layout: "\|", "\-", "\\" and "\n" for a line break */
+const LAYOUT_ESCAPE = /\\([\\|n-])/g;
+
+export interface ParsedButtonLayout {
+  buttons: MessageButton[][];
+  /** One message per problem, prefixed with its line number */
+  errors: string[];
+}
+
+/**
+ * Parses a pasted button layout:
+ *
+ *   Сайт - https://example.com | Помощь - alert: Текст уведомления
+ *   Канал - t.me/channel
+ *
+ * Each non-empty line is a row; buttons are separated by "|", text and
+ * value by " - ". A value prefix selects the kind ("alert:", "copy:",
+ * "share:", "app:", "login:", "start:", "vote:", "gate:", "giveaway:", "ask:");
+ * plain values must be links. "ask: me" sends feedback to the author.
+ * A gated alert names the chat whose members may see it: "gate: -100… текст".
+ * A backslash escapes "|" and the dash of " - " inside text and values,
+ * "\n" stands for a line break and "\\" for a backslash.
+ * Problems are reported per line instead of stopping at the first one.
+ */
+export function parseButtonLayout(input: string): ParsedButtonLayout {
+  const buttons: MessageButton[][] = [];
+  const errors: string[] = [];
+
+  input.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+    const lineNo = index + 1;
+    const row: MessageButton[] = [];
+
+    for (const part of splitUnescaped(line, BUTTON_SEPARATOR).map((p) => p.trim())) {
+      if (!part) continue;
+
+      const [rawText, rawValue] = splitUnescaped(part, VALUE_SEPARATOR, 2);
+      if (rawValue === undefined) {
+        errors.push(`Строка ${lineNo}: «${unescapeLayout(part)}» — нужно «Текст - ссылка» или «Текст - alert: текст»`);
+        continue;
+      }
+
+      const text = validateButtonText(unescapeLayout(rawText!));
+      const label = unescapeLayout(rawText!).trim() || unescapeLayout(part);
+      if (!text.ok) {
+        errors.push(`Строка ${lineNo}: «${label}» — ${text.error}`);
+        continue;
+      }
+
+      const value = unescapeLayout(rawValue.trim());
+      const prefixed = LAYOUT_PREFIX.exec(value);
+      const action = prefixed ? LAYOUT_ACTIONS[prefixed[1]!.toLowerCase()]! : "url";
+      let raw = prefixed ? prefixed[2]! : value;
+
+      // Gated alerts start with the gating chat's ID: "gate: -1001234567890 Текст"
+      let gateChatId: number | undefined;
+      if (action === "gated_alert") {
+        const gated = GATE_VALUE.exec(raw.trim());
+        if (!gated) {
+          errors.push(`Строка ${lineNo}: кнопка «${text.value}» — нужен ID чата: «gate: -100… текст»`);
+          continue;
+        }
+        gateChatId = Number(gated[1]);
+        raw = gated[2]!;
+      }
+
+      const checked = validateButtonValue(action, raw);
+      if (!checked.ok) {
+        errors.push(`Строка ${lineNo}: кнопка «${text.value}» — ${checked.error}`);
+        continue;
+      }
+
+      row.push({ text: text.value, action, value: checked.value, ...(gateChatId ? { gateChatId } : {}) });
+    }
+
+    if (row.length > MAX_BUTTONS_PER_ROW) {
+      errors.push(`Строка ${lineNo}: больше ${MAX_BUTTONS_PER_ROW} кнопок в ряду`);
+    } else if (row.length > 0) {
+      buttons.push(row);
+    }
+  });
+
+  if (buttons.reduce((sum, r) => sum + r.length, 0) > MAX_BUTTONS_TOTAL) {
+    errors.push(`Больше ${MAX_BUTTONS_TOTAL} кнопок`);
+  }
+  if (buttons.length === 0 && errors.length === 0) {
+    errors.push("Не найдено ни одной кнопки");
+  }
+  return { buttons, errors };
+}
+
+/**
+ * Splits a layout line at each separator that isn't escaped; the escapes
+ * stay in the parts. With a limit, the last part keeps the rest of the line.
+ */
+function splitUnescaped(input: string, separator: string, limit = Infinity): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === "\\") {
+      i++;
+    } else if (parts.length < limit - 1 && input.startsWith(separator, i)) {
+      parts.push(input.slice(start, i));
+      start = i + separator.length;
+      i = start - 1;
+    }
+  }
+  parts.push(input.slice(start));
+  return parts;
+}
+
+/** Resolves the escapes of a layout part; other backslashes stay as typed */
+function unescapeLayout(part: string): string {
+  return part.replace(LAYOUT_ESCAPE, (_, char: string) => (char === "n" ? "\n" : char));
+}
+
+/** Escapes what parseButtonLayout() would read as syntax */
+function escapeLayout(text: string): string {
+  return text
+    .replace(/[\\|]/g, "\\$&")
+    .replace(/(?<= )-(?= )/g, "\\-")
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Formats the grid in the syntax accepted by parseButtonLayout(),
+ * so it can be copied, edited and sent back unchanged.
+ */
+export function formatButtonLayout(buttons: MessageButton[][]): string {
+  return buttons
+    .map((row) =>
+      row
+        .map((btn) => {
+          const prefix = BUTTON_ACTIONS[btn.action].layoutPrefix;
+          const gate = btn.action === "gated_alert" ? `${btn.gateChatId ?? 0} ` : "";
+          const value = prefix ? `${prefix}: ${gate}${escapeLayout(btn.value)}` : escapeLayout(btn.value);
+          return `${escapeLayout(btn.text)}${VALUE_SEPARATOR}${value}`;
+        })
+        .join(` ${BUTTON_SEPARATOR} `),
+    )
+    .join("\n");
+}
+
+/**
+ * Screen explaining the text syntax, with the current grid exported in it.
+ * Shared by the main builder and the attach flow.
+ */
+export function buildButtonLayoutHelp(buttons: MessageButton[][]): string {
+  const lines = [
+    "📋 <b>Кнопки текстом</b>",
+    "",
+    "Отправьте кнопки одним сообщением: каждая строка — ряд, кнопки в ряду разделяются «|».",
+    "",
+    "<code>Сайт - https://example.com | Помощь - alert: Текст уведомления</code>",
+    "<code>Канал - t.me/channel</code>",
+    "<code>Промокод - copy: SALE20 | Бот - start: promo</code>",
+    "<code>👍 - vote: yes | 👎 - vote: no</code>",
+    "",
+    "Другие виды кнопок: <code>share:</code> — поделиться, <code>app:</code> — Mini App, <code>login:</code> — вход на сайт, <code>vote:</code> — голосование со счётчиком, <code>gate: ID_чата текст</code> — уведомление только для подписчиков чата, <code>giveaway:</code> — участие в розыгрыше (значение — приз), <code>ask: me</code> — написать автору (или <code>ask: ID_чата</code> команды).",
+    "",
+    "Чтобы вставить в текст «|» или « - », поставьте перед ними «\\»: <code>Вопрос \\| ответ</code>, <code>Москва \\- Питер</code>. Перенос строки — <code>\\n</code>.",
+    "",
+    "Отправленный текст заменит все текущие кнопки.",
+  ];
+  if (buttons.length > 0) {
+    lines.push("");
+    lines.push("<b>Текущие кнопки</b> (нажмите, чтобы скопировать):");
+    lines.push(`<pre>${escapeHtml(formatButtonLayout(buttons))}</pre>`);
+  }
+  return lines.join("\n");
+}
+
+/** Lists layout errors for display above the grid */
+export function buildLayoutErrorsText(errors: string[]): string {
+  return ["❌ <b>Кнопки не загружены:</b>", ...errors.map((e) => `• ${escapeHtml(e)}`)].join("\n");
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Validation: checked at input time and again before sending
+// ═══════════════════════════════════════════════════════════════
+
+/** Telegram's limit of buttons in one inline keyboard row */
+export const MAX_BUTTONS_PER_ROW = 8;
+/** Telegram's limit of buttons in one inline keyboard */
+export const MAX_BUTTONS_TOTAL = 100;
+/** Longer labels get cut off by clients, so they're rejected up front */
+export const MAX_BUTTON_TEXT_LENGTH = 64;
+/** Telegram's limit for the text of an alert shown by answerCallbackQuery */
+export const MAX_ALERT_LENGTH = 200;
+/** Telegram's limit for copy_text values; shared texts are kept as short */
+export const MAX_COPY_TEXT_LENGTH = 256;
+export const MAX_SHARE_TEXT_LENGTH = 256;
+/** The prize goes into the management screens and the results message */
+export const MAX_PRIZE_LENGTH = 128;
+
+/** Allowed characters of a /start payload */
+const START_PAYLOAD = /^[A-Za-z0-9_-]{1,64}$/;
+/** Feedback inbox: "me" in the layout, a user or chat ID once resolved */
+const FEEDBACK_INBOX = /^(me|-?\d+)$/i;
+/** Vote option IDs go into callback_data, so they're kept short */
+const VOTE_OPTION_ID = /^[A-Za-z0-9_-]{1,16}$/;
+
+/** A validated value, normalized for storage, or the reason it's rejected */
+export type ButtonCheck = { ok: true; value: string } | { ok: false; error: string };
+
+/**
+ * Checks a button label: non-empty, single line, within MAX_BUTTON_TEXT_LENGTH.
+ */
+export function validateButtonText(text: string): ButtonCheck {
+  const value = text.trim();
+  if (!value) return { ok: false, error: "Текст кнопки не может быть пустым" };
+  if (value.includes("\n")) return { ok: false, error: "Текст кнопки должен быть в одну строку" };
+  if (value.length > MAX_BUTTON_TEXT_LENGTH) {
+    return { ok: false, error: `Текст кнопки длиннее ${MAX_BUTTON_TEXT_LENGTH} символов` };
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Checks and normalizes a button value for its kind: links get a scheme,
+ * @username becomes a t.me link, texts are checked against Telegram's limits.
+ */
+export function validateButtonValue(action: ButtonAction, raw: string): ButtonCheck {
+  const value = raw.trim();
+  if (!value) return { ok: false, error: "Значение не может быть пустым" };
+
+  switch (action) {
+    case "url": {
+      const url = normalizeButtonUrl(value);
+      return url
+        ? { ok: true, value: url }
+        : { ok: false, error: "Неверная ссылка. Пример: https://example.com, t.me/channel или @username" };
+    }
+
+    case "web_app": {
+      const url = normalizeButtonUrl(value);
+      if (!url || !/^https:\/\/(t|telegram)\.me\/[^/?]+(\/[^/?]+|\?startapp)/i.test(url)) {
+        return { ok: false, error: "Нужна прямая ссылка на Mini App вида https://t.me/mybot/app" };
+      }
+      return { ok: true, value: url };
+    }
+
+    case "login_url": {
+      const url = normalizeButtonUrl(value);
+      if (!url || !url.startsWith("https://")) {
+        return { ok: false, error: "Для входа через Telegram нужна ссылка https://" };
+      }
+      return { ok: true, value: url };
+    }
+
+    case "alert":
+    case "gated_alert":
+      return value.length > MAX_ALERT_LENGTH
+        ? { ok: false, error: `Уведомление длиннее ${MAX_ALERT_LENGTH} символов` }
+        : { ok: true, value };
+
+    case "copy_text":
+      return value.length > MAX_COPY_TEXT_LENGTH
+        ? { ok: false, error: `Текст для копирования длиннее ${MAX_COPY_TEXT_LENGTH} символов` }
+        : { ok: true, value };
+
+    case "share":
+      return value.length > MAX_SHARE_TEXT_LENGTH
+        ? { ok: false, error: `Текст длиннее ${MAX_SHARE_TEXT_LENGTH} символов` }
+        : { ok: true, value };
+
+    case "start":
+      return START_PAYLOAD.test(value)
+        ? { ok: true, value }
+        : { ok: false, error: "Параметр запуска: только латиница, цифры, _ и -, до 64 символов" };
+
+    case "vote":
+      return VOTE_OPTION_ID.test(value)
+        ? { ok: true, value }
+        : { ok: false, error: "ID варианта: только латиница, цифры, _ и -, до 16 символов" };
+
+    case "feedback":
+      return FEEDBACK_INBOX.test(value)
+        ? { ok: true, value: value.toLowerCase() }
+        : { ok: false, error: "Нужен получатель: me — вам в личные сообщения, или ID чата команды" };
+
+    case "giveaway":
+      return value.length > MAX_PRIZE_LENGTH
+        ? { ok: false, error: `Описание приза длиннее ${MAX_PRIZE_LENGTH} символов` }
+        : { ok: true, value };
+  }
+}
+
+/**
+ * Whether one more button fits: into the given row, or into a new row
+ * when no row is given. Returns the reason it doesn't, or null.
+ */
+export function checkCanAddButton(buttons: MessageButton[][], row?: number): string | null {
+  const total = buttons.reduce((sum, r) => sum + r.length, 0);
+  if (total >= MAX_BUTTONS_TOTAL) return `Максимум ${MAX_BUTTONS_TOTAL} кнопок`;
+  if (row !== undefined && (buttons[row]?.length ?? 0) >= MAX_BUTTONS_PER_ROW) {
+    return `В ряду уже ${MAX_BUTTONS_PER_ROW} кнопок — добавьте новый ряд`;
+  }
+  return null;
+}
+
+/**
+ * Checks a whole grid: every label and value, and the size limits.
+ * Returns one message per problem, naming the row and button.
+ */
+export function validateButtonGrid(buttons: MessageButton[][]): string[] {
+  const errors: string[] = [];
+  let total = 0;
+  let giveaways = 0;
+
+  buttons.forEach((row, r) => {
+    total += row.length;
+    if (row.length > MAX_BUTTONS_PER_ROW) {
+      errors.push(`Ряд ${r + 1}: больше ${MAX_BUTTONS_PER_ROW} кнопок`);
+    }
+    for (const btn of row) {
+      const text = validateButtonText(btn.text);
+      const value = validateButtonValue(btn.action, btn.value);
+      for (const check of [text, value]) {
+        if (!check.ok) errors.push(`Ряд ${r + 1}, кнопка «${btn.text}»: ${check.error}`);
+      }
+      if (btn.action === "gated_alert" && !btn.gateChatId) {
+        errors.push(`Ряд ${r + 1}, кнопка «${btn.text}»: не выбран чат для проверки подписки`);
+      }
+      if (btn.action === "giveaway") giveaways++;
+      if (btn.action === "feedback" && btn.value === "me") {
+        errors.push(`Ряд ${r + 1}, кнопка «${btn.text}»: получатель сообщений не определён`);
+      }
+    }
+  });
+
+  // Participants are counted per message, so two buttons would share one giveaway
+  if (giveaways > 1) {
+    errors.push("В посте может быть только одна кнопка розыгрыша");
+  }
+
+  if (total > MAX_BUTTONS_TOTAL) {
+    errors.push(`Больше ${MAX_BUTTONS_TOTAL} кнопок`);
+  }
+  return errors;
+}
+
+/**
+ * Flags the giveaway buttons of a grid put under a message that isn't a
+ * post sent through the bot: /giveaways lists only sent posts, so such a
+ * giveaway could never be drawn.
+ */
+export function rejectGiveawayButtons(buttons: MessageButton[][]): string[] {
+  const errors: string[] = [];
+  buttons.forEach((row, r) => {
+    for (const btn of row) {
+      if (btn.action === "giveaway") {
+        errors.push(`Ряд ${r + 1}, кнопка «${btn.text}»: розыгрыш можно провести только в посте, опубликованном через бота`);
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Normalizes a link: http(s) and tg:// are kept, @username and bare
+ * "t.me/…" become t.me links, other scheme-less hosts get https://.
+ * Returns null if the value isn't a usable link.
+ */
+function normalizeButtonUrl(value: string): string | null {
+  if (/\s/.test(value)) return null;
+
+  let candidate = value;
+  if (/^@[A-Za-z0-9_]{4,32}$/.test(value)) {
+    candidate = `https://t.me/${value.slice(1)}`;
+  } else if (!/^[a-z][a-z0-9+.-]*:/i.test(value)) {
+    candidate = `https://${value}`;
+  }
+
+  try {
+    const url = new URL(candidate);
+    if (url.protocol === "tg:") return candidate;
+    if ((url.protocol === "http:" || url.protocol === "https:") && url.hostname.includes(".")) {
+      return candidate;
+    }
+  } catch {
+    // Not a URL
+  }
+  return null;
+}
@@ -0,0 +1,115 @@
+import { redis } from "../storage/redis.js";
+import type { ChatPrefs, GroupInfo } from "../types/index.js";
+
+const PREFS_KEY_PREFIX = "chat_prefs:";
+
+export const MAX_ALIAS_LENGTH = 30;
+
+/**
+ * Returns the user's picker settings (empty if never set).
+ */
+export async function getChatPrefs(userId: number): Promise<ChatPrefs> {
+  const data = await redis.get<string>(`${PREFS_KEY_PREFIX}${userId}`);
+  if (data) {
+    try {
+      return JSON.parse(data) as ChatPrefs;
+    } catch {
+      // Fall through to defaults
+    }
+  }
+  return { favorites: [], aliases: {} };
+}
+
+async function savePrefs(userId: number, prefs: ChatPrefs): Promise<void> {
+  await redis.set(`${PREFS_KEY_PREFIX}${userId}`, JSON.stringify(prefs));
+}
+
+/**
+ * Pins a chat to the top of the picker, or unpins it.
+ */
+export async function toggleFavorite(userId: number, chatId: number): Promise<ChatPrefs> {
+  const prefs = await getChatPrefs(userId);
+  prefs.favorites = prefs.favorites.includes(chatId)
+    ? prefs.favorites.filter((id) => id !== chatId)
+    : [...prefs.favorites, chatId];
+  await savePrefs(userId, prefs);
+  return prefs;
+}
+
+/**
+ * Sets the chat's alias, or removes it when none is given.
+ * The alias must already be trimmed and within MAX_ALIAS_LENGTH.
+ */
+export async function setChatAlias(userId: number, chatId: number, alias?: string): Promise<ChatPrefs> {
+  const prefs = await getChatPrefs(userId);
+  if (alias) {
+    prefs.aliases[String(chatId)] = alias;
+  } else {
+    delete prefs.aliases[String(chatId)];
+  }
+  await savePrefs(userId, prefs);
+  return prefs;
+}
+
+/**
+ * Makes the chat the default target, or clears the default if it already is.
+ */
+export async function toggleDefaultChat(userId: number, chatId: number): Promise<ChatPrefs> {
+  const prefs = await getChatPrefs(userId);
+  prefs.defaultChatId = prefs.defaultChatId === chatId ? undefined : chatId;
+  await savePrefs(userId, prefs);
+  return prefs;
+}
+
+/**
+ * Moves the user's settings for a chat to its new ID after a group was
+ * upgraded to a supergroup.
+ */
+export async function migrateChatPrefs(userId: number, oldChatId: number, newChatId: number): Promise<void> {
+  const prefs = await getChatPrefs(userId);
+  let changed = false;
+
+  if (prefs.favorites.includes(oldChatId)) {
+    prefs.favorites = prefs.favorites.map((id) => (id === oldChatId ? newChatId : id));
+    changed = true;
+  }
+  const alias = prefs.aliases[String(oldChatId)];
+  if (alias) {
+    delete prefs.aliases[String(oldChatId)];
+    prefs.aliases[String(newChatId)] = alias;
+    changed = true;
+  }
+  if (prefs.defaultChatId === oldChatId) {
+    prefs.defaultChatId = newChatId;
+    changed = true;
+  }
+
+  if (changed) await savePrefs(userId, prefs);
+}
+
+/** The chat's alias if set, otherwise its title */
+export function chatDisplayName(group: GroupInfo, prefs: ChatPrefs): string {
+  return prefs.aliases[String(group.chatId)] ?? group.title;
+}
+
+/**
+ * Orders chats for the picker: favorites first (in pin order), then the rest
+ * in their original order. With a search query keeps only chats whose title
+ * or alias contains it, case-insensitively.
+ */
+export function arrangeGroups(groups: GroupInfo[], prefs: ChatPrefs, search?: string): GroupInfo[] {
+  const query = search?.trim().toLowerCase();
+  const matching = query
+    ? groups.filter(
+        (g) =>
+          g.title.toLowerCase().includes(query) ||
+          !!prefs.aliases[String(g.chatId)]?.toLowerCase().includes(query),
+      )
+    : groups;
+
+  const favorites = prefs.favorites
+    .map((id) => matching.find((g) => g.chatId === id))
+    .filter((g): g is GroupInfo => !!g);
+  const rest = matching.filter((g) => !prefs.favorites.includes(g.chatId));
+  return [...favorites, ...rest];
+}
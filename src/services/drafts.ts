@@ -0,0 +1,180 @@
+import { randomBytes } from "node:crypto";
+import { redis } from "../storage/redis.js";
+import type { ComposedMessage, Draft } from "../types/index.js";
+
+const DRAFT_KEY_PREFIX = "draft:";
+/** Sorted set of a user's draft IDs scored by updatedAt */
+const USER_DRAFTS_KEY_PREFIX = "user_drafts:";
+/** Share link token → draft ID */
+const DRAFT_SHARE_KEY_PREFIX = "draft_share:";
+
+/** Prefix of /start payloads that open a shared draft */
+export const DRAFT_SHARE_START_PREFIX = "drf_";
+
+/** Max drafts per user, to keep the /drafts list usable */
+export const MAX_DRAFTS_PER_USER = 30;
+
+/** Tries to find a free random draft ID before giving up */
+const ID_ATTEMPTS = 5;
+
+/** Max length of a draft name */
+export const MAX_DRAFT_NAME_LENGTH = 50;
+
+/**
+ * Saves the message as a new draft.
+ * Returns null if the user already has MAX_DRAFTS_PER_USER drafts.
+ */
+export async function createDraft(
+  userId: number,
+  name: string,
+  message: ComposedMessage,
+): Promise<Draft | null> {
+  const key = `${USER_DRAFTS_KEY_PREFIX}${userId}`;
+  if ((await redis.zcard(key)) >= MAX_DRAFTS_PER_USER) return null;
+
+  const now = Date.now();
+  for (let attempt = 0; attempt < ID_ATTEMPTS; attempt++) {
+    const draft: Draft = {
+      id: randomBytes(6).toString("base64url"),
+      userId,
+      name,
+      message,
+      createdAt: now,
+      updatedAt: now,
+    };
+    // IDs are short; never let a collision overwrite another user's draft
+    const created = await redis.set(`${DRAFT_KEY_PREFIX}${draft.id}`, JSON.stringify(draft), { nx: true });
+    if (!created) continue;
+
+    await saveDraft(draft);
+    return draft;
+  }
+  throw new Error("Failed to allocate a draft ID");
+}
+
+/**
+ * Returns a draft by ID, or null if it doesn't exist.
+ */
+export async function getDraft(id: string): Promise<Draft | null> {
+  const data = await redis.get<string>(`${DRAFT_KEY_PREFIX}${id}`);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as Draft;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns all drafts of a user, most recently updated first.
+ * Cleans up IDs whose draft records no longer exist.
+ */
+export async function getDraftsForUser(userId: number): Promise<Draft[]> {
+  const key = `${USER_DRAFTS_KEY_PREFIX}${userId}`;
+  const ids = await redis.zrange<string[]>(key, 0, -1, { rev: true });
+  const drafts: Draft[] = [];
+
+  for (const id of ids) {
+    const draft = await getDraft(id);
+    if (draft) {
+      drafts.push(draft);
+    } else {
+      await redis.zrem(key, id);
+    }
+  }
+
+  return drafts;
+}
+
+/**
+ * Overwrites a draft's content. Returns null if it doesn't exist
+ * or belongs to another user.
+ */
+export async function updateDraft(
+  id: string,
+  userId: number,
+  message: ComposedMessage,
+): Promise<Draft | null> {
+  const draft = await getDraft(id);
+  if (!draft || draft.userId !== userId) return null;
+
+  const updated: Draft = { ...draft, message, updatedAt: Date.now() };
+  await saveDraft(updated);
+  return updated;
+}
+
+/**
+ * Copies a draft under the name "<name> (копия)".
+ * Returns null if it doesn't exist, belongs to another user or the limit is reached.
+ */
+export async function duplicateDraft(id: string, userId: number): Promise<Draft | null> {
+  const draft = await getDraft(id);
+  if (!draft || draft.userId !== userId) return null;
+
+  const name = `${draft.name} (копия)`.slice(0, MAX_DRAFT_NAME_LENGTH);
+  return createDraft(userId, name, draft.message);
+}
+
+/**
+ * Deletes a draft. Returns false if it doesn't exist or belongs to another user.
+ */
+export async function deleteDraft(id: string, userId: number): Promise<boolean> {
+  const draft = await getDraft(id);
+  if (!draft || draft.userId !== userId) return false;
+
+  await redis.del(`${DRAFT_KEY_PREFIX}${id}`);
+  if (draft.shareToken) {
+    await redis.del(`${DRAFT_SHARE_KEY_PREFIX}${draft.shareToken}`);
+  }
+  await redis.zrem(`${USER_DRAFTS_KEY_PREFIX}${userId}`, id);
+  return true;
+}
+
+/**
+ * Returns the share link token of a draft, creating it on first use.
+ * Returns null if the draft doesn't exist or belongs to another user.
+ */
+export async function shareDraft(id: string, userId: number): Promise<string | null> {
+  const draft = await getDraft(id);
+  if (!draft || draft.userId !== userId) return null;
+  if (draft.shareToken) return draft.shareToken;
+
+  const shareToken = randomBytes(9).toString("base64url");
+  await redis.set(`${DRAFT_SHARE_KEY_PREFIX}${shareToken}`, id);
+  // Not saveDraft(): sharing shouldn't move the draft to the top of the list
+  await redis.set(`${DRAFT_KEY_PREFIX}${id}`, JSON.stringify({ ...draft, shareToken }));
+  return shareToken;
+}
+
+/**
+ * Revokes a draft's share link. Returns false if the draft doesn't exist
+ * or belongs to another user.
+ */
+export async function unshareDraft(id: string, userId: number): Promise<boolean> {
+  const draft = await getDraft(id);
+  if (!draft || draft.userId !== userId) return false;
+  if (!draft.shareToken) return true;
+
+  await redis.del(`${DRAFT_SHARE_KEY_PREFIX}${draft.shareToken}`);
+  await redis.set(`${DRAFT_KEY_PREFIX}${id}`, JSON.stringify({ ...draft, shareToken: undefined }));
+  return true;
+}
+
+/**
+ * Resolves a share link token to its draft, or null if the link was revoked
+ * or the draft deleted.
+ */
+export async function getSharedDraft(token: string): Promise<Draft | null> {
+  const id = await redis.get<string>(`${DRAFT_SHARE_KEY_PREFIX}${token}`);
+  if (!id) return null;
+  const draft = await getDraft(id);
+  return draft && draft.shareToken === token ? draft : null;
+}
+
+async function saveDraft(draft: Draft): Promise<void> {
+  await redis.set(`${DRAFT_KEY_PREFIX}${draft.id}`, JSON.stringify(draft));
+  await redis.zadd(`${USER_DRAFTS_KEY_PREFIX}${draft.userId}`, {
+    score: draft.updatedAt,
+    member: draft.id,
+  });
+}
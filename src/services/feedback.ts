@@ -0,0 +1,138 @@
+import { randomBytes } from "node:crypto";
+import { redis } from "../storage/redis.js";
+import type { GroupInfo, MessageButton } from "../types/index.js";
+import { getChatRecord, getGroupsForUser } from "./groups.js";
+
+/** Deep link token → chat that receives the messages (author's DM or a team chat) */
+const FEEDBACK_TOKEN_KEY_PREFIX = "feedback_token:";
+/** Inbox chat ID → its deep link token, so every post to one inbox shares a link */
+const FEEDBACK_INBOX_KEY_PREFIX = "feedback_inbox:";
+/** A conversation between a user and an inbox */
+const FEEDBACK_THREAD_KEY_PREFIX = "feedback_thread:";
+/** "chatId:messageId" of a relayed message → its thread, to route replies */
+const FEEDBACK_MESSAGE_KEY_PREFIX = "feedback_msg:";
+
+/** Threads and their messages can be replied to this long, in seconds */
+const FEEDBACK_TTL = 30 * 86_400;
+
+/** Prefix of /start payloads that open a conversation */
+export const FEEDBACK_START_PREFIX = "fb_";
+
+/** A user's conversation with the inbox of a post */
+export interface FeedbackThread {
+  id: string;
+  /** The user who wrote in; replies from the inbox go to their DM */
+  userId: number;
+  /** Name shown to the inbox */
+  userName: string;
+  username?: string;
+  inboxChatId: number;
+  /** Deep link token the user came by, to write again */
+  token: string;
+  createdAt: number;
+}
+
+/**
+ * Returns the deep link token of an inbox, creating it on first use. The
+ * token is random, so the link doesn't reveal the author's ID or the chat.
+ */
+export async function feedbackToken(inboxChatId: number): Promise<string> {
+  const inboxKey = `${FEEDBACK_INBOX_KEY_PREFIX}${inboxChatId}`;
+  const existing = await redis.get<string>(inboxKey);
+  if (existing) return existing;
+
+  const token = randomBytes(9).toString("base64url");
+  // Two keyboards built at once may both get here; the first token wins
+  const created = await redis.set(inboxKey, token, { nx: true });
+  if (!created) return (await redis.get<string>(inboxKey))!;
+
+  await redis.set(`${FEEDBACK_TOKEN_KEY_PREFIX}${token}`, String(inboxChatId));
+  return token;
+}
+
+/**
+ * Resolves a deep link token to its inbox chat, or null if it's unknown.
+ */
+export async function resolveFeedbackToken(token: string): Promise<number | null> {
+  const inbox = await redis.get<string>(`${FEEDBACK_TOKEN_KEY_PREFIX}${token}`);
+  return inbox ? Number(inbox) : null;
+}
+
+/**
+ * Starts a conversation of a user with an inbox.
+ */
+export async function createFeedbackThread(
+  data: Omit<FeedbackThread, "id" | "createdAt">,
+): Promise<FeedbackThread> {
+  const thread: FeedbackThread = { ...data, id: crypto.randomUUID().slice(0, 8), createdAt: Date.now() };
+  await redis.set(`${FEEDBACK_THREAD_KEY_PREFIX}${thread.id}`, JSON.stringify(thread), { ex: FEEDBACK_TTL });
+  return thread;
+}
+
+/**
+ * Returns a conversation by ID, or null if it expired.
+ */
+export async function getFeedbackThread(id: string): Promise<FeedbackThread | null> {
+  const data = await redis.get<string>(`${FEEDBACK_THREAD_KEY_PREFIX}${id}`);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as FeedbackThread;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remembers that a message the bot sent belongs to a conversation, so a
+ * reply to it is relayed to the other side. Also keeps the thread alive.
+ */
+export async function linkFeedbackMessage(chatId: number, messageId: number, threadId: string): Promise<void> {
+  await redis.set(`${FEEDBACK_MESSAGE_KEY_PREFIX}${chatId}:${messageId}`, threadId, { ex: FEEDBACK_TTL });
+  await redis.expire(`${FEEDBACK_THREAD_KEY_PREFIX}${threadId}`, FEEDBACK_TTL);
+}
+
+/**
+ * Returns the conversation a bot message belongs to, or null.
+ */
+export async function getThreadByMessage(chatId: number, messageId: number): Promise<FeedbackThread | null> {
+  const threadId = await redis.get<string>(`${FEEDBACK_MESSAGE_KEY_PREFIX}${chatId}:${messageId}`);
+  return threadId ? getFeedbackThread(threadId) : null;
+}
+
+/**
+ * Returns the user's linked chats that can be a team inbox: groups and
+ * supergroups. A channel can't be one, since the team replies from the inbox.
+ */
+export async function getInboxChats(userId: number): Promise<GroupInfo[]> {
+  const inboxes: GroupInfo[] = [];
+  for (const group of await getGroupsForUser(userId)) {
+    const record = await getChatRecord(group.chatId);
+    if (record && record.type !== "channel") inboxes.push(group);
+  }
+  return inboxes;
+}
+
+/**
+ * Resolves the inboxes of feedback buttons from a pasted layout, in place:
+ * "me" becomes the author's ID, and any other chat must be one of the
+ * author's linked groups, so messages can't be sent into someone else's
+ * chat or a channel. Returns one message per rejected button.
+ */
+export async function resolveFeedbackInboxes(buttons: MessageButton[][], authorId: number): Promise<string[]> {
+  const errors: string[] = [];
+  let chatIds: Set<number> | undefined;
+
+  for (const btn of buttons.flat()) {
+    if (btn.action !== "feedback") continue;
+    if (btn.value === "me" || Number(btn.value) === authorId) {
+      btn.value = String(authorId);
+      continue;
+    }
+
+    chatIds ??= new Set((await getInboxChats(authorId)).map((g) => g.chatId));
+    if (!chatIds.has(Number(btn.value))) {
+      errors.push(`Кнопка «${btn.text}» — ${btn.value} не подключённая группа: укажите «ask: me» или ID своей группы`);
+    }
+  }
+  return errors;
+}
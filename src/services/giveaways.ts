@@ -0,0 +1,263 @@
+import { createHash, randomBytes } from "node:crypto";
+import { redis } from "../storage/redis.js";
+import type { MessageButton } from "../types/index.js";
+
+/** State of the giveaway of a published message */
+const GIVEAWAY_KEY_PREFIX = "giveaway:";
+/** Hash: user ID → participant (name for the results), in order of entry */
+const GIVEAWAY_ENTRIES_KEY_PREFIX = "giveaway_entries:";
+/** Held while a draw runs, so a double click can't draw twice */
+const GIVEAWAY_DRAW_LOCK_KEY_PREFIX = "giveaway_draw:";
+
+/** Lock expiry in case the draw dies midway, in seconds */
+const DRAW_LOCK_TTL = 30;
+
+/** Most winners one draw can pick; the results message lists them all */
+export const MAX_GIVEAWAY_WINNERS = 20;
+
+/** A user who entered the giveaway */
+export interface GiveawayParticipant {
+  userId: number;
+  name: string;
+  username?: string;
+}
+
+/** Outcome of a draw, kept to show it again */
+export interface GiveawayResult {
+  /** Random seed revealed with the results */
+  seed: string;
+  /** SHA-256 of the draw list (see getDrawList()) the draw used */
+  participantsHash: string;
+  participants: number;
+  winners: GiveawayParticipant[];
+  /** Drawn participants who left the chat while membership is required */
+  skipped: number;
+  drawnAt: number;
+}
+
+/** Giveaway of a published message with a giveaway button */
+export interface Giveaway {
+  prize: string;
+  /** Entries are no longer accepted */
+  closed: boolean;
+  /** Only members of the post's chat can enter and win */
+  requireMember: boolean;
+  winnersCount: number;
+  /** Set when entries close; its SHA-256 is shown before the draw */
+  seed?: string;
+  result?: GiveawayResult;
+  /** The results message posted as a reply to the giveaway post */
+  resultMessageId?: number;
+}
+
+function messageKey(chatId: number, messageId: number): string {
+  return `${chatId}:${messageId}`;
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Records the grid a published message now carries. The first giveaway
+ * button starts a giveaway; editing its prize keeps the participants. A
+ * grid without one (or an empty one, when the message is deleted) drops
+ * the giveaway with its participants.
+ */
+export async function setMessageGiveaway(
+  chatId: number,
+  messageId: number,
+  buttons: MessageButton[][],
+): Promise<void> {
+  const key = messageKey(chatId, messageId);
+  const button = buttons.flat().find((btn) => btn.action === "giveaway");
+  if (!button) {
+    await redis.del(`${GIVEAWAY_KEY_PREFIX}${key}`, `${GIVEAWAY_ENTRIES_KEY_PREFIX}${key}`);
+    return;
+  }
+
+  const current = await getGiveaway(chatId, messageId);
+  const giveaway: Giveaway = current
+    ? { ...current, prize: button.value }
+    : { prize: button.value, closed: false, requireMember: false, winnersCount: 1 };
+  await saveGiveaway(chatId, messageId, giveaway);
+}
+
+/**
+ * Returns the giveaway of a message, or null if it has none.
+ */
+export async function getGiveaway(chatId: number, messageId: number): Promise<Giveaway | null> {
+  const data = await redis.get<string>(`${GIVEAWAY_KEY_PREFIX}${messageKey(chatId, messageId)}`);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as Giveaway;
+  } catch {
+    return null;
+  }
+}
+
+async function saveGiveaway(chatId: number, messageId: number, giveaway: Giveaway): Promise<void> {
+  await redis.set(`${GIVEAWAY_KEY_PREFIX}${messageKey(chatId, messageId)}`, JSON.stringify(giveaway));
+}
+
+/**
+ * Registers a participant. Returns false if the user already entered.
+ */
+export async function addParticipant(
+  chatId: number,
+  messageId: number,
+  participant: GiveawayParticipant,
+): Promise<boolean> {
+  const added = await redis.hsetnx(
+    `${GIVEAWAY_ENTRIES_KEY_PREFIX}${messageKey(chatId, messageId)}`,
+    String(participant.userId),
+    JSON.stringify(participant),
+  );
+  return added === 1;
+}
+
+/**
+ * Returns the number of participants of a message's giveaway.
+ */
+export async function getParticipantCount(chatId: number, messageId: number): Promise<number> {
+  return redis.hlen(`${GIVEAWAY_ENTRIES_KEY_PREFIX}${messageKey(chatId, messageId)}`);
+}
+
+async function getParticipants(chatId: number, messageId: number): Promise<GiveawayParticipant[]> {
+  const entries = await redis.hgetall<Record<string, string>>(
+    `${GIVEAWAY_ENTRIES_KEY_PREFIX}${messageKey(chatId, messageId)}`,
+  );
+  const participants: GiveawayParticipant[] = [];
+  for (const data of Object.values(entries ?? {})) {
+    try {
+      participants.push(JSON.parse(data) as GiveawayParticipant);
+    } catch {
+      // Skip a broken entry rather than block the draw
+    }
+  }
+  return participants;
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Management: entries, conditions and the draw
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Changes the settings of a giveaway that hasn't been drawn yet.
+ * Closing entries fixes the seed of the draw; reopening them discards it.
+ * Returns the updated giveaway, or null if it's gone or already drawn.
+ */
+export async function updateGiveaway(
+  chatId: number,
+  messageId: number,
+  changes: Partial<Pick<Giveaway, "closed" | "requireMember" | "winnersCount">>,
+): Promise<Giveaway | null> {
+  const giveaway = await getGiveaway(chatId, messageId);
+  if (!giveaway || giveaway.result) return null;
+
+  const updated: Giveaway = { ...giveaway, ...changes };
+  updated.winnersCount = Math.min(Math.max(updated.winnersCount, 1), MAX_GIVEAWAY_WINNERS);
+  if (updated.closed && !updated.seed) {
+    updated.seed = randomBytes(16).toString("hex");
+  } else if (!updated.closed) {
+    updated.seed = undefined;
+  }
+
+  await saveGiveaway(chatId, messageId, updated);
+  return updated;
+}
+
+/** SHA-256 of the seed, shown once entries close so the draw can be checked later */
+export function seedCommitment(seed: string): string {
+  return sha256(seed);
+}
+
+/**
+ * Orders participants for the draw: by their rank, the SHA-256 of
+ * "seed:user ID". Anyone with the seed and a user ID can compute the rank.
+ */
+function drawOrder(seed: string, participants: GiveawayParticipant[]): { p: GiveawayParticipant; rank: string }[] {
+  return participants
+    .map((p) => ({ p, rank: sha256(`${seed}:${p.userId}`) }))
+    .sort((a, b) => (a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0));
+}
+
+/** The draw list joined for hashing and publishing, one rank per line */
+function joinDrawList(ranks: string[]): string {
+  return ranks.join("\n");
+}
+
+/**
+ * The draw list published with the results: the ranks of all participants
+ * in draw order. It shows no user IDs, yet each participant can find their
+ * own line, and anyone can check that the winners' lines come first.
+ */
+export async function getDrawList(chatId: number, messageId: number, seed: string): Promise<string> {
+  const participants = await getParticipants(chatId, messageId);
+  return joinDrawList(drawOrder(seed, participants).map(({ rank }) => rank));
+}
+
+/**
+ * Draws the winners of a giveaway: closes entries if they're still open,
+ * then takes participants in draw order, skipping those isEligible()
+ * rejects, until the winners count is reached. The result is saved, so a
+ * giveaway is drawn once. Returns null if it's gone, already drawn or
+ * being drawn right now.
+ * Errors of isEligible() abort the draw; entries stay closed with the same seed.
+ */
+export async function drawGiveaway(
+  chatId: number,
+  messageId: number,
+  isEligible: (userId: number) => Promise<boolean>,
+): Promise<{ giveaway: Giveaway; result: GiveawayResult } | null> {
+  const lockKey = `${GIVEAWAY_DRAW_LOCK_KEY_PREFIX}${messageKey(chatId, messageId)}`;
+  const locked = await redis.set(lockKey, "1", { nx: true, ex: DRAW_LOCK_TTL });
+  if (!locked) return null;
+
+  try {
+    const giveaway = await updateGiveaway(chatId, messageId, { closed: true });
+    if (!giveaway) return null;
+    const seed = giveaway.seed!;
+
+    const participants = await getParticipants(chatId, messageId);
+    const order = drawOrder(seed, participants);
+
+    const winners: GiveawayParticipant[] = [];
+    let skipped = 0;
+    for (const { p: participant } of order) {
+      if (winners.length >= giveaway.winnersCount) break;
+      if (await isEligible(participant.userId)) {
+        winners.push(participant);
+      } else {
+        skipped++;
+      }
+    }
+
+    const result: GiveawayResult = {
+      seed,
+      participantsHash: sha256(joinDrawList(order.map(({ rank }) => rank))),
+      participants: participants.length,
+      winners,
+      skipped,
+      drawnAt: Date.now(),
+    };
+    const drawn: Giveaway = { ...giveaway, result };
+    await saveGiveaway(chatId, messageId, drawn);
+    return { giveaway: drawn, result };
+  } finally {
+    await redis.del(lockKey);
+  }
+}
+
+/**
+ * Remembers the message the results were published in.
+ */
+export async function setGiveawayResultMessage(
+  chatId: number,
+  messageId: number,
+  resultMessageId: number,
+): Promise<void> {
+  const giveaway = await getGiveaway(chatId, messageId);
+  if (!giveaway) return;
+  await saveGiveaway(chatId, messageId, { ...giveaway, resultMessageId });
+}
@@ -1,26 +1,264 @@
 import type { Api } from "grammy";
-import { redis } from "../storage/redis.js";
-import type { GroupInfo } from "../types/index.js";
+import type { ChatMember } from "grammy/types";
+import { redis, updateStoredSession } from "../storage/redis.js";
+import type { ChatRecord, GroupInfo, SendTarget } from "../types/index.js";
+import { getForumTopicName } from "./topics.js";
 
+/** Per-user cache of the last resolved chat list (see getVerifiedGroupsForUser) */
 const GROUP_KEY_PREFIX = "user_groups:";
+/** Chat-centric index: one record per chat the bot is in */
+const CHAT_KEY_PREFIX = "chat:";
+/** Set of all chat IDs with a record */
+const KNOWN_CHATS_KEY = "known_chats";
+/** Reverse index: set of user IDs whose cached list includes the chat */
+const CHAT_USERS_KEY_PREFIX = "chat_users:";
+/** Set of chat IDs that may be the user's: chats they linked or whose admin list had them */
+const USER_CHATS_KEY_PREFIX = "user_chats:";
+/** Cached IDs of the chat's admins with posting rights, as a JSON array */
+const CHAT_POSTERS_KEY_PREFIX = "chat_posters:";
+
+/** Cached membership check for gated buttons: "1" or "0" */
+const MEMBER_CACHE_KEY_PREFIX = "chat_member:";
+/** Cached link users can join a gating chat by */
+const JOIN_LINK_KEY_PREFIX = "chat_join_link:";
+
+/** How long a chat's admin list is trusted, in seconds */
+const ADMIN_CACHE_TTL = 300;
+/** How long a positive membership check is trusted, in seconds */
+const MEMBER_CACHE_TTL = 300;
+/** Negative checks expire quickly, so a user who just subscribed can retry */
+const NON_MEMBER_CACHE_TTL = 15;
+/** How long a join link is trusted, in seconds */
+const JOIN_LINK_CACHE_TTL = 3600;
+
+/** /start payload of the "add to group/channel" links in the chat picker */
+export const CHAT_LINK_START_PAYLOAD = "botstart";
+/** Prefix of /start payloads that return from a newly linked chat to the picker */
+export const LINKED_CHAT_START_PREFIX = "grp_";
+
+// ═══════════════════════════════════════════════════════════════
+//  Chat index
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Saves or updates a chat the bot is a member of (from my_chat_member updates).
+ */
+export async function saveChat(record: ChatRecord): Promise<void> {
+  await redis.set(`${CHAT_KEY_PREFIX}${record.chatId}`, JSON.stringify(record));
+  await redis.sadd(KNOWN_CHATS_KEY, String(record.chatId));
+}
+
+/**
+ * Removes a chat from the index (the bot was removed from it).
+ */
+export async function removeChat(chatId: number): Promise<void> {
+  await redis.del(`${CHAT_KEY_PREFIX}${chatId}`);
+  await redis.srem(KNOWN_CHATS_KEY, String(chatId));
+}
+
+/**
+ * Returns a chat record, or null if the chat isn't indexed.
+ */
+export async function getChatRecord(chatId: number): Promise<ChatRecord | null> {
+  const data = await redis.get<string>(`${CHAT_KEY_PREFIX}${chatId}`);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as ChatRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Updates the stored title of an indexed chat (renamed, or seen in a
+ * my_chat_member update). Titles aren't fetched when listing chats.
+ */
+export async function updateChatTitle(chatId: number, title: string): Promise<void> {
+  const record = await getChatRecord(chatId);
+  if (!record || record.title === title) return;
+  await saveChat({ ...record, title, updatedAt: Date.now() });
+}
+
+/**
+ * Returns the IDs of users whose cached list includes the chat.
+ */
+export async function getLinkedUsers(chatId: number): Promise<number[]> {
+  const ids = await redis.smembers(`${CHAT_USERS_KEY_PREFIX}${chatId}`);
+  return ids.map(Number);
+}
+
+/**
+ * Removes a chat from the index and from the list of every user linked
+ * to it (the bot was removed, regardless of who removed it).
+ */
+export async function removeChatEverywhere(chatId: number): Promise<void> {
+  for (const userId of await getLinkedUsers(chatId)) {
+    await removeGroupForUser(userId, chatId);
+    await redis.srem(`${USER_CHATS_KEY_PREFIX}${userId}`, String(chatId));
+  }
+  await redis.del(`${CHAT_USERS_KEY_PREFIX}${chatId}`);
+  await redis.del(`${CHAT_POSTERS_KEY_PREFIX}${chatId}`);
+  await removeChat(chatId);
+}
+
+/**
+ * Moves a group that was upgraded to a supergroup to its new ID: the chat
+ * record, every linked user's cached list and the reverse index, and the
+ * chat selection in their in-flight sessions.
+ * Returns the linked users, so callers can re-key their own data.
+ */
+export async function migrateChat(oldChatId: number, newChatId: number): Promise<number[]> {
+  const userIds = await getLinkedUsers(oldChatId);
+
+  const record = await getChatRecord(oldChatId);
+  if (record) {
+    await saveChat({ ...record, chatId: newChatId, type: "supergroup", updatedAt: Date.now() });
+  }
+  await removeChat(oldChatId);
+
+  for (const userId of userIds) {
+    const key = `${GROUP_KEY_PREFIX}${userId}`;
+    const groups = await getGroupsForUser(userId);
+    if (groups.some((g) => g.chatId === oldChatId)) {
+      const migrated = groups
+        .filter((g) => g.chatId !== newChatId)
+        .map((g) => (g.chatId === oldChatId ? { ...g, chatId: newChatId } : g));
+      await redis.set(key, JSON.stringify(migrated));
+    }
+    await redis.sadd(`${CHAT_USERS_KEY_PREFIX}${newChatId}`, String(userId));
+    await redis.srem(`${USER_CHATS_KEY_PREFIX}${userId}`, String(oldChatId));
+    await redis.sadd(`${USER_CHATS_KEY_PREFIX}${userId}`, String(newChatId));
+
+    // Private chat sessions are keyed by the user ID
+    await updateStoredSession(String(userId), (session) => {
+      if (session.targetGroupIds?.includes(oldChatId)) {
+        session.targetGroupIds = [
+          ...new Set(session.targetGroupIds.map((id) => (id === oldChatId ? newChatId : id))),
+        ];
+      }
+    });
+  }
+  await redis.del(`${CHAT_USERS_KEY_PREFIX}${oldChatId}`);
+  await redis.del(`${CHAT_POSTERS_KEY_PREFIX}${oldChatId}`);
+
+  return userIds;
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Per-user access
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Whether a chat member may publish: the owner, or an administrator —
+ * in channels only with the "post messages" right.
+ */
+function hasPostingRights(member: ChatMember, chatType: ChatRecord["type"]): boolean {
+  if (member.status === "creator") return true;
+  if (member.status !== "administrator") return false;
+  return chatType !== "channel" || !!member.can_post_messages;
+}
+
+/** Telegram errors meaning the bot itself is no longer in the chat */
+function isBotGoneError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /chat not found|bot was kicked|bot is not a member|CHANNEL_PRIVATE/i.test(message);
+}
+
+/**
+ * Adds an indexed chat to the user's candidates, so getVerifiedGroupsForUser()
+ * checks it (the user linked it, or showed up in the bot's chat).
+ */
+export async function addChatCandidate(userId: number, chatId: number): Promise<void> {
+  await redis.sadd(`${USER_CHATS_KEY_PREFIX}${userId}`, String(chatId));
+}
+
+/**
+ * Returns the IDs of the chat's admins with posting rights, from one
+ * getChatAdministrators call cached for ADMIN_CACHE_TTL seconds. For an
+ * indexed chat each of them gets it as a candidate, so admins who didn't
+ * add the bot find the chat too. Throws if the bot can't see the chat.
+ */
+async function getChatPosters(api: Api, chatId: number, fresh: boolean): Promise<number[]> {
+  const cacheKey = `${CHAT_POSTERS_KEY_PREFIX}${chatId}`;
+  if (!fresh) {
+    const cached = await redis.get<string>(cacheKey);
+    if (cached !== null) {
+      try {
+        return JSON.parse(cached) as number[];
+      } catch {
+        // Corrupted entry, fetch the list again
+      }
+    }
+  }
+
+  const record = await getChatRecord(chatId);
+  const chatType = record?.type ?? (await api.getChat(chatId)).type;
+  if (chatType === "private") return [];
+
+  const posters = (await api.getChatAdministrators(chatId))
+    .filter((member) => !member.user.is_bot && hasPostingRights(member, chatType))
+    .map((member) => member.user.id);
+  await redis.set(cacheKey, JSON.stringify(posters), { ex: ADMIN_CACHE_TTL });
+
+  if (record) {
+    for (const userId of posters) {
+      await addChatCandidate(userId, chatId);
+    }
+  }
+  return posters;
+}
 
 /**
- * Saves a group/channel association for a user (when bot is added to a group or channel).
- * Deduplicates by chatId.
+ * Checks whether the user is an admin of the chat with posting rights.
+ * The chat's admin list is cached for ADMIN_CACHE_TTL seconds, so a demoted
+ * admin loses access within that time.
+ *
+ * @param fresh - skip the cache (e.g. on "refresh list")
  */
-export async function addGroupForUser(
+export async function canUserPost(
+  api: Api,
+  chatId: number,
   userId: number,
-  group: GroupInfo,
-): Promise<void> {
-  const key = `${GROUP_KEY_PREFIX}${userId}`;
-  const existing = await getGroupsForUser(userId);
-  const filtered = existing.filter((g) => g.chatId !== group.chatId);
-  filtered.push(group);
-  await redis.set(key, JSON.stringify(filtered));
+  fresh = false,
+): Promise<boolean> {
+  try {
+    return (await getChatPosters(api, chatId, fresh)).includes(userId);
+  } catch (error) {
+    if (isBotGoneError(error)) {
+      await removeChatEverywhere(chatId);
+    } else {
+      console.error(`Failed to check admin rights of ${userId} in ${chatId}:`, error);
+    }
+    return false;
+  }
+}
+
+/**
+ * canUserPost() for several chats at once: cached admin lists (e.g. from
+ * getVerifiedGroupsForUser()) are read in one request, and only chats
+ * without one are checked one by one. Returns the chats where the user may
+ * publish.
+ */
+export async function getChatsUserCanPost(api: Api, chatIds: number[], userId: number): Promise<Set<number>> {
+  const allowed = new Set<number>();
+  if (chatIds.length === 0) return allowed;
+
+  const cached = await redis.mget<(string | null)[]>(...chatIds.map((id) => `${CHAT_POSTERS_KEY_PREFIX}${id}`));
+  for (const [i, chatId] of chatIds.entries()) {
+    let posters: number[] | null = null;
+    try {
+      posters = cached[i] ? (JSON.parse(cached[i]!) as number[]) : null;
+    } catch {
+      // Corrupted entry, check the chat below
+    }
+    const canPost = posters ? posters.includes(userId) : await canUserPost(api, chatId, userId);
+    if (canPost) allowed.add(chatId);
+  }
+  return allowed;
 }
 
 /**
- * Removes a group/channel association for a user (when bot is removed from a group or channel).
+ * Removes a group/channel from a user's cached list (when bot is removed from a group or channel).
  */
 export async function removeGroupForUser(
   userId: number,
@@ -34,10 +272,12 @@ export async function removeGroupForUser(
   } else {
     await redis.del(key);
   }
+  await redis.srem(`${CHAT_USERS_KEY_PREFIX}${chatId}`, String(userId));
 }
 
 /**
- * Returns all groups/channels where a user has added this bot as admin.
+ * Returns the user's chats as of the last getVerifiedGroupsForUser() call.
+ * Cheap read for screens that re-render during selection.
  */
 export async function getGroupsForUser(userId: number): Promise<GroupInfo[]> {
   const key = `${GROUP_KEY_PREFIX}${userId}`;
@@ -51,49 +291,157 @@ export async function getGroupsForUser(userId: number): Promise<GroupInfo[]> {
 }
 
 /**
- * Returns verified groups/channels for a user. Checks that the bot is still a member
- * of each chat and removes stale entries (e.g. groups upgraded to supergroups
- * get a new chat ID, leaving orphaned entries).
+ * Resolves the chats the user can publish to: those of their candidates
+ * (chats they linked, chats whose admin list had them, their previous list)
+ * where they are an admin with posting rights, regardless of who added the
+ * bot. Titles come from the chat index. Caches the result for
+ * getGroupsForUser().
+ *
+ * @param fresh - re-check admin rights instead of using cached checks
  */
 export async function getVerifiedGroupsForUser(
   userId: number,
   api: Api,
   botId: number,
+  fresh = false,
 ): Promise<GroupInfo[]> {
-  const groups = await getGroupsForUser(userId);
-  if (groups.length === 0) return [];
+  await migrateLegacyGroups(userId, api, botId);
+  const previous = await getGroupsForUser(userId);
 
-  const verified: GroupInfo[] = [];
+  const candidatesKey = `${USER_CHATS_KEY_PREFIX}${userId}`;
+  const candidates = new Set([
+    ...(await redis.smembers(candidatesKey)),
+    ...previous.map((g) => String(g.chatId)),
+  ]);
+
+  const allowed: GroupInfo[] = [];
+  for (const id of candidates) {
+    const chat = await getChatRecord(Number(id));
+    if (!chat) {
+      // The bot has left the chat since
+      await redis.srem(candidatesKey, id);
+      continue;
+    }
+    if (!(await canUserPost(api, chat.chatId, userId, fresh))) continue;
+    allowed.push({ chatId: chat.chatId, title: chat.title });
+  }
+
+  const key = `${GROUP_KEY_PREFIX}${userId}`;
+  if (allowed.length > 0) {
+    await redis.set(key, JSON.stringify(allowed));
+  } else {
+    await redis.del(key);
+  }
+
+  // Keep the reverse index in sync with the cached list
+  for (const group of allowed) {
+    await redis.sadd(`${CHAT_USERS_KEY_PREFIX}${group.chatId}`, String(userId));
+  }
+  for (const group of previous) {
+    if (allowed.some((g) => g.chatId === group.chatId)) continue;
+    await redis.srem(`${CHAT_USERS_KEY_PREFIX}${group.chatId}`, String(userId));
+  }
+
+  return allowed;
+}
+
+/**
+ * Moves chats from the user's list saved before the chat index existed
+ * into the index, if the bot is still a member there.
+ */
+async function migrateLegacyGroups(userId: number, api: Api, botId: number): Promise<void> {
+  for (const group of await getGroupsForUser(userId)) {
+    if (await redis.sismember(KNOWN_CHATS_KEY, String(group.chatId))) continue;
 
-  for (const group of groups) {
     try {
       const member = await api.getChatMember(group.chatId, botId);
-      if (member.status === "administrator" || member.status === "member" || member.status === "creator") {
-        // Also refresh the title while we're at it
-        try {
-          const chat = await api.getChat(group.chatId);
-          if ("title" in chat && chat.title) {
-            group.title = chat.title;
-          }
-        } catch {
-          // Title refresh failed, keep existing title
-        }
-        verified.push(group);
-      }
+      if (member.status !== "administrator" && member.status !== "member" && member.status !== "creator") continue;
+
+      const chat = await api.getChat(group.chatId);
+      if (chat.type === "private") continue;
+      await saveChat({
+        chatId: chat.id,
+        title: chat.title ?? group.title,
+        type: chat.type,
+        botStatus: member.status,
+        updatedAt: Date.now(),
+      });
     } catch {
       // Bot is not in this group anymore, skip it
     }
   }
+}
 
-  // Persist cleaned-up list
-  if (verified.length !== groups.length) {
-    const key = `${GROUP_KEY_PREFIX}${userId}`;
-    if (verified.length > 0) {
-      await redis.set(key, JSON.stringify(verified));
-    } else {
-      await redis.del(key);
-    }
+/**
+ * Resolves chat IDs to the user's linked groups, keeping the given order.
+ * IDs the user no longer has linked get a generic title.
+ *
+ * @param topics - chosen forum topics (chat ID → message_thread_id), attached with their names
+ */
+export async function resolveTargetsForUser(
+  userId: number,
+  chatIds: number[],
+  topics: Record<string, number> = {},
+): Promise<SendTarget[]> {
+  const groups = await getGroupsForUser(userId);
+  const targets: SendTarget[] = [];
+  for (const chatId of chatIds) {
+    const group = groups.find((g) => g.chatId === chatId) ?? { chatId, title: `Чат ${chatId}` };
+    const threadId = topics[String(chatId)];
+    targets.push(
+      threadId
+        ? { ...group, threadId, topicName: await getForumTopicName(chatId, threadId) }
+        : group,
+    );
   }
+  return targets;
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Membership checks for gated buttons
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Checks via getChatMember whether the user is a member of the chat
+ * (owner, admin, member, or a restricted member who is still in it).
+ * Results are cached briefly; throws if the bot can't check the chat,
+ * e.g. it's not an admin of the channel.
+ */
+export async function isChatMember(api: Api, chatId: number, userId: number): Promise<boolean> {
+  const cacheKey = `${MEMBER_CACHE_KEY_PREFIX}${chatId}:${userId}`;
+  const cached = await redis.get<string>(cacheKey);
+  if (cached !== null) return cached === "1";
+
+  const member = await api.getChatMember(chatId, userId);
+  const isMember =
+    member.status === "creator" ||
+    member.status === "administrator" ||
+    member.status === "member" ||
+    (member.status === "restricted" && member.is_member);
 
-  return verified;
+  await redis.set(cacheKey, isMember ? "1" : "0", {
+    ex: isMember ? MEMBER_CACHE_TTL : NON_MEMBER_CACHE_TTL,
+  });
+  return isMember;
+}
+
+/**
+ * Returns a link users can join the chat by: its public t.me link, or the
+ * primary invite link the bot can see as an admin. Null if there is none.
+ */
+export async function getChatJoinLink(api: Api, chatId: number): Promise<string | null> {
+  const cacheKey = `${JOIN_LINK_KEY_PREFIX}${chatId}`;
+  const cached = await redis.get<string>(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const chat = await api.getChat(chatId);
+    const link = "username" in chat && chat.username ? `https://t.me/${chat.username}` : chat.invite_link;
+    if (!link) return null;
+    await redis.set(cacheKey, link, { ex: JOIN_LINK_CACHE_TTL });
+    return link;
+  } catch (error) {
+    console.error(`Failed to get a join link for ${chatId}:`, error);
+    return null;
+  }
 }
@@ -0,0 +1,195 @@
+import type { Api, InlineKeyboard } from "grammy";
+import type {
+  InlineKeyboardMarkup,
+  InputMediaAudio,
+  InputMediaDocument,
+  InputMediaPhoto,
+  InputMediaVideo,
+  Message,
+  MessageEntity,
+  ParseMode,
+} from "grammy/types";
+import { redis } from "../storage/redis.js";
+import type { MediaAttachment, MediaType } from "../types/index.js";
+
+const MEDIA_GROUP_KEY_PREFIX = "media_group:";
+
+/** Max items Telegram allows in a single media group (album) */
+export const MAX_ALBUM_SIZE = 10;
+
+/** Icon per media type, used in previews and keyboards */
+export const MEDIA_ICONS: Record<MediaType, string> = {
+  photo: "🖼",
+  video: "🎬",
+  animation: "🎞",
+  document: "📄",
+  audio: "🎵",
+};
+
+/** Human-readable (Russian) label per media type */
+export const MEDIA_LABELS: Record<MediaType, string> = {
+  photo: "Фото",
+  video: "Видео",
+  animation: "GIF",
+  document: "Документ",
+  audio: "Аудио",
+};
+
+/**
+ * Extracts an attachment from an incoming message.
+ * Animations are checked before documents: Telegram fills both fields for GIFs.
+ */
+export function extractAttachment(message: Message): MediaAttachment | undefined {
+  if (message.photo) {
+    const bestPhoto = message.photo[message.photo.length - 1];
+    return bestPhoto ? { type: "photo", fileId: bestPhoto.file_id } : undefined;
+  }
+  if (message.video) return { type: "video", fileId: message.video.file_id };
+  if (message.animation) return { type: "animation", fileId: message.animation.file_id };
+  if (message.document) return { type: "document", fileId: message.document.file_id };
+  if (message.audio) return { type: "audio", fileId: message.audio.file_id };
+  return undefined;
+}
+
+/**
+ * Checks whether a media item of the given type can join an existing set.
+ * Telegram albums allow photos and videos together, documents only with
+ * documents, audio only with audio; GIFs can't be part of an album at all.
+ */
+export function canAddToAlbum(existing: MediaAttachment[], type: MediaType): boolean {
+  if (existing.length === 0) return true;
+  if (existing.length >= MAX_ALBUM_SIZE) return false;
+  if (type === "animation") return false;
+
+  const visual = (t: MediaType) => t === "photo" || t === "video";
+  return existing.every((m) => (visual(type) ? visual(m.type) : m.type === type));
+}
+
+/**
+ * Registers one item of an incoming media group and returns all items
+ * collected so far, ordered by message ID.
+ *
+ * Telegram delivers each file of an album as a separate update, and those
+ * updates may be processed concurrently, so items are accumulated in a Redis
+ * sorted set instead of the session (which would lose concurrent writes).
+ */
+export async function collectMediaGroupItem(
+  mediaGroupId: string,
+  messageId: number,
+  item: MediaAttachment,
+): Promise<{ items: MediaAttachment[]; isLatest: boolean }> {
+  const key = `${MEDIA_GROUP_KEY_PREFIX}${mediaGroupId}`;
+  await redis.zadd(key, { score: messageId, member: JSON.stringify(item) });
+  await redis.expire(key, 300);
+
+  const members = await redis.zrange<string[]>(key, 0, -1);
+  const items = members.map((m) => JSON.parse(m) as MediaAttachment);
+  return {
+    items,
+    // Only the newest item re-renders the screen to avoid a burst of previews
+    isLatest: items[items.length - 1]?.fileId === item.fileId,
+  };
+}
+
+/**
+ * Merges a media group into an existing list of attachments.
+ * Items of the same group already present are replaced in place at the end,
+ * so repeated calls for the same album are idempotent.
+ */
+export function mergeMediaGroup(
+  existing: MediaAttachment[],
+  group: MediaAttachment[],
+): MediaAttachment[] {
+  const groupIds = new Set(group.map((m) => m.fileId));
+  const base = existing.filter((m) => !groupIds.has(m.fileId));
+  return [...base, ...group].slice(0, MAX_ALBUM_SIZE);
+}
+
+/** Moves an item one position up (-1) or down (+1). Out-of-range moves are ignored. */
+export function moveItem<T>(items: T[], index: number, delta: -1 | 1): void {
+  const target = index + delta;
+  if (index < 0 || index >= items.length || target < 0 || target >= items.length) return;
+  const [item] = items.splice(index, 1);
+  items.splice(target, 0, item!);
+}
+
+/** Options shared by all single-media send methods */
+export interface MediaSendOptions {
+  caption?: string;
+  caption_entities?: MessageEntity[];
+  parse_mode?: ParseMode;
+  reply_markup?: InlineKeyboard | InlineKeyboardMarkup;
+  /** Photo, video and GIF only — ignored for documents and audio */
+  show_caption_above_media?: boolean;
+  /** Photo, video and GIF only — ignored for documents and audio */
+  has_spoiler?: boolean;
+  disable_notification?: boolean;
+  protect_content?: boolean;
+  /** Forum topic to send into */
+  message_thread_id?: number;
+}
+
+/**
+ * Sends a single media attachment with the send method matching its type.
+ */
+export async function sendSingleMedia(
+  api: Api,
+  chatId: number,
+  media: MediaAttachment,
+  options: MediaSendOptions,
+): Promise<Message> {
+  const { show_caption_above_media, has_spoiler, ...common } = options;
+  const visual = { ...common, show_caption_above_media, has_spoiler };
+
+  switch (media.type) {
+    case "photo":
+      return api.sendPhoto(chatId, media.fileId, visual);
+    case "video":
+      return api.sendVideo(chatId, media.fileId, visual);
+    case "animation":
+      return api.sendAnimation(chatId, media.fileId, visual);
+    case "document":
+      return api.sendDocument(chatId, media.fileId, common);
+    case "audio":
+      return api.sendAudio(chatId, media.fileId, common);
+  }
+}
+
+type AlbumInputMedia = InputMediaPhoto | InputMediaVideo | InputMediaDocument | InputMediaAudio;
+
+/** Per-item album fields; spoiler and caption position apply to photos and videos only */
+export interface AlbumItemOptions {
+  caption?: string;
+  caption_entities?: MessageEntity[];
+  show_caption_above_media?: boolean;
+  has_spoiler?: boolean;
+}
+
+/**
+ * Converts an attachment to an album item. GIFs can't be part of an album,
+ * so callers must check canAddToAlbum() when building the set.
+ */
+export function toInputMedia(
+  media: MediaAttachment,
+  options: AlbumItemOptions = {},
+): AlbumInputMedia {
+  const { show_caption_above_media, has_spoiler, ...common } = options;
+  const base = { media: media.fileId, ...common };
+  switch (media.type) {
+    case "photo":
+      return { type: "photo", ...base, show_caption_above_media, has_spoiler };
+    case "video":
+      return { type: "video", ...base, show_caption_above_media, has_spoiler };
+    case "document":
+      return { type: "document", ...base };
+    case "audio":
+      return { type: "audio", ...base };
+    case "animation":
+      throw new Error("Animations can't be sent as part of an album");
+  }
+}
+
+/** Whether spoilers and caption position apply to at least one attached file */
+export function supportsVisualOptions(media: MediaAttachment[]): boolean {
+  return media.some((m) => m.type === "photo" || m.type === "video" || m.type === "animation");
+}
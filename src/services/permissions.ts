@@ -0,0 +1,193 @@
+import type { Api } from "grammy";
+import type { ChatPermissions } from "grammy/types";
+import { redis } from "../storage/redis.js";
+import type { ComposedMessage, MediaType } from "../types/index.js";
+import { requireEnv } from "../utils/env.js";
+import { MEDIA_LABELS } from "./media.js";
+
+/** Cached bot rights per chat */
+const RIGHTS_KEY_PREFIX = "bot_rights:";
+
+/** How long computed rights are trusted, in seconds. my_chat_member updates invalidate earlier */
+const RIGHTS_CACHE_TTL = 300;
+
+/** What the bot can do in a chat, derived from its membership and the chat's permissions */
+export interface BotRights {
+  chatType: "group" | "supergroup" | "channel";
+  /** The bot is in the chat (as admin, member or restricted member) */
+  isMember: boolean;
+  isAdmin: boolean;
+  /** Can publish posts at all */
+  canPost: boolean;
+  /** Can edit published posts and attach buttons (channels: "Edit messages" right) */
+  canEdit: boolean;
+  /** Can delete messages regardless of age ("Delete messages" right) */
+  canDelete: boolean;
+  /** Media kinds the bot may send; groups can forbid them for members */
+  media: Record<MediaType, boolean>;
+}
+
+/** Chat permission that governs each media type for non-admin members */
+const MEDIA_PERMISSIONS: Record<MediaType, keyof ChatPermissions> = {
+  photo: "can_send_photos",
+  video: "can_send_videos",
+  animation: "can_send_other_messages",
+  document: "can_send_documents",
+  audio: "can_send_audios",
+};
+
+function allMedia(allowed: boolean): Record<MediaType, boolean> {
+  return { photo: allowed, video: allowed, animation: allowed, document: allowed, audio: allowed };
+}
+
+/**
+ * Returns the bot's rights in a chat. Computed from getChatMember for the
+ * bot and, for non-admin bots in groups, the chat's default permissions.
+ * Results are cached; throws if the chat can't be queried at all.
+ */
+export async function getBotRights(api: Api, chatId: number): Promise<BotRights> {
+  const cacheKey = `${RIGHTS_KEY_PREFIX}${chatId}`;
+  const cached = await redis.get<string>(cacheKey);
+  if (cached) {
+    try {
+      return JSON.parse(cached) as BotRights;
+    } catch {
+      // Recompute below
+    }
+  }
+
+  const chat = await api.getChat(chatId);
+  if (chat.type === "private") {
+    throw new Error("Private chats have no bot rights");
+  }
+  const member = await api.getChatMember(chatId, Number(requireEnv("BOT_ID")));
+
+  const rights: BotRights = {
+    chatType: chat.type,
+    isMember: false,
+    isAdmin: false,
+    canPost: false,
+    canEdit: false,
+    canDelete: false,
+    media: allMedia(false),
+  };
+
+  if (member.status === "creator") {
+    Object.assign(rights, { isMember: true, isAdmin: true, canPost: true, canEdit: true, canDelete: true });
+    rights.media = allMedia(true);
+  } else if (member.status === "administrator") {
+    const isChannel = chat.type === "channel";
+    rights.isMember = true;
+    rights.isAdmin = true;
+    // In groups admins always post and edit their own messages
+    rights.canPost = isChannel ? !!member.can_post_messages : true;
+    rights.canEdit = isChannel ? !!member.can_edit_messages : true;
+    rights.canDelete = member.can_delete_messages;
+    rights.media = allMedia(rights.canPost);
+  } else if ((member.status === "member" || member.status === "restricted") && chat.type !== "channel") {
+    // Restricted members carry their own permissions; plain members follow the chat's defaults
+    const perms: ChatPermissions = member.status === "restricted" ? member : (chat.permissions ?? {});
+    rights.isMember = member.status === "member" || member.is_member;
+    rights.canPost = rights.isMember && perms.can_send_messages !== false;
+    rights.canEdit = rights.isMember;
+    for (const type of Object.keys(MEDIA_PERMISSIONS) as MediaType[]) {
+      rights.media[type] = rights.canPost && perms[MEDIA_PERMISSIONS[type]] !== false;
+    }
+  }
+
+  await redis.set(cacheKey, JSON.stringify(rights), { ex: RIGHTS_CACHE_TTL });
+  return rights;
+}
+
+/**
+ * getBotRights() for several chats at once: rights cached by the chat picker
+ * are read in one request, the rest are computed one by one. Chats whose
+ * rights can't be read are left out.
+ */
+export async function getBotRightsForChats(api: Api, chatIds: number[]): Promise<Map<number, BotRights>> {
+  const rights = new Map<number, BotRights>();
+  if (chatIds.length === 0) return rights;
+
+  const cached = await redis.mget<(string | null)[]>(...chatIds.map((id) => `${RIGHTS_KEY_PREFIX}${id}`));
+  for (const [i, chatId] of chatIds.entries()) {
+    try {
+      rights.set(chatId, cached[i] ? (JSON.parse(cached[i]!) as BotRights) : await getBotRights(api, chatId));
+    } catch (error) {
+      console.error(`Failed to check bot rights in ${chatId}:`, error);
+    }
+  }
+  return rights;
+}
+
+/**
+ * Drops cached rights, e.g. when my_chat_member reports a status change.
+ */
+export async function invalidateBotRights(chatId: number): Promise<void> {
+  await redis.del(`${RIGHTS_KEY_PREFIX}${chatId}`);
+}
+
+/**
+ * Short badge for the group list: 🟢 all rights, 🟡 can post but something
+ * is missing, 🔴 can't post.
+ */
+export function rightsBadge(rights: BotRights): string {
+  if (!rights.canPost) return "🔴";
+  return describeMissingRights(rights).length > 0 ? "🟡" : "🟢";
+}
+
+/**
+ * Explains each missing right in plain words, for the group list.
+ */
+export function describeMissingRights(rights: BotRights): string[] {
+  if (!rights.isMember) return ["бот не состоит в чате"];
+
+  const isChannel = rights.chatType === "channel";
+  const problems: string[] = [];
+  if (!rights.canPost) {
+    problems.push(isChannel ? "нет права «Публикация сообщений»" : "боту запрещено отправлять сообщения");
+    return problems;
+  }
+  if (!rights.canEdit) {
+    problems.push("нет права «Редактирование сообщений» — не получится менять посты и прикреплять кнопки");
+  }
+  if (!rights.canDelete) {
+    problems.push("нет права «Удаление сообщений» — посты старше 48 часов не удалить");
+  }
+  const forbidden = (Object.keys(rights.media) as MediaType[]).filter((t) => !rights.media[t]);
+  if (forbidden.length > 0) {
+    problems.push(`в чате запрещено: ${forbidden.map((t) => MEDIA_LABELS[t]).join(", ")}`);
+  }
+  return problems;
+}
+
+/**
+ * Pre-flight check before sending a composed message.
+ * Returns the reason the bot can't send it, or null if it can.
+ */
+export function checkCanSend(rights: BotRights, msg: ComposedMessage): string | null {
+  if (!rights.isMember) return "бот не состоит в этом чате";
+  if (!rights.canPost) {
+    return rights.chatType === "channel"
+      ? "у бота нет права «Публикация сообщений»"
+      : "боту запрещено отправлять сообщения в этом чате";
+  }
+
+  const forbidden = [...new Set((msg.media ?? []).map((m) => m.type))].filter((t) => !rights.media[t]);
+  if (forbidden.length > 0) {
+    return `в чате запрещено отправлять: ${forbidden.map((t) => MEDIA_LABELS[t]).join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Pre-flight check before editing a message in the chat (e.g. attaching buttons).
+ * Returns the reason the bot can't edit, or null if it may be able to.
+ * In groups bots can only edit their own messages, which Telegram checks itself.
+ */
+export function checkCanEdit(rights: BotRights): string | null {
+  if (!rights.isMember) return "бот не состоит в этом чате";
+  if (rights.chatType === "channel" && !rights.canEdit) {
+    return "у бота нет права «Редактирование сообщений»";
+  }
+  return null;
+}
@@ -0,0 +1,159 @@
+import { redis } from "../storage/redis.js";
+import type { ComposedMessage, GroupInfo, MessageButton, SentPost } from "../types/index.js";
+
+const POST_KEY_PREFIX = "sent_post:";
+/** Sorted set of a user's post IDs scored by sentAt */
+const USER_POSTS_KEY_PREFIX = "user_sent:";
+
+/** How many recent posts are kept per user; older records are dropped */
+const MAX_POSTS_PER_USER = 50;
+
+/** Grid of every keyboard the bot put on a message, so an edit by link can keep it */
+const MESSAGE_GRID_KEY_PREFIX = "message_grid:";
+
+/** Prefix of /start payloads that open a post's management screen */
+export const POST_START_PREFIX = "post_";
+
+/**
+ * Records a published post in the author's registry.
+ * Keeps only the latest MAX_POSTS_PER_USER records per user.
+ */
+export async function recordSentPost(
+  userId: number,
+  chat: GroupInfo,
+  messageId: number,
+  messageIds: number[],
+  message: ComposedMessage,
+): Promise<SentPost> {
+  const post: SentPost = {
+    id: crypto.randomUUID().slice(0, 8),
+    userId,
+    chatId: chat.chatId,
+    chatTitle: chat.title,
+    messageId,
+    messageIds,
+    message,
+    sentAt: Date.now(),
+  };
+  await savePost(post);
+
+  const key = `${USER_POSTS_KEY_PREFIX}${userId}`;
+  await redis.zadd(key, { score: post.sentAt, member: post.id });
+
+  const overflow = (await redis.zcard(key)) - MAX_POSTS_PER_USER;
+  if (overflow > 0) {
+    const oldest = await redis.zrange<string[]>(key, 0, overflow - 1);
+    for (const id of oldest) {
+      await redis.del(`${POST_KEY_PREFIX}${id}`);
+    }
+    await redis.zremrangebyrank(key, 0, overflow - 1);
+  }
+
+  return post;
+}
+
+/**
+ * Returns a sent post by ID, or null if it doesn't exist.
+ */
+export async function getSentPost(id: string): Promise<SentPost | null> {
+  const data = await redis.get<string>(`${POST_KEY_PREFIX}${id}`);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as SentPost;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns a user's most recent posts, newest first.
+ * Cleans up IDs whose post records no longer exist.
+ */
+export async function getSentPostsForUser(userId: number, limit = 10): Promise<SentPost[]> {
+  const key = `${USER_POSTS_KEY_PREFIX}${userId}`;
+  const ids = await redis.zrange<string[]>(key, 0, limit - 1, { rev: true });
+  const posts: SentPost[] = [];
+
+  for (const id of ids) {
+    const post = await getSentPost(id);
+    if (post) {
+      posts.push(post);
+    } else {
+      await redis.zrem(key, id);
+    }
+  }
+
+  return posts;
+}
+
+/**
+ * Stores the new content snapshot of an edited post.
+ */
+export async function updateSentPost(post: SentPost, message: ComposedMessage): Promise<SentPost> {
+  const updated: SentPost = { ...post, message, editedAt: Date.now() };
+  await savePost(updated);
+  return updated;
+}
+
+/**
+ * Removes a post from the registry (after its messages were deleted).
+ */
+export async function removeSentPost(post: SentPost): Promise<void> {
+  await redis.del(`${POST_KEY_PREFIX}${post.id}`);
+  await redis.zrem(`${USER_POSTS_KEY_PREFIX}${post.userId}`, post.id);
+}
+
+/**
+ * Finds the user's post that a message belongs to (any message of an album
+ * counts), or null if the message wasn't published by them through the bot.
+ */
+export async function findSentPostByMessage(
+  userId: number,
+  chatId: number,
+  messageId: number,
+): Promise<SentPost | null> {
+  const posts = await getSentPostsForUser(userId, MAX_POSTS_PER_USER);
+  return posts.find((p) => p.chatId === chatId && p.messageIds.includes(messageId)) ?? null;
+}
+
+async function savePost(post: SentPost): Promise<void> {
+  await redis.set(`${POST_KEY_PREFIX}${post.id}`, JSON.stringify(post));
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Keyboards of any message, for edits by link
+// ═══════════════════════════════════════════════════════════════
+
+/** Buttons the bot put on a message, with what's needed to rebuild them */
+export interface MessageGrid {
+  buttons: MessageButton[][];
+  /** The message's links go through the tracking redirect */
+  trackLinks?: boolean;
+}
+
+/**
+ * Records the keyboard a message now carries, whoever published it: posts
+ * from the builder and messages that got buttons by link alike. An empty
+ * grid (no keyboard, or the message was deleted) drops the record.
+ */
+export async function setMessageGrid(chatId: number, messageId: number, grid: MessageGrid): Promise<void> {
+  const key = `${MESSAGE_GRID_KEY_PREFIX}${chatId}:${messageId}`;
+  if (grid.buttons.some((row) => row.length > 0)) {
+    await redis.set(key, JSON.stringify(grid));
+  } else {
+    await redis.del(key);
+  }
+}
+
+/**
+ * Returns the recorded keyboard of a message, or null if the bot put none on it.
+ */
+export async function getMessageGrid(chatId: number, messageId: number): Promise<MessageGrid | null> {
+  const data = await redis.get<string>(`${MESSAGE_GRID_KEY_PREFIX}${chatId}:${messageId}`);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as MessageGrid;
+  } catch {
+    return null;
+  }
+}
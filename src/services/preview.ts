@@ -1,4 +1,26 @@
-import type { ComposedMessage } from "../types/index.js";
+import type { Api, InlineKeyboard } from "grammy";
+import type {
+  BuilderStep,
+  ComposedMessage,
+  GroupInfo,
+  SendResult,
+  SendTarget,
+  SessionData,
+} from "../types/index.js";
+import { entitiesToHtml, escapeHtml, plural } from "../utils/formatting.js";
+import {
+  MEDIA_ICONS,
+  MEDIA_LABELS,
+  sendSingleMedia,
+  supportsVisualOptions,
+  toInputMedia,
+} from "./media.js";
+import { buttonIcon } from "./buttons.js";
+
+/** Whether the composed message has at least one media file attached */
+export function hasMedia(msg: ComposedMessage): boolean {
+  return (msg.media?.length ?? 0) > 0;
+}
 
 /**
  * Builds a human-readable preview string for the message being composed.
@@ -12,14 +34,26 @@ export function buildPreviewText(msg: ComposedMessage): string {
 
   if (msg.text) {
     lines.push(`<b>Текст:</b>`);
-    lines.push(msg.text);
+    lines.push(entitiesToHtml(msg.text, msg.entities));
   } else {
     lines.push("<i>Текст не задан</i>");
   }
 
-  if (msg.imageFileId) {
+  const media = msg.media ?? [];
+  if (media.length === 1) {
+    const item = media[0]!;
     lines.push("");
-    lines.push(`🖼 <b>Изображение:</b> прикреплено`);
+    lines.push(`${MEDIA_ICONS[item.type]} <b>${MEDIA_LABELS[item.type]}:</b> прикреплено`);
+  } else if (media.length > 1) {
+    const icons = media.map((m) => MEDIA_ICONS[m.type]).join("");
+    lines.push("");
+    lines.push(`🗂 <b>Альбом:</b> ${media.length} файлов ${icons}`);
+  }
+
+  const optionLabels = describeOptions(msg);
+  if (optionLabels.length > 0) {
+    lines.push("");
+    lines.push(`⚙️ <b>Параметры:</b> ${optionLabels.join(", ")}`);
   }
 
   if (msg.buttons.length > 0) {
@@ -29,8 +63,7 @@ export function buildPreviewText(msg: ComposedMessage): string {
       const row = msg.buttons[r]!;
       const rowText = row
         .map((btn) => {
-          const icon = btn.action === "url" ? "🔗" : "💬";
-          return `[${icon} ${btn.text}]`;
+          return `[${buttonIcon(btn.action)} ${escapeHtml(btn.text)}]`;
         })
         .join(" ");
       lines.push(rowText);
@@ -40,17 +73,106 @@ export function buildPreviewText(msg: ComposedMessage): string {
   return lines.join("\n");
 }
 
+/**
+ * Builds the combined preview + instruction text for a step.
+ * The preview is shown only once the message has any content.
+ */
+export function buildStepText(session: SessionData, step: BuilderStep): string {
+  const parts: string[] = [];
+  if (session.message.text || hasMedia(session.message) || session.message.buttons.length > 0) {
+    parts.push(buildPreviewText(session.message));
+    parts.push("");
+    parts.push("─────────────────");
+    parts.push("");
+  }
+  parts.push(getStepInstruction(step));
+  return parts.join("\n");
+}
+
+/**
+ * Lists the non-default options of a message as short labels for the preview.
+ * Options that don't apply to the current content (e.g. link preview on a
+ * media post) are skipped.
+ */
+export function describeOptions(msg: ComposedMessage): string[] {
+  const opts = msg.options ?? {};
+  const media = msg.media ?? [];
+  const labels: string[] = [];
+
+  if (media.length > 0 && supportsVisualOptions(media)) {
+    if (opts.captionAboveMedia) labels.push("подпись над медиа");
+    if (opts.mediaSpoiler) labels.push("медиа под спойлером");
+  }
+  if (media.length === 0 && opts.linkPreview) {
+    labels.push(`превью ссылки: ${linkPreviewLabel(msg).toLowerCase()}`);
+  }
+  if (opts.silent) labels.push("без звука");
+  if (opts.protectContent) labels.push("запрет пересылки");
+  if (opts.trackLinks && msg.buttons.flat().some((b) => b.action === "url")) {
+    labels.push("счёт переходов по ссылкам");
+  }
+
+  return labels;
+}
+
+/** Label of the current link preview mode (cycled on the options screen) */
+export function linkPreviewLabel(msg: ComposedMessage): string {
+  const lp = msg.options?.linkPreview;
+  if (!lp) return "Авто";
+  if (lp.is_disabled) return "Выключено";
+  const size = lp.prefer_large_media ? "Крупное" : lp.prefer_small_media ? "Мелкое" : "Авто";
+  return lp.show_above_text ? `${size}, над текстом` : size;
+}
+
+/**
+ * Short label for a set of targets: the title for one chat, a count otherwise.
+ */
+export function targetsLabel(targets: GroupInfo[]): string {
+  if (targets.length === 1) return targets[0]!.title;
+  return `${targets.length} ${plural(targets.length, "чат", "чата", "чатов")}`;
+}
+
+/** Bullet list of target chat titles, with the forum topic where one is chosen */
+export function buildTargetsList(targets: SendTarget[]): string {
+  return targets
+    .map((t) => (t.topicName ? `• ${escapeHtml(t.title)} → 🧵 ${escapeHtml(t.topicName)}` : `• ${escapeHtml(t.title)}`))
+    .join("\n");
+}
+
+/**
+ * Builds the confirm step text: preview, instruction and the list of targets.
+ */
+export function buildConfirmText(session: SessionData, targets: SendTarget[]): string {
+  return [buildStepText(session, "confirm_send"), "", "📢 <b>Куда:</b>", buildTargetsList(targets)].join("\n");
+}
+
+/**
+ * Builds the per-chat result report shown after sending to several targets.
+ */
+export function buildSendReport(results: SendResult[]): string {
+  const sent = results.filter((r) => r.ok).length;
+  const lines = [`📬 <b>Результат отправки:</b> ${sent} из ${results.length}`, ""];
+  for (const r of results) {
+    lines.push(
+      r.ok
+        ? `✅ ${escapeHtml(r.title)}`
+        : `❌ ${escapeHtml(r.title)} — <code>${escapeHtml(r.error ?? "ошибка")}</code>`,
+    );
+  }
+  return lines.join("\n");
+}
+
 /**
  * Builds the instruction text for a given step.
  */
 export function getStepInstruction(step: string): string {
   switch (step) {
     case "write_text":
-      return "✏️ Напишите текст для сообщения:";
+      return "✏️ Напишите текст для сообщения:\n\n<i>Форматирование Telegram (жирный, курсив, ссылки, спойлеры) сохранится.</i>";
     case "add_image":
-      return "🖼 Хотите добавить изображение?";
+      return "📎 Хотите добавить медиа (фото, видео, GIF, документ, аудио)?";
     case "send_image":
-      return "📷 Отправьте мне изображение:";
+      return "📎 Отправьте мне фото, видео, GIF, документ или аудио. Можно альбомом (до 10 файлов):";
     case "edit_buttons":
       return "🔘 Настройте кнопки сообщения:";
     case "btn_text":
@@ -61,11 +183,82 @@ export function getStepInstruction(step: string): string {
       return "📝 Введите значение для кнопки:";
     case "review":
       return "👀 Проверьте сообщение перед отправкой:";
+    case "edit_options":
+      return "⚙️ Настройте параметры публикации:";
+    case "draft_name":
+      return "💾 Отправьте название черновика (до 50 символов):";
     case "select_group":
-      return "📢 Выберите группу или канал для отправки:";
+      return "📢 Выберите одну или несколько групп или каналов для отправки:";
+    case "select_topic":
+      return "🧵 Выберите тему форума или отправьте ссылку на тему:";
     case "confirm_send":
       return "✅ Подтвердите отправку:";
     default:
       return "";
   }
 }
+
+/**
+ * Deletes the last bot screen together with any album preview sent above it.
+ */
+export async function deleteLastBotMessage(
+  api: Api,
+  chatId: number,
+  session: SessionData,
+): Promise<void> {
+  const ids = [...(session.previewMessageIds ?? [])];
+  if (session.lastBotMessageId) ids.push(session.lastBotMessageId);
+
+  if (ids.length > 0) {
+    try {
+      await api.deleteMessages(chatId, ids);
+    } catch {
+      // Messages might already be deleted, ignore
+    }
+  }
+
+  session.lastBotMessageId = undefined;
+  session.lastBotMessageIsPhoto = undefined;
+  session.previewMessageIds = undefined;
+}
+
+/**
+ * Sends a step screen and records it in the session.
+ * With showPhoto, a single media file carries the screen as its caption; an album
+ * is sent as a media group followed by the screen as a separate text message,
+ * because albums can't carry inline keyboards.
+ */
+export async function sendStepScreen(
+  api: Api,
+  chatId: number,
+  session: SessionData,
+  text: string,
+  keyboard: InlineKeyboard,
+  showPhoto?: boolean,
+): Promise<void> {
+  const media = showPhoto ? session.message.media ?? [] : [];
+
+  if (media.length === 1) {
+    const sentMsg = await sendSingleMedia(api, chatId, media[0]!, {
+      caption: text,
+      parse_mode: "HTML",
+      reply_markup: keyboard,
+    });
+    session.lastBotMessageId = sentMsg.message_id;
+    session.lastBotMessageIsPhoto = true;
+    return;
+  }
+
+  if (media.length > 1) {
+    const album = await api.sendMediaGroup(chatId, media.map((m) => toInputMedia(m)));
+    session.previewMessageIds = album.map((m) => m.message_id);
+  }
+
+  const sentMsg = await api.sendMessage(chatId, text, {
+    parse_mode: "HTML",
+    reply_markup: keyboard,
+    link_preview_options: { is_disabled: true },
+  });
+  session.lastBotMessageId = sentMsg.message_id;
+  session.lastBotMessageIsPhoto = false;
+}
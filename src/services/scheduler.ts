@@ -0,0 +1,328 @@
+import type { Api } from "grammy";
+import { redis } from "../storage/redis.js";
+import type { ComposedMessage, GroupInfo, ScheduledPost, SendResult } from "../types/index.js";
+import { sendToTargets } from "./sender.js";
+import { buildSendReport } from "./preview.js";
+
+const POST_KEY_PREFIX = "scheduled:";
+const USER_POSTS_KEY_PREFIX = "user_scheduled:";
+/** Sorted set of pending post IDs scored by sendAt */
+const QUEUE_KEY = "scheduled_queue";
+/** Sorted set of post IDs being dispatched, scored by their lease deadline */
+const PROCESSING_KEY = "scheduled_processing";
+/** Set per post: chat IDs it was delivered to, kept until the post is done */
+const DELIVERED_KEY_PREFIX = "scheduled_delivered:";
+
+/** Max posts dispatched per cron run, to stay within the function time limit */
+const MAX_DISPATCH_PER_RUN = 5;
+/** How long a run may hold a post before another run takes it back, in ms */
+const DISPATCH_LEASE_MS = 60_000;
+/** No new posts are leased after this much of a run, in ms */
+const DISPATCH_TIME_BUDGET_MS = 6_000;
+/** Chats per queued post when a large send is handed to the dispatcher */
+const FAN_OUT_CHUNK = 5;
+
+/**
+ * Moves a member from one sorted set to another with a new score, only if
+ * it's still in the first one. Returns 1 if moved. Used both to lease due
+ * posts and to re-queue expired leases, so a post is never in neither set.
+ */
+const MOVE_SCRIPT = `
+if redis.call("ZREM", KEYS[1], ARGV[1]) == 1 then
+  redis.call("ZADD", KEYS[2], ARGV[2], ARGV[1])
+  return 1
+end
+return 0`;
+
+/**
+ * Saves a post and queues it at its time, unless a run holds its lease or
+ * it's gone (published or cancelled meanwhile). Returns 1 if saved.
+ */
+const UPDATE_SCRIPT = `
+if redis.call("ZSCORE", KEYS[1], ARGV[1]) or redis.call("EXISTS", KEYS[2]) == 0 then
+  return 0
+end
+redis.call("SET", KEYS[2], ARGV[2])
+redis.call("ZADD", KEYS[3], ARGV[3], ARGV[1])
+return 1`;
+
+/**
+ * Saves a post after a dispatch attempt and releases its lease, only if
+ * the run still holds it: a post cancelled meanwhile must not come back.
+ * The attempt is over, so its delivered chats are forgotten.
+ * Returns 1 if saved.
+ */
+const SAVE_LEASED_SCRIPT = `
+if not redis.call("ZSCORE", KEYS[1], ARGV[1]) then
+  return 0
+end
+redis.call("SET", KEYS[2], ARGV[2])
+redis.call("ZREM", KEYS[1], ARGV[1])
+redis.call("DEL", KEYS[3])
+return 1`;
+
+/**
+ * Creates a scheduled post and enqueues it for dispatch.
+ */
+export async function createScheduledPost(
+  userId: number,
+  targets: GroupInfo[],
+  message: ComposedMessage,
+  sendAt: number,
+): Promise<ScheduledPost> {
+  const post: ScheduledPost = {
+    id: crypto.randomUUID().slice(0, 8),
+    userId,
+    targets,
+    message,
+    sendAt,
+    createdAt: Date.now(),
+    status: "pending",
+  };
+  await savePost(post);
+  await redis.sadd(`${USER_POSTS_KEY_PREFIX}${userId}`, post.id);
+  await redis.zadd(QUEUE_KEY, { score: sendAt, member: post.id });
+  return post;
+}
+
+/**
+ * Hands a send to many chats to the dispatcher instead of sending it inline:
+ * queues it for now, split into posts of FAN_OUT_CHUNK chats, so each cron
+ * run sends a bounded part. Chats that fail stay in /scheduled like any
+ * scheduled post.
+ */
+export async function enqueueFanOut(userId: number, targets: GroupInfo[], message: ComposedMessage): Promise<void> {
+  const now = Date.now();
+  for (let i = 0; i < targets.length; i += FAN_OUT_CHUNK) {
+    await createScheduledPost(userId, targets.slice(i, i + FAN_OUT_CHUNK), message, now);
+  }
+}
+
+/**
+ * Returns a scheduled post by ID, or null if it doesn't exist.
+ */
+export async function getScheduledPost(id: string): Promise<ScheduledPost | null> {
+  const data = await redis.get<string>(`${POST_KEY_PREFIX}${id}`);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as ScheduledPost;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns all scheduled posts of a user (pending and failed), soonest first.
+ * Cleans up IDs whose post records no longer exist.
+ */
+export async function getScheduledPostsForUser(userId: number): Promise<ScheduledPost[]> {
+  const key = `${USER_POSTS_KEY_PREFIX}${userId}`;
+  const ids = await redis.smembers(key);
+  const posts: ScheduledPost[] = [];
+
+  for (const id of ids) {
+    const post = await getScheduledPost(id);
+    if (post) {
+      posts.push(post);
+    } else {
+      await redis.srem(key, id);
+    }
+  }
+
+  return posts.sort((a, b) => a.sendAt - b.sendAt);
+}
+
+/**
+ * Updates a post's content, target and/or time, and re-enqueues it as pending.
+ * Returns the updated post, or null if it doesn't exist, belongs to another
+ * user or is being published right now (see isScheduledPostDispatching()).
+ */
+export async function updateScheduledPost(
+  id: string,
+  userId: number,
+  changes: Partial<Pick<ScheduledPost, "targets" | "message" | "sendAt">>,
+): Promise<ScheduledPost | null> {
+  const post = await getScheduledPost(id);
+  if (!post || post.userId !== userId) return null;
+
+  const updated: ScheduledPost = { ...post, ...changes, status: "pending", lastError: undefined };
+  const saved = await redis.eval<[string, string, number], number>(
+    UPDATE_SCRIPT,
+    [PROCESSING_KEY, `${POST_KEY_PREFIX}${id}`, QUEUE_KEY],
+    [id, JSON.stringify(updated), updated.sendAt],
+  );
+  return saved === 1 ? updated : null;
+}
+
+/**
+ * Whether a dispatch run holds the post's lease, i.e. it's being published.
+ */
+export async function isScheduledPostDispatching(id: string): Promise<boolean> {
+  return (await redis.zscore(PROCESSING_KEY, id)) !== null;
+}
+
+/**
+ * Cancels (deletes) a scheduled post. Returns false if it doesn't exist
+ * or belongs to another user.
+ */
+export async function cancelScheduledPost(id: string, userId: number): Promise<boolean> {
+  const post = await getScheduledPost(id);
+  if (!post || post.userId !== userId) return false;
+  await deletePost(post);
+  return true;
+}
+
+/**
+ * Points a user's scheduled posts at a chat's new ID after a group was
+ * upgraded to a supergroup.
+ */
+export async function migrateScheduledTargets(
+  userId: number,
+  oldChatId: number,
+  newChatId: number,
+): Promise<void> {
+  for (const post of await getScheduledPostsForUser(userId)) {
+    if (!post.targets.some((t) => t.chatId === oldChatId)) continue;
+    await savePost({
+      ...post,
+      targets: post.targets.map((t) => (t.chatId === oldChatId ? { ...t, chatId: newChatId } : t)),
+    });
+  }
+}
+
+/**
+ * Dispatches posts that are due. Each post is leased by moving it from the
+ * queue to the processing set atomically, so overlapping cron runs never send
+ * the same post twice. If a run dies mid-send, the lease expires and the next
+ * run re-queues the post instead of losing it; chats it already reached
+ * are recorded as they go and skipped on the retry.
+ * Each post is sent to all of its targets. Chats that failed stay in the
+ * user's list as a "failed" post (targets narrowed to those chats) and the
+ * author gets a DM with the reasons; it can be rescheduled via /scheduled.
+ */
+export async function dispatchDuePosts(
+  api: Api,
+  now = Date.now(),
+): Promise<{ sent: number; failed: number }> {
+  await requeueExpiredLeases(now);
+
+  const dueIds = await redis.zrange<string[]>(QUEUE_KEY, 0, now, {
+    byScore: true,
+    offset: 0,
+    count: MAX_DISPATCH_PER_RUN,
+  });
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const id of dueIds) {
+    // The rest stays queued for the next run
+    if (Date.now() - now > DISPATCH_TIME_BUDGET_MS) break;
+
+    const leased = await movePost(QUEUE_KEY, PROCESSING_KEY, id, now + DISPATCH_LEASE_MS);
+    if (!leased) continue; // Another run got it first
+
+    const post = await getScheduledPost(id);
+    if (!post || post.status !== "pending") {
+      await redis.zrem(PROCESSING_KEY, id);
+      continue;
+    }
+
+    const deliveredKey = `${DELIVERED_KEY_PREFIX}${id}`;
+    const delivered = new Set(await redis.smembers(deliveredKey));
+    const results = await sendToTargets(
+      api,
+      post.targets.filter((t) => !delivered.has(String(t.chatId))),
+      post.message,
+      post.userId,
+      async (target) => {
+        await redis.sadd(deliveredKey, String(target.chatId));
+      },
+    );
+    const failures = results.filter((r) => !r.ok);
+
+    if (failures.length === 0) {
+      await deletePost(post);
+      sent++;
+      continue;
+    }
+
+    const failedIds = new Set(failures.map((r) => r.chatId));
+    const saved = await redis.eval<[string, string], number>(
+      SAVE_LEASED_SCRIPT,
+      [PROCESSING_KEY, `${POST_KEY_PREFIX}${id}`, deliveredKey],
+      [
+        id,
+        JSON.stringify({
+          ...post,
+          targets: post.targets.filter((t) => failedIds.has(t.chatId)),
+          status: "failed",
+          lastError: failures.map((r) => `${r.title}: ${r.error}`).join("\n"),
+        } satisfies ScheduledPost),
+      ],
+    );
+    if (saved !== 1) continue; // Cancelled while being sent
+    await reportFailure(api, post, results);
+    failed++;
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Puts posts whose lease has expired back in the queue at their own time.
+ * A post that was sent partly before its run died goes only to the chats
+ * that don't have it yet.
+ */
+async function requeueExpiredLeases(now: number): Promise<void> {
+  const expiredIds = await redis.zrange<string[]>(PROCESSING_KEY, 0, now, { byScore: true });
+  for (const id of expiredIds) {
+    const post = await getScheduledPost(id);
+    if (!post) {
+      await redis.zrem(PROCESSING_KEY, id);
+      continue;
+    }
+    if (await movePost(PROCESSING_KEY, QUEUE_KEY, id, post.sendAt)) {
+      console.warn(`Scheduled post ${id} lease expired, re-queued`);
+    }
+  }
+}
+
+/** Moves a post ID between the queue and the processing set, see MOVE_SCRIPT */
+async function movePost(from: string, to: string, id: string, score: number): Promise<boolean> {
+  const moved = await redis.eval<[string, number], number>(MOVE_SCRIPT, [from, to], [id, score]);
+  return moved === 1;
+}
+
+async function reportFailure(api: Api, post: ScheduledPost, results: SendResult[]): Promise<void> {
+  try {
+    await api.sendMessage(
+      post.userId,
+      [
+        "❌ Запланированный пост опубликован не во все чаты.",
+        "",
+        buildSendReport(results),
+        "",
+        "Откройте /scheduled, чтобы перенести публикацию для неудачных чатов или отменить её.",
+      ].join("\n"),
+      { parse_mode: "HTML" },
+    );
+  } catch (dmError) {
+    // User may have blocked the bot
+    console.error(`Failed to report scheduled post failure to ${post.userId}:`, dmError);
+  }
+}
+
+async function savePost(post: ScheduledPost): Promise<void> {
+  await redis.set(`${POST_KEY_PREFIX}${post.id}`, JSON.stringify(post));
+}
+
+/** Deletes a post with its queue entries in one transaction */
+async function deletePost(post: ScheduledPost): Promise<void> {
+  const tx = redis.multi();
+  tx.del(`${POST_KEY_PREFIX}${post.id}`, `${DELIVERED_KEY_PREFIX}${post.id}`);
+  tx.srem(`${USER_POSTS_KEY_PREFIX}${post.userId}`, post.id);
+  tx.zrem(QUEUE_KEY, post.id);
+  tx.zrem(PROCESSING_KEY, post.id);
+  await tx.exec();
+}
@@ -1,69 +1,595 @@
 import { InlineKeyboard, type Api } from "grammy";
-import type { ComposedMessage } from "../types/index.js";
-import { redis } from "../storage/redis.js";
+import type { InlineKeyboardMarkup, InputMedia, Message, MessageEntity } from "grammy/types";
+import type {
+  ComposedMessage,
+  LinkEditTarget,
+  MediaAttachment,
+  SendResult,
+  SendTarget,
+  SentPost,
+} from "../types/index.js";
+import { sendSingleMedia, toInputMedia } from "./media.js";
+import { recordSentPost, setMessageGrid } from "./posts.js";
+import { getChatsUserCanPost } from "./groups.js";
+import { checkCanSend, getBotRightsForChats } from "./permissions.js";
+import { buildShareLink, buildStartLink } from "../utils/messageLink.js";
+import { validateButtonGrid } from "./buttons.js";
+import { alertCallbackData, gatedAlertCallbackData, setMessageAlerts } from "./alerts.js";
+import { getVoteCounts, setMessageVotes } from "./votes.js";
+import { getParticipantCount, setMessageGiveaway } from "./giveaways.js";
+import { FEEDBACK_START_PREFIX, feedbackToken } from "./feedback.js";
+import {
+  deleteMessageStats,
+  isLinkTrackingAvailable,
+  isTrackableUrl,
+  setMessageLinks,
+  trackedLinkUrl,
+} from "./stats.js";
+
+/** Text of the follow-up button message when an album has buttons but no text */
+const ALBUM_BUTTONS_FALLBACK_TEXT = "👆";
 
 /**
  * Sends the composed message to a target group/channel chat.
- * Handles text-only and photo-with-caption layouts.
- * Returns true on success.
+ * Handles text-only, single media (photo, video, GIF, document, audio)
+ * with caption, and album layouts.
+ * Formatting is passed through as entities, so no parse_mode is used.
+ *
+ * Albums can't carry inline keyboards, so when an album has buttons the
+ * files are sent without a caption and the text goes into a follow-up
+ * message that carries the button grid. Without buttons, the text becomes
+ * the caption of the first item.
+ *
+ * Returns the sent Message that carries the text (or caption) and buttons.
+ * Use sendComposedMessageWithIds() when all message IDs of an album are needed.
+ *
+ * @param threadId - forum topic to post into; omitted for General and non-forum chats
  */
 export async function sendComposedMessage(
   api: Api,
   chatId: number,
   msg: ComposedMessage,
-): Promise<boolean> {
-  if (!msg.text && !msg.imageFileId) {
-    throw new Error("Cannot send message: both text and image are empty");
+  threadId?: number,
+): Promise<Message> {
+  const { message } = await sendComposedMessageWithIds(api, chatId, msg, threadId);
+  return message;
+}
+
+/**
+ * Same as sendComposedMessage(), but also returns the IDs of every message
+ * of the post in chat order (album items and the button message).
+ */
+export async function sendComposedMessageWithIds(
+  api: Api,
+  chatId: number,
+  msg: ComposedMessage,
+  threadId?: number,
+): Promise<{ message: Message; messageIds: number[] }> {
+  const media = msg.media ?? [];
+  if (!msg.text && media.length === 0) {
+    throw new Error("Cannot send message: both text and media are empty");
   }
 
   const keyboard = await buildInlineKeyboard(msg.buttons);
-  const replyMarkup = keyboard.inline_keyboard.length > 0 ? keyboard : undefined;
+  // An empty InlineKeyboard still holds one empty row, so check the buttons
+  const replyMarkup = hasButtons(msg.buttons) ? keyboard : undefined;
+
+  const opts = msg.options ?? {};
+  const delivery = {
+    disable_notification: opts.silent,
+    protect_content: opts.protectContent,
+    message_thread_id: threadId,
+  };
 
-  if (!msg.imageFileId) {
+  if (media.length === 0) {
     // Text-only message
-    await api.sendMessage(chatId, msg.text, {
-      parse_mode: "HTML",
+    const message = await api.sendMessage(chatId, msg.text, {
+      entities: msg.entities,
+      link_preview_options: opts.linkPreview,
       reply_markup: replyMarkup,
+      ...delivery,
     });
-    return true;
+    if (replyMarkup) await afterKeyboardSent(api, chatId, message.message_id, msg);
+    return { message, messageIds: [message.message_id] };
   }
 
-  // Photo with caption
-  await api.sendPhoto(chatId, msg.imageFileId, {
-    caption: msg.text || undefined,
-    parse_mode: "HTML",
+  if (media.length === 1) {
+    // Single media with caption
+    const message = await sendSingleMedia(api, chatId, media[0]!, {
+      caption: msg.text || undefined,
+      caption_entities: msg.text ? msg.entities : undefined,
+      show_caption_above_media: opts.captionAboveMedia,
+      has_spoiler: opts.mediaSpoiler,
+      reply_markup: replyMarkup,
+      ...delivery,
+    });
+    if (replyMarkup) await afterKeyboardSent(api, chatId, message.message_id, msg);
+    return { message, messageIds: [message.message_id] };
+  }
+
+  // Album: caption on the first item only when there is no button message
+  const captionOnAlbum = !replyMarkup && !!msg.text;
+  const album = await api.sendMediaGroup(
+    chatId,
+    media.map((m, i) =>
+      toInputMedia(m, {
+        caption: captionOnAlbum && i === 0 ? msg.text : undefined,
+        caption_entities: captionOnAlbum && i === 0 ? msg.entities : undefined,
+        show_caption_above_media: opts.captionAboveMedia,
+        has_spoiler: opts.mediaSpoiler,
+      }),
+    ),
+    delivery,
+  );
+
+  const messageIds = album.map((m) => m.message_id);
+  if (!replyMarkup) {
+    return { message: album[0]!, messageIds };
+  }
+
+  const buttonMessage = await api.sendMessage(chatId, msg.text || ALBUM_BUTTONS_FALLBACK_TEXT, {
+    entities: msg.text ? msg.entities : undefined,
+    link_preview_options: opts.linkPreview,
     reply_markup: replyMarkup,
+    ...delivery,
+  });
+  await afterKeyboardSent(api, chatId, buttonMessage.message_id, msg);
+  return { message: buttonMessage, messageIds: [...messageIds, buttonMessage.message_id] };
+}
+
+/**
+ * Sends the composed message to every target chat, one after another.
+ * A failure in one chat doesn't stop the others; each outcome is reported.
+ * The author's admin rights are re-checked per chat, so a post (e.g. a
+ * scheduled one) never goes out on behalf of a demoted admin, and the bot's
+ * own rights are checked first so missing rights are reported in plain words.
+ * Both checks are read for all targets up front, mostly from the caches the
+ * chat picker has just filled. If the bot's rights can't be read, the send
+ * is attempted anyway.
+ * Every published copy is recorded in the author's /posts registry.
+ *
+ * @param onDelivered - called as soon as a chat has the post, e.g. to skip it on a retry
+ */
+export async function sendToTargets(
+  api: Api,
+  targets: SendTarget[],
+  msg: ComposedMessage,
+  authorId: number,
+  onDelivered?: (target: SendTarget) => Promise<void>,
+): Promise<SendResult[]> {
+  const chatIds = targets.map((t) => t.chatId);
+  const allowed = await getChatsUserCanPost(api, chatIds, authorId);
+  const rights = await getBotRightsForChats(api, chatIds);
+
+  const results: SendResult[] = [];
+  for (const target of targets) {
+    if (!allowed.has(target.chatId)) {
+      results.push({
+        chatId: target.chatId,
+        title: target.title,
+        ok: false,
+        error: "нет прав администратора на публикацию в этом чате",
+      });
+      continue;
+    }
+
+    const targetRights = rights.get(target.chatId);
+    const problem = targetRights ? checkCanSend(targetRights, msg) : null;
+    if (problem) {
+      results.push({ chatId: target.chatId, title: target.title, ok: false, error: problem });
+      continue;
+    }
+
+    let sent: { message: Message; messageIds: number[] };
+    try {
+      sent = await sendComposedMessageWithIds(api, target.chatId, msg, target.threadId);
+    } catch (error) {
+      console.error(`Failed to send message to ${target.chatId}:`, error);
+      const errMsg = error instanceof Error ? error.message : String(error);
+      results.push({ chatId: target.chatId, title: target.title, ok: false, error: errMsg });
+      continue;
+    }
+
+    results.push({ chatId: target.chatId, title: target.title, ok: true });
+    try {
+      await onDelivered?.(target);
+    } catch (error) {
+      console.error(`Failed to mark ${target.chatId} as delivered:`, error);
+    }
+    try {
+      await recordSentPost(authorId, target, sent.message.message_id, sent.messageIds, msg);
+    } catch (error) {
+      // The post is already out; a registry failure must not turn it into a retry
+      console.error(`Failed to record sent post in ${target.chatId}:`, error);
+    }
+  }
+  return results;
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Editing published posts (/posts)
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Whether the post's main message is a text message: a text-only post, or
+ * the button message that follows an album. Otherwise it's a media caption.
+ */
+function isTextMessage(post: SentPost): boolean {
+  return (post.message.media ?? []).length === 0 || post.messageIds[0] !== post.messageId;
+}
+
+/**
+ * Whether buttons can be set on the published post. An album sent without
+ * buttons has no message that can carry a keyboard.
+ */
+export function canEditPostButtons(post: SentPost): boolean {
+  return (post.message.media ?? []).length <= 1 || isTextMessage(post);
+}
+
+/**
+ * Replaces the text (or caption) of a published post, keeping its buttons.
+ */
+export async function editPostText(
+  api: Api,
+  post: SentPost,
+  text: string,
+  entities?: MessageEntity[],
+): Promise<void> {
+  const opts = post.message.options ?? {};
+  const replyMarkup = canEditPostButtons(post)
+    ? await buildInlineKeyboard(post.message.buttons, publishedKeyboard(post))
+    : undefined;
+
+  if (isTextMessage(post)) {
+    await ignoreNotModified(
+      api.editMessageText(post.chatId, post.messageId, text || ALBUM_BUTTONS_FALLBACK_TEXT, {
+        entities: text ? entities : undefined,
+        link_preview_options: opts.linkPreview,
+        reply_markup: replyMarkup,
+      }),
+    );
+    if (replyMarkup) await trackPublishedKeyboard(post.chatId, post.messageId, post.message.buttons, opts.trackLinks);
+    return;
+  }
+
+  await ignoreNotModified(
+    api.editMessageCaption(post.chatId, post.messageId, {
+      caption: text,
+      caption_entities: entities,
+      show_caption_above_media: opts.captionAboveMedia,
+      reply_markup: replyMarkup,
+    }),
+  );
+  if (replyMarkup) await trackPublishedKeyboard(post.chatId, post.messageId, post.message.buttons, opts.trackLinks);
+}
+
+/**
+ * Replaces the button grid of a published post. An empty grid removes the keyboard.
+ */
+export async function editPostButtons(
+  api: Api,
+  post: SentPost,
+  buttons: ComposedMessage["buttons"],
+): Promise<void> {
+  if (!canEditPostButtons(post)) {
+    throw new Error("An album without buttons can't get a keyboard");
+  }
+  const keyboard = await buildInlineKeyboard(buttons, publishedKeyboard(post));
+  await ignoreNotModified(
+    api.editMessageReplyMarkup(post.chatId, post.messageId, {
+      reply_markup: hasButtons(buttons) ? keyboard : undefined,
+    }),
+  );
+  await trackPublishedKeyboard(post.chatId, post.messageId, buttons, post.message.options?.trackLinks);
+}
+
+/**
+ * Replaces the file of a single-media post, keeping its caption and buttons.
+ * Albums and text-only posts are not supported by this operation.
+ */
+export async function replacePostMedia(
+  api: Api,
+  post: SentPost,
+  media: MediaAttachment,
+): Promise<void> {
+  if ((post.message.media ?? []).length !== 1) {
+    throw new Error("Only single-media posts can have their media replaced");
+  }
+
+  const msg = post.message;
+  const opts = msg.options ?? {};
+  const visual = media.type === "photo" || media.type === "video" || media.type === "animation";
+  const input = {
+    type: media.type,
+    media: media.fileId,
+    caption: msg.text || undefined,
+    caption_entities: msg.text ? msg.entities : undefined,
+    ...(visual ? { show_caption_above_media: opts.captionAboveMedia, has_spoiler: opts.mediaSpoiler } : {}),
+  } as InputMedia;
+
+  const keyboard = await buildInlineKeyboard(msg.buttons, publishedKeyboard(post));
+  await ignoreNotModified(
+    api.editMessageMedia(post.chatId, post.messageId, input, {
+      reply_markup: hasButtons(msg.buttons) ? keyboard : undefined,
+    }),
+  );
+  await trackPublishedKeyboard(post.chatId, post.messageId, msg.buttons, opts.trackLinks);
+}
+
+/**
+ * Deletes every message of a published post from its chat and drops what
+ * its keyboard used: stored alerts, votes and click stats.
+ */
+export async function deletePostMessages(api: Api, post: SentPost): Promise<void> {
+  await api.deleteMessages(post.chatId, post.messageIds);
+  await trackPublishedKeyboard(post.chatId, post.messageId, []);
+  try {
+    await deleteMessageStats(post.chatId, post.messageId, post.message.buttons);
+  } catch (error) {
+    console.error(`Failed to delete stats of post ${post.id}:`, error);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Editing any message by its link
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * The keyboard to send with an edit: the target's grid, or the message's
+ * current keyboard while the bot doesn't know its grid, since an edit
+ * without one removes it. Undefined removes the keyboard.
+ * @param viaChatId - chat to read the current keyboard through, see currentReplyMarkup()
+ */
+async function linkedKeyboard(
+  api: Api,
+  target: LinkEditTarget,
+  viaChatId: number,
+): Promise<InlineKeyboard | InlineKeyboardMarkup | undefined> {
+  if (keepsCurrentKeyboard(target)) return currentReplyMarkup(api, target, viaChatId);
+  if (!hasButtons(target.buttons)) return undefined;
+  return buildInlineKeyboard(target.buttons, target);
+}
+
+function keepsCurrentKeyboard(target: LinkEditTarget): boolean {
+  return !!target.gridUnknown && !target.buttonsChanged;
+}
+
+/**
+ * Reads the keyboard a message has now. Bot API can't fetch a message, so
+ * it's forwarded silently to `viaChatId` and the forward is deleted at once.
+ */
+async function currentReplyMarkup(
+  api: Api,
+  target: LinkEditTarget,
+  viaChatId: number,
+): Promise<InlineKeyboardMarkup | undefined> {
+  const forward = await api.forwardMessage(viaChatId, target.chatId, target.messageId, {
+    disable_notification: true,
   });
-  return true;
+  try {
+    await api.deleteMessage(viaChatId, forward.message_id);
+  } catch (error) {
+    console.error(`Failed to delete forward of message ${target.messageId} in ${target.chatId}:`, error);
+  }
+  return forward.reply_markup;
+}
+
+/** Records the target's grid as the message's keyboard, unless the keyboard was kept */
+async function trackLinkedKeyboard(target: LinkEditTarget): Promise<void> {
+  if (keepsCurrentKeyboard(target)) return;
+  await trackPublishedKeyboard(target.chatId, target.messageId, target.buttons, target.trackLinks);
 }
 
-/** Max bytes for Telegram callback_data */
-const MAX_CALLBACK_DATA = 64;
+/**
+ * Replaces the text of a message edited by link, or its caption if it's a
+ * media message: a link doesn't tell which, so the text edit is tried first.
+ * The target's grid replaces the keyboard.
+ * @param viaChatId - the editor's chat, see linkedKeyboard()
+ */
+export async function editLinkedText(
+  api: Api,
+  target: LinkEditTarget,
+  viaChatId: number,
+  text: string,
+  entities?: MessageEntity[],
+): Promise<void> {
+  const replyMarkup = await linkedKeyboard(api, target, viaChatId);
+  try {
+    await ignoreNotModified(
+      api.editMessageText(target.chatId, target.messageId, text, { entities, reply_markup: replyMarkup }),
+    );
+  } catch (error) {
+    if (!(error instanceof Error && error.message.includes("there is no text in the message to edit"))) throw error;
+    await ignoreNotModified(
+      api.editMessageCaption(target.chatId, target.messageId, {
+        caption: text,
+        caption_entities: entities,
+        reply_markup: replyMarkup,
+      }),
+    );
+  }
+  await trackLinkedKeyboard(target);
+}
+
+/**
+ * Replaces the file of a media message edited by link. The caption comes
+ * with the new file; without one the message is left without a caption,
+ * since the current caption isn't known. The target's grid replaces the keyboard.
+ * @param viaChatId - the editor's chat, see linkedKeyboard()
+ */
+export async function editLinkedMedia(
+  api: Api,
+  target: LinkEditTarget,
+  viaChatId: number,
+  media: MediaAttachment,
+  caption?: string,
+  captionEntities?: MessageEntity[],
+): Promise<void> {
+  const input = { type: media.type, media: media.fileId, caption, caption_entities: captionEntities } as InputMedia;
+  await ignoreNotModified(
+    api.editMessageMedia(target.chatId, target.messageId, input, {
+      reply_markup: await linkedKeyboard(api, target, viaChatId),
+    }),
+  );
+  await trackLinkedKeyboard(target);
+}
+
+/**
+ * Puts the target's grid on a message edited by link without touching its content.
+ */
+export async function editLinkedButtons(api: Api, target: LinkEditTarget): Promise<void> {
+  await ignoreNotModified(
+    api.editMessageReplyMarkup(target.chatId, target.messageId, {
+      reply_markup: hasButtons(target.buttons) ? await buildInlineKeyboard(target.buttons, target) : undefined,
+    }),
+  );
+  await trackPublishedKeyboard(target.chatId, target.messageId, target.buttons, target.trackLinks);
+}
+
+/** Telegram rejects edits that change nothing; for the user that's a success */
+async function ignoreNotModified(request: Promise<unknown>): Promise<void> {
+  try {
+    await request;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("message is not modified")) return;
+    throw error;
+  }
+}
+
+function hasButtons(buttons: ComposedMessage["buttons"]): boolean {
+  return buttons.some((row) => row.length > 0);
+}
+
+/** A keyboard rebuilt for a message that is already published */
+export interface PublishedKeyboard {
+  chatId: number;
+  messageId: number;
+  /** Route URL buttons through the tracking redirect */
+  trackLinks?: boolean;
+}
+
+function publishedKeyboard(post: SentPost): PublishedKeyboard {
+  return { chatId: post.chatId, messageId: post.messageId, trackLinks: post.message.options?.trackLinks };
+}
+
+/** Whether the post asks for link tracking and has links to track */
+function wantsTrackedLinks(msg: ComposedMessage): boolean {
+  return !!msg.options?.trackLinks && isLinkTrackingAvailable() && msg.buttons.flat().some((b) => b.action === "url");
+}
+
+/**
+ * Bookkeeping after the message carrying the keyboard was sent. Tracked
+ * links include the message ID, so they're swapped in with an edit right
+ * after sending; until then the buttons open the links directly.
+ */
+async function afterKeyboardSent(api: Api, chatId: number, messageId: number, msg: ComposedMessage): Promise<void> {
+  if (wantsTrackedLinks(msg)) {
+    try {
+      const keyboard = await buildInlineKeyboard(msg.buttons, { chatId, messageId, trackLinks: true });
+      await api.editMessageReplyMarkup(chatId, messageId, { reply_markup: keyboard });
+    } catch (error) {
+      console.error(`Failed to enable link tracking of message ${messageId} in ${chatId}:`, error);
+    }
+  }
+  await trackPublishedKeyboard(chatId, messageId, msg.buttons, msg.options?.trackLinks);
+}
+
+/**
+ * Records the grid a published message now carries: references of its
+ * stored alerts, its vote options, its giveaway, its tracked links and the grid itself. The message is already
+ * out, so failures are only logged. Pass an empty grid when the message is deleted.
+ */
+export async function trackPublishedKeyboard(
+  chatId: number,
+  messageId: number,
+  buttons: ComposedMessage["buttons"],
+  trackLinks?: boolean,
+): Promise<void> {
+  try {
+    await setMessageAlerts(chatId, messageId, buttons);
+    await setMessageVotes(chatId, messageId, { buttons, trackLinks });
+    await setMessageGiveaway(chatId, messageId, buttons);
+    await setMessageGrid(chatId, messageId, { buttons, trackLinks });
+    await setMessageLinks(chatId, messageId, buttons, trackLinks);
+  } catch (error) {
+    console.error(`Failed to track the keyboard of message ${messageId} in ${chatId}:`, error);
+  }
+}
 
 /**
  * Builds a Telegram InlineKeyboard from the 2D buttons array.
  * Alert texts that exceed the callback_data limit are stored in Redis
- * and referenced by a short key.
+ * and referenced by their content hash (see services/alerts.ts). For a
+ * published message, vote buttons show their option's count and links can
+ * go through the tracking redirect. Callers that publish the keyboard
+ * record it with trackPublishedKeyboard().
+ *
+ * The grid is validated first: the editors already check every button,
+ * but grids saved earlier (drafts, scheduled posts) may predate the checks.
+ * Throws with the list of problems instead of a raw Telegram error.
  */
 async function buildInlineKeyboard(
   buttons: ComposedMessage["buttons"],
+  published?: PublishedKeyboard,
 ): Promise<InlineKeyboard> {
+  const errors = validateButtonGrid(buttons);
+  if (errors.length > 0) {
+    throw new Error(`Кнопки не прошли проверку: ${errors.join("; ")}`);
+  }
+
+  const votes = published ? await getVoteCounts(published.chatId, published.messageId) : {};
+  const participants =
+    published && buttons.some((row) => row.some((btn) => btn.action === "giveaway"))
+      ? await getParticipantCount(published.chatId, published.messageId)
+      : 0;
+  const linkTarget = published?.trackLinks && isLinkTrackingAvailable() ? published : undefined;
+
   const keyboard = new InlineKeyboard();
   for (const row of buttons) {
     for (const btn of row) {
-      if (btn.action === "url") {
-        keyboard.url(btn.text, btn.value);
-      } else {
-        const inlineData = `alert:${btn.value}`;
-        if (Buffer.byteLength(inlineData, "utf-8") <= MAX_CALLBACK_DATA) {
-          keyboard.text(btn.text, inlineData);
-        } else {
-          // Store in Redis with a short random key, 30-day TTL
-          const shortId = crypto.randomUUID().slice(0, 8);
-          const key = `alert:${shortId}`;
-          await redis.set(key, btn.value, { ex: 2_592_000 });
-          keyboard.text(btn.text, `alrt:${shortId}`);
+      switch (btn.action) {
+        case "url":
+          keyboard.url(
+            btn.text,
+            linkTarget && isTrackableUrl(btn.value)
+              ? await trackedLinkUrl(linkTarget.chatId, linkTarget.messageId, btn.value)
+              : btn.value,
+          );
+          break;
+        // Mini Apps open by their direct t.me link: web_app buttons only work in private chats
+        case "web_app":
+          keyboard.url(btn.text, btn.value);
+          break;
+        case "copy_text":
+          keyboard.copyText(btn.text, btn.value);
+          break;
+        case "share":
+          keyboard.url(btn.text, buildShareLink(btn.value));
+          break;
+        case "login_url":
+          keyboard.login(btn.text, btn.value);
+          break;
+        case "start":
+          keyboard.url(btn.text, buildStartLink(btn.value));
+          break;
+        // Opens the bot's DM; the token stands for the inbox without revealing it
+        case "feedback":
+          keyboard.url(btn.text, buildStartLink(`${FEEDBACK_START_PREFIX}${await feedbackToken(Number(btn.value))}`));
+          break;
+        case "alert":
+          keyboard.text(btn.text, await alertCallbackData(btn.value));
+          break;
+        case "gated_alert":
+          keyboard.text(btn.text, await gatedAlertCallbackData(btn.value, btn.gateChatId ?? 0));
+          break;
+        case "vote": {
+          const count = votes[btn.value] ?? 0;
+          keyboard.text(count > 0 ? `${btn.text} ${count}` : btn.text, `vote:${btn.value}`);
+          break;
         }
+        case "giveaway":
+          keyboard.text(participants > 0 ? `${btn.text} ${participants}` : btn.text, "giveaway");
+          break;
       }
     }
     keyboard.row();
@@ -73,11 +599,12 @@ async function buildInlineKeyboard(
 
 /**
  * Builds an InlineKeyboard for attaching to existing messages.
- * Exported for use by the attach buttons flow.
+ * Exported for use by the attach buttons flow and vote count updates.
  * Alert texts that exceed callback_data limit are stored in Redis.
  */
 export async function buildAttachInlineKeyboard(
   buttons: ComposedMessage["buttons"],
+  published?: PublishedKeyboard,
 ): Promise<InlineKeyboard> {
-  return buildInlineKeyboard(buttons);
+  return buildInlineKeyboard(buttons, published);
 }
@@ -0,0 +1,258 @@
+import { createHash } from "node:crypto";
+import { redis } from "../storage/redis.js";
+import type { MessageButton } from "../types/index.js";
+import { optionalEnv } from "../utils/env.js";
+import { alertId } from "./alerts.js";
+
+/** Hash per published message: button key → total clicks */
+const CLICKS_KEY_PREFIX = "clicks:";
+/** Hash per published message: "YYYY-MM-DD|button key" → clicks that day (UTC) */
+const CLICK_DAYS_KEY_PREFIX = "click_days:";
+/** Set per published message and button: IDs of users who clicked */
+const CLICK_USERS_KEY_PREFIX = "click_users:";
+/** Tracked link token → { url, chatId, messageId } */
+const TRACKED_LINK_KEY_PREFIX = "tracked_link:";
+/** Set per published message: tokens of its tracked links */
+const MESSAGE_LINKS_KEY_PREFIX = "msg_links:";
+
+/** Stats of a message are kept this long after its last click, in seconds */
+const STATS_TTL = 90 * 86_400;
+
+/** Base URL of the deployment serving /api/r; link tracking is off without it */
+const PUBLIC_URL = optionalEnv("PUBLIC_URL", "").replace(/\/+$/, "");
+
+/** Hex chars of the SHA-256 digest used in link keys and tokens */
+const HASH_LENGTH = 16;
+
+function shortHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, HASH_LENGTH);
+}
+
+function messageKey(chatId: number, messageId: number): string {
+  return `${chatId}:${messageId}`;
+}
+
+/** UTC day of a timestamp, "YYYY-MM-DD" */
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Key under which clicks on a button are counted, or null for kinds the
+ * bot never sees (copy, share, Mini App, login, start, tg:// links).
+ * Derived from the button's value, so counts survive moving the button
+ * or renaming it.
+ */
+export function buttonStatsKey(btn: MessageButton): string | null {
+  switch (btn.action) {
+    case "alert":
+      return `alert:${alertId(btn.value)}`;
+    case "gated_alert":
+      return `gated:${alertId(btn.value)}`;
+    case "vote":
+      return `vote:${btn.value}`;
+    case "giveaway":
+      return "giveaway";
+    case "url":
+      return isTrackableUrl(btn.value) ? linkStatsKey(btn.value) : null;
+    default:
+      return null;
+  }
+}
+
+/** Stats key of a URL button, also used by the tracking redirect */
+export function linkStatsKey(url: string): string {
+  return `url:${shortHash(url)}`;
+}
+
+/**
+ * Counts a click on a button of a published message. Stats are analytics
+ * only, so failures are logged and never break the click itself.
+ *
+ * @param userId - the clicking user; unknown for link redirects
+ */
+export async function recordClick(
+  chatId: number,
+  messageId: number,
+  buttonKey: string,
+  userId?: number,
+): Promise<void> {
+  const key = messageKey(chatId, messageId);
+  const clicksKey = `${CLICKS_KEY_PREFIX}${key}`;
+  const daysKey = `${CLICK_DAYS_KEY_PREFIX}${key}`;
+
+  try {
+    await redis.hincrby(clicksKey, buttonKey, 1);
+    await redis.hincrby(daysKey, `${dayKey(new Date())}|${buttonKey}`, 1);
+    await redis.expire(clicksKey, STATS_TTL);
+    await redis.expire(daysKey, STATS_TTL);
+
+    if (userId !== undefined) {
+      const usersKey = `${CLICK_USERS_KEY_PREFIX}${key}:${buttonKey}`;
+      await redis.sadd(usersKey, String(userId));
+      await redis.expire(usersKey, STATS_TTL);
+    }
+  } catch (error) {
+    console.error(`Failed to record a click on ${buttonKey} of message ${messageId} in ${chatId}:`, error);
+  }
+}
+
+/** Click stats of one button */
+export interface ButtonStats {
+  button: MessageButton;
+  total: number;
+  /** Distinct users; null for links, whose redirects don't identify the user */
+  unique: number | null;
+  /** Clicks per UTC day, oldest first, for the requested number of days */
+  byDay: number[];
+}
+
+/**
+ * Returns click stats for every countable button of a published message,
+ * in grid order. Buttons with the same key (e.g. one vote option shown
+ * twice) are reported once.
+ *
+ * @param includeLinks - the message's links go through the tracking redirect
+ * @param days - how many recent days to break the clicks down by, today included
+ */
+export async function getMessageStats(
+  chatId: number,
+  messageId: number,
+  buttons: MessageButton[][],
+  includeLinks: boolean,
+  days = 7,
+): Promise<ButtonStats[]> {
+  const key = messageKey(chatId, messageId);
+  const totals = (await redis.hgetall<Record<string, string>>(`${CLICKS_KEY_PREFIX}${key}`)) ?? {};
+  const daily = (await redis.hgetall<Record<string, string>>(`${CLICK_DAYS_KEY_PREFIX}${key}`)) ?? {};
+
+  const dayKeys: string[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    dayKeys.push(dayKey(new Date(Date.now() - i * 86_400_000)));
+  }
+
+  const stats: ButtonStats[] = [];
+  const seen = new Set<string>();
+  for (const button of buttons.flat()) {
+    const statsKey = buttonStatsKey(button);
+    if (!statsKey || seen.has(statsKey) || (button.action === "url" && !includeLinks)) continue;
+    seen.add(statsKey);
+
+    stats.push({
+      button,
+      total: Number(totals[statsKey] ?? 0),
+      unique:
+        button.action === "url"
+          ? null
+          : await redis.scard(`${CLICK_USERS_KEY_PREFIX}${key}:${statsKey}`),
+      byDay: dayKeys.map((day) => Number(daily[`${day}|${statsKey}`] ?? 0)),
+    });
+  }
+  return stats;
+}
+
+/**
+ * Drops the stats of a message (after it was deleted).
+ */
+export async function deleteMessageStats(
+  chatId: number,
+  messageId: number,
+  buttons: MessageButton[][],
+): Promise<void> {
+  const key = messageKey(chatId, messageId);
+  const userKeys = buttons
+    .flat()
+    .map(buttonStatsKey)
+    .filter((k): k is string => k !== null)
+    .map((k) => `${CLICK_USERS_KEY_PREFIX}${key}:${k}`);
+  await redis.del(`${CLICKS_KEY_PREFIX}${key}`, `${CLICK_DAYS_KEY_PREFIX}${key}`, ...userKeys);
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  Tracked links: URL buttons routed through /api/r
+// ═══════════════════════════════════════════════════════════════
+
+/** Target of a tracked link */
+export interface TrackedLink {
+  url: string;
+  chatId: number;
+  messageId: number;
+}
+
+/** Whether URL buttons can be routed through the redirect (PUBLIC_URL is set) */
+export function isLinkTrackingAvailable(): boolean {
+  return PUBLIC_URL !== "";
+}
+
+/**
+ * Whether a link may go through the redirect: only http(s). Other schemes
+ * (tg://) are opened by the app itself and mustn't be redirected to.
+ */
+export function isTrackableUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/** Token of a tracked link: depends only on the message and the link */
+function linkToken(chatId: number, messageId: number, url: string): string {
+  return shortHash(`${messageKey(chatId, messageId)}|${url}`);
+}
+
+/**
+ * Returns the redirect URL that counts a click and forwards to the link.
+ * The token depends only on the message and the link, so rebuilding the
+ * keyboard on edits reuses it. Links keep working while the message shows
+ * them, see setMessageLinks().
+ */
+export async function trackedLinkUrl(chatId: number, messageId: number, url: string): Promise<string> {
+  const link: TrackedLink = { url, chatId, messageId };
+  const token = linkToken(chatId, messageId, url);
+  await redis.set(`${TRACKED_LINK_KEY_PREFIX}${token}`, JSON.stringify(link));
+  await redis.sadd(`${MESSAGE_LINKS_KEY_PREFIX}${messageKey(chatId, messageId)}`, token);
+  return `${PUBLIC_URL}/api/r?t=${token}`;
+}
+
+/**
+ * Drops the tracked links a published message no longer shows, once its
+ * grid changed: links removed from the grid, or all of them when tracking
+ * is off or the grid is empty (the message was deleted).
+ */
+export async function setMessageLinks(
+  chatId: number,
+  messageId: number,
+  buttons: MessageButton[][],
+  trackLinks?: boolean,
+): Promise<void> {
+  const setKey = `${MESSAGE_LINKS_KEY_PREFIX}${messageKey(chatId, messageId)}`;
+  const shown = new Set(
+    trackLinks
+      ? buttons
+          .flat()
+          .filter((btn) => btn.action === "url" && isTrackableUrl(btn.value))
+          .map((btn) => linkToken(chatId, messageId, btn.value))
+      : [],
+  );
+
+  for (const token of await redis.smembers(setKey)) {
+    if (shown.has(token)) continue;
+    await redis.del(`${TRACKED_LINK_KEY_PREFIX}${token}`);
+    await redis.srem(setKey, token);
+  }
+}
+
+/**
+ * Resolves a tracked link token, or null if it's unknown.
+ */
+export async function resolveTrackedLink(token: string): Promise<TrackedLink | null> {
+  const data = await redis.get<string>(`${TRACKED_LINK_KEY_PREFIX}${token}`);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as TrackedLink;
+  } catch {
+    return null;
+  }
+}
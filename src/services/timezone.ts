@@ -0,0 +1,22 @@
+import { redis } from "../storage/redis.js";
+import { optionalEnv } from "../utils/env.js";
+
+const TIMEZONE_KEY_PREFIX = "user_tz:";
+
+/** Timezone used until a user picks their own */
+export const DEFAULT_TIMEZONE = optionalEnv("DEFAULT_TIMEZONE", "Europe/Moscow");
+
+/**
+ * Returns the user's IANA timezone, or the default one if not set.
+ */
+export async function getUserTimezone(userId: number): Promise<string> {
+  const tz = await redis.get<string>(`${TIMEZONE_KEY_PREFIX}${userId}`);
+  return tz ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Saves the user's IANA timezone. The value must already be normalized.
+ */
+export async function setUserTimezone(userId: number, tz: string): Promise<void> {
+  await redis.set(`${TIMEZONE_KEY_PREFIX}${userId}`, tz);
+}
@@ -0,0 +1,49 @@
+import type { Api } from "grammy";
+import { redis } from "../storage/redis.js";
+import type { ForumTopic } from "../types/index.js";
+
+/** Hash per chat: message_thread_id → topic name */
+const TOPICS_KEY_PREFIX = "forum_topics:";
+
+/**
+ * Remembers a forum topic. Called for forum_topic_created and
+ * forum_topic_edited service messages: Bot API has no method to list topics.
+ */
+export async function saveForumTopic(chatId: number, threadId: number, name: string): Promise<void> {
+  await redis.hset(`${TOPICS_KEY_PREFIX}${chatId}`, { [String(threadId)]: name });
+}
+
+/**
+ * Returns the known topics of a forum chat, oldest first.
+ */
+export async function getForumTopics(chatId: number): Promise<ForumTopic[]> {
+  const data = await redis.hgetall<Record<string, string>>(`${TOPICS_KEY_PREFIX}${chatId}`);
+  if (!data) return [];
+  return Object.entries(data)
+    .map(([threadId, name]) => ({ threadId: parseInt(threadId, 10), name: String(name) }))
+    .sort((a, b) => a.threadId - b.threadId);
+}
+
+/** Topic name for display; topics entered by link may be unknown */
+export async function getForumTopicName(chatId: number, threadId: number): Promise<string> {
+  const name = await redis.hget<string>(`${TOPICS_KEY_PREFIX}${chatId}`, String(threadId));
+  return name ?? `Тема #${threadId}`;
+}
+
+/**
+ * Returns the IDs of the given chats that are forum supergroups.
+ * Checked live, since a group can enable or disable topics at any time.
+ * Chats that can't be checked are treated as regular chats.
+ */
+export async function filterForumChats(api: Api, chatIds: number[]): Promise<number[]> {
+  const forums: number[] = [];
+  for (const chatId of chatIds) {
+    try {
+      const chat = await api.getChat(chatId);
+      if (chat.type === "supergroup" && chat.is_forum) forums.push(chatId);
+    } catch (error) {
+      console.error(`Failed to check forum status of ${chatId}:`, error);
+    }
+  }
+  return forums;
+}
@@ -0,0 +1,176 @@
+import { redis } from "../storage/redis.js";
+import type { MessageButton } from "../types/index.js";
+
+/** Button grid of a published message with live counts (votes, giveaway), to re-render it */
+const VOTE_GRID_KEY_PREFIX = "vote_grid:";
+/** Hash: user ID → chosen option ID */
+const VOTE_CHOICES_KEY_PREFIX = "vote_choices:";
+/** Hash: option ID → number of votes */
+const VOTE_TALLY_KEY_PREFIX = "vote_tally:";
+/** Set while the counts of a message were re-rendered recently */
+const VOTE_RENDER_THROTTLE_KEY_PREFIX = "vote_render:";
+/** Set of messages ("chatId:messageId") whose counts changed after their last render */
+const VOTE_DIRTY_KEY = "vote_dirty";
+
+/** Min time between re-renders of one message, in seconds */
+const VOTE_RENDER_INTERVAL = 2;
+/** No new throttled re-renders are started after this much of a run, in ms */
+const PENDING_RENDER_TIME_BUDGET_MS = 2_000;
+
+/**
+ * Moves a user's vote in one step, so concurrent clicks can't double-count:
+ * takes back the previous choice, then records the new one unless it's the
+ * same option. Returns the choice after the click, or nil.
+ */
+const CAST_VOTE_SCRIPT = `
+local previous = redis.call("HGET", KEYS[1], ARGV[1])
+if previous then
+  redis.call("HINCRBY", KEYS[2], previous, -1)
+end
+if previous == ARGV[2] then
+  redis.call("HDEL", KEYS[1], ARGV[1])
+  return nil
+end
+redis.call("HSET", KEYS[1], ARGV[1], ARGV[2])
+redis.call("HINCRBY", KEYS[2], ARGV[2], 1)
+return ARGV[2]`;
+
+/** Vote counts of a message by option ID */
+export type VoteCounts = Record<string, number>;
+
+function messageKey(chatId: number, messageId: number): string {
+  return `${chatId}:${messageId}`;
+}
+
+function hasVotes(buttons: MessageButton[][]): boolean {
+  return buttons.some((row) => row.some((btn) => btn.action === "vote"));
+}
+
+/** Whether the grid shows counts that change with clicks */
+function hasLiveCounts(buttons: MessageButton[][]): boolean {
+  return buttons.some((row) => row.some((btn) => btn.action === "vote" || btn.action === "giveaway"));
+}
+
+/** Grid of a published message with live counts, with what's needed to re-render it */
+export interface VoteGrid {
+  buttons: MessageButton[][];
+  /** The message's links go through the tracking redirect */
+  trackLinks?: boolean;
+}
+
+/**
+ * Records the grid a published message now carries. Votes for options
+ * that are still in the grid are kept; a grid without vote buttons (or an
+ * empty one, when the message is deleted) drops the voting altogether.
+ * The grid itself is kept while it has any live counts to re-render.
+ */
+export async function setMessageVotes(chatId: number, messageId: number, grid: VoteGrid): Promise<void> {
+  const key = messageKey(chatId, messageId);
+  if (hasLiveCounts(grid.buttons)) {
+    await redis.set(`${VOTE_GRID_KEY_PREFIX}${key}`, JSON.stringify(grid));
+  } else {
+    await redis.del(`${VOTE_GRID_KEY_PREFIX}${key}`);
+  }
+  if (!hasVotes(grid.buttons)) {
+    await redis.del(`${VOTE_CHOICES_KEY_PREFIX}${key}`, `${VOTE_TALLY_KEY_PREFIX}${key}`);
+  }
+}
+
+/**
+ * Returns the recorded grid of a message, or null if it has no live counts.
+ */
+export async function getVoteGrid(chatId: number, messageId: number): Promise<VoteGrid | null> {
+  const data = await redis.get<string>(`${VOTE_GRID_KEY_PREFIX}${messageKey(chatId, messageId)}`);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as VoteGrid;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the vote counts of a message. Empty for messages without voting.
+ */
+export async function getVoteCounts(chatId: number, messageId: number): Promise<VoteCounts> {
+  const tally = await redis.hgetall<Record<string, string>>(
+    `${VOTE_TALLY_KEY_PREFIX}${messageKey(chatId, messageId)}`,
+  );
+  const counts: VoteCounts = {};
+  for (const [option, count] of Object.entries(tally ?? {})) {
+    counts[option] = Number(count);
+  }
+  return counts;
+}
+
+/**
+ * Registers a user's click on a vote option. One vote per user: clicking
+ * another option moves the vote, clicking the chosen one takes it back.
+ * Returns the user's choice after the click (null when taken back).
+ */
+export async function castVote(
+  chatId: number,
+  messageId: number,
+  userId: number,
+  optionId: string,
+): Promise<string | null> {
+  const key = messageKey(chatId, messageId);
+  const choice = await redis.eval<[string, string], string | null>(
+    CAST_VOTE_SCRIPT,
+    [`${VOTE_CHOICES_KEY_PREFIX}${key}`, `${VOTE_TALLY_KEY_PREFIX}${key}`],
+    [String(userId), optionId],
+  );
+  return choice ?? null;
+}
+
+/**
+ * Re-renders the counts of a message right away, at most once per
+ * VOTE_RENDER_INTERVAL seconds. Clicks inside the interval only mark the
+ * message, and renderPendingCounts() shows them on the next cron run, so no
+ * update waits for other clicks to pile up. A failed render marks it too.
+ * @param render - returns false if the counts couldn't be shown
+ */
+export async function renderVotesThrottled(
+  chatId: number,
+  messageId: number,
+  render: () => Promise<boolean>,
+): Promise<void> {
+  const key = messageKey(chatId, messageId);
+  const free = await redis.set(`${VOTE_RENDER_THROTTLE_KEY_PREFIX}${key}`, "1", {
+    nx: true,
+    ex: VOTE_RENDER_INTERVAL,
+  });
+  if (!free) {
+    await redis.sadd(VOTE_DIRTY_KEY, key);
+    return;
+  }
+
+  await redis.srem(VOTE_DIRTY_KEY, key);
+  if (!(await render())) {
+    await redis.sadd(VOTE_DIRTY_KEY, key);
+  }
+}
+
+/**
+ * Re-renders the messages whose last clicks were throttled, for at most
+ * PENDING_RENDER_TIME_BUDGET_MS. A message leaves the set only once its
+ * counts are shown; the rest waits for the next run.
+ * Called by the dispatch endpoint. Returns the number of messages shown.
+ * @param render - returns false if the counts couldn't be shown
+ */
+export async function renderPendingCounts(
+  render: (chatId: number, messageId: number) => Promise<boolean>,
+): Promise<number> {
+  const started = Date.now();
+  const keys = await redis.smembers(VOTE_DIRTY_KEY);
+  let rendered = 0;
+  for (const key of keys) {
+    if (Date.now() - started > PENDING_RENDER_TIME_BUDGET_MS) break;
+
+    const [chatId, messageId] = key.split(":").map(Number);
+    if (!(await render(chatId!, messageId!))) continue;
+    await redis.srem(VOTE_DIRTY_KEY, key);
+    rendered++;
+  }
+  return rendered;
+}
@@ -27,3 +27,25 @@ export function createRedisSession() {
     storage,
   });
 }
+
+/**
+ * Rewrites a user's stored session outside of their own updates
+ * (e.g. when a chat they target is migrated). Does nothing if there's no session.
+ */
+export async function updateStoredSession(
+  key: string,
+  update: (session: SessionData) => void,
+): Promise<void> {
+  const session = await storage.read(key);
+  if (!session) return;
+  update(session);
+  await storage.write(key, session);
+}
+
+/**
+ * Reads a user's stored session outside of their own updates
+ * (e.g. to check for a message in progress). Returns undefined if there's none.
+ */
+export async function readStoredSession(key: string): Promise<SessionData | undefined> {
+  return storage.read(key);
+}
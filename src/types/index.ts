@@ -1,19 +1,107 @@
 import type { Context, SessionFlavor, LazySessionFlavor } from "grammy";
+import type { LinkPreviewOptions, MessageEntity } from "grammy/types";
+
+/**
+ * What an inline button does:
+ * - url: opens a link
+ * - alert: shows a popup with text
+ * - copy_text: copies text (e.g. a promo code) to the clipboard
+ * - share: opens the chat picker with a text and a link to the bot (t.me/share)
+ * - web_app: opens a Mini App by its direct t.me link
+ * - login_url: authorizes the user on a website via Telegram Login
+ * - start: opens the bot's DM with a start payload
+ * - vote: a voting option; the published post shows live counts on its vote buttons
+ * - gated_alert: popup alert shown only to members of the chat in gateChatId
+ * - giveaway: enters the user into the post's giveaway; shows the participant count
+ * - feedback: opens the bot's DM to write to the post's author through the bot
+ */
+export type ButtonAction =
+  | "url"
+  | "alert"
+  | "copy_text"
+  | "share"
+  | "web_app"
+  | "login_url"
+  | "start"
+  | "vote"
+  | "gated_alert"
+  | "giveaway"
+  | "feedback";
 
 /** A single inline button in the message builder grid */
 export interface MessageButton {
   text: string;
-  action: "url" | "alert";
-  /** URL for "url" action, alert text for "alert" action */
+  action: ButtonAction;
+  /**
+   * URL for "url", "web_app" and "login_url"; alert text for "alert" and "gated_alert";
+   * copied text for "copy_text"; shared text for "share"; payload for "start";
+   * option ID for "vote" (buttons with the same ID count as one option);
+   * prize description for "giveaway"; for "feedback", the chat that receives
+   * the messages (the author's user ID or a team chat ID)
+   */
   value: string;
+  /** "gated_alert" only: the channel/group whose members may see the alert */
+  gateChatId?: number;
+}
+
+/** Kinds of media that can be attached to a composed message */
+export type MediaType = "photo" | "video" | "animation" | "document" | "audio";
+
+/** A single media file attached to the composed message */
+export interface MediaAttachment {
+  type: MediaType;
+  fileId: string;
+}
+
+/** Per-message delivery and display options, applied by the sender */
+export interface MessageOptions {
+  /** Show the caption above the media (show_caption_above_media) */
+  captionAboveMedia?: boolean;
+  /** Hide photos/videos/GIFs behind a spoiler (has_spoiler) */
+  mediaSpoiler?: boolean;
+  /** Link preview settings for text-only posts */
+  linkPreview?: LinkPreviewOptions;
+  /** Send silently (disable_notification) */
+  silent?: boolean;
+  /** Forbid forwarding and saving (protect_content) */
+  protectContent?: boolean;
+  /** Route URL buttons through the bot's redirect to count clicks (needs PUBLIC_URL) */
+  trackLinks?: boolean;
 }
 
 /** The composed message ready to be sent */
 export interface ComposedMessage {
   text: string;
-  imageFileId?: string;
+  /**
+   * Formatting entities captured from the author's message (bold, links, spoilers…).
+   * Sent as `entities` for text posts and `caption_entities` for media posts.
+   */
+  entities?: MessageEntity[];
+  /** Attached media: one item is sent on its own, 2–10 as an album */
+  media?: MediaAttachment[];
   /** 2D array: rows of buttons */
   buttons: MessageButton[][];
+  /** Display and delivery options chosen on the review step */
+  options?: MessageOptions;
+}
+
+/**
+ * A post scheduled for later publishing.
+ * Stored in Redis outside the session; dispatched by the cron endpoint.
+ */
+export interface ScheduledPost {
+  id: string;
+  /** Author who scheduled the post (receives failure reports by DM) */
+  userId: number;
+  /** Target chats (and forum topics) with titles at scheduling time, for lists and reports */
+  targets: SendTarget[];
+  message: ComposedMessage;
+  /** UTC epoch milliseconds */
+  sendAt: number;
+  createdAt: number;
+  status: "pending" | "failed";
+  /** Telegram error of the last failed dispatch attempt */
+  lastError?: string;
 }
 
 /** Info about a group or channel the bot has been added to */
@@ -22,19 +110,117 @@ export interface GroupInfo {
   title: string;
 }
 
+/**
+ * A chat the bot is a member of. Indexed per chat, independently of users:
+ * who may publish there is resolved per user from their admin rights.
+ */
+export interface ChatRecord {
+  chatId: number;
+  title: string;
+  type: "group" | "supergroup" | "channel";
+  /** The bot's own membership status */
+  botStatus: "creator" | "administrator" | "member";
+  /** User who added the bot, when known */
+  addedBy?: number;
+  /** UTC epoch milliseconds */
+  updatedAt: number;
+}
+
+/** A chat to publish into, optionally a specific forum topic */
+export interface SendTarget extends GroupInfo {
+  /** Forum topic (message_thread_id); absent for General and non-forum chats */
+  threadId?: number;
+  /** Topic name at selection time, for lists and reports */
+  topicName?: string;
+}
+
+/** A forum topic discovered in a supergroup */
+export interface ForumTopic {
+  threadId: number;
+  name: string;
+}
+
+/**
+ * A published post, recorded so the author can manage it later via /posts.
+ * Stored in Redis outside the session.
+ */
+export interface SentPost {
+  id: string;
+  /** Author who published the post */
+  userId: number;
+  chatId: number;
+  /** Chat title at publishing time */
+  chatTitle: string;
+  /** Message carrying the text (or caption) and the buttons */
+  messageId: number;
+  /** All messages of the post in chat order: album items and the button message */
+  messageIds: number[];
+  /** Content as currently published; updated after each edit */
+  message: ComposedMessage;
+  /** UTC epoch milliseconds */
+  sentAt: number;
+  editedAt?: number;
+}
+
+/**
+ * A named draft saved by the user. Stored in Redis outside the session
+ * and never expires, unlike the in-progress builder state.
+ */
+export interface Draft {
+  id: string;
+  userId: number;
+  name: string;
+  message: ComposedMessage;
+  createdAt: number;
+  updatedAt: number;
+  /** Token of the draft's share link, while sharing is on */
+  shareToken?: string;
+}
+
+/** A user's personal settings for their chat list in the group picker */
+export interface ChatPrefs {
+  /** Chats pinned to the top of the picker, in pin order */
+  favorites: number[];
+  /** Custom names shown instead of chat titles: chat ID → alias */
+  aliases: Record<string, string>;
+  /** Chat pre-selected as the target when nothing is selected yet */
+  defaultChatId?: number;
+}
+
+/** Outcome of sending a post to one target chat */
+export interface SendResult {
+  chatId: number;
+  title: string;
+  ok: boolean;
+  /** Telegram error description when ok is false */
+  error?: string;
+}
+
 /**
  * Steps in the message builder flow.
  * - idle: no active flow
  * - write_text: user is writing message text
- * - add_image: asking if user wants to add an image
- * - send_image: waiting for user to send an image
+ * - add_image: asking if user wants to add media (photo, video, GIF, document, audio)
+ * - send_image: waiting for user to send one or more media files (album)
  * - edit_buttons: showing button grid with add/edit controls
  * - btn_text: writing text for a button
  * - btn_action: choosing button action type (url/alert)
  * - btn_value: writing url or alert text for a button
  * - review: final preview before sending
- * - select_group: choosing target group
- * - confirm_send: confirming send to selected group
+ * - edit_options: per-message options (caption position, spoiler, link preview, silent, protect)
+ * - select_group: choosing target groups (multi-select checklist)
+ * - group_alias: waiting for an alias of a chat in the picker
+ * - select_topic: choosing a forum topic for a selected forum supergroup (or sending its link)
+ * - confirm_send: confirming send to selected groups
+ * - schedule_time: waiting for the publish date/time of a scheduled post
+ * - schedule_timezone: waiting for the user's timezone
+ * - draft_name: waiting for the name of a draft being saved
+ * - post_edit_text: waiting for new text of a published post (/posts)
+ * - post_replace_media: waiting for a file replacing a published post's media (/posts)
+ * - feedback_message: waiting for a message to relay to a post's author (feedback button)
+ * - link_edit_url: waiting for the link of a message to edit
+ * - link_edit_content: waiting for new text or media of the message edited by link
+ * - link_edit_buttons: waiting for the text layout of its new buttons
  */
 export type BuilderStep =
   | "idle"
@@ -46,8 +232,20 @@ export type BuilderStep =
   | "btn_action"
   | "btn_value"
   | "review"
+  | "edit_options"
   | "select_group"
-  | "confirm_send";
+  | "group_alias"
+  | "select_topic"
+  | "confirm_send"
+  | "schedule_time"
+  | "schedule_timezone"
+  | "draft_name"
+  | "post_edit_text"
+  | "post_replace_media"
+  | "feedback_message"
+  | "link_edit_url"
+  | "link_edit_content"
+  | "link_edit_buttons";
 
 /**
  * Steps in the "attach buttons to existing message" flow.
@@ -72,7 +270,27 @@ export interface AttachFlowData {
   /** Temp storage for button text */
   pendingButtonText?: string;
   /** Temp storage for button action type */
-  pendingButtonAction?: "url" | "alert";
+  pendingButtonAction?: ButtonAction;
+  /** Temp storage for the gating chat of a gated alert */
+  pendingGateChatId?: number;
+}
+
+/**
+ * A message in a chat being edited by its link. Unlike /posts, its content
+ * is unknown; only the buttons the bot put on it are recorded.
+ */
+export interface LinkEditTarget {
+  chatId: number;
+  messageId: number;
+  chatTitle: string;
+  /** Grid to put under the message: its current buttons unless replaced */
+  buttons: MessageButton[][];
+  /** The buttons were replaced or removed in this edit */
+  buttonsChanged: boolean;
+  /** The bot has no record of the message's buttons: unless replaced, edits keep its keyboard */
+  gridUnknown?: boolean;
+  /** The message's links go through the tracking redirect */
+  trackLinks?: boolean;
 }
 
 export interface SessionData {
@@ -88,17 +306,59 @@ export interface SessionData {
   pendingButtonText?: string;
 
   /** Temp storage for button action type while entering value */
-  pendingButtonAction?: "url" | "alert";
+  pendingButtonAction?: ButtonAction;
+
+  /** Temp storage for the gating chat of a gated alert while entering its text */
+  pendingGateChatId?: number;
+
+  /** Selected target group/channel chat IDs (the post is sent to each) */
+  targetGroupIds?: number[];
+
+  /** Current page of the group picker */
+  groupPage?: number;
+
+  /** Search query typed in the group picker (matches titles and aliases) */
+  groupSearch?: string;
+
+  /** Chat whose picker settings (favorite, alias, default) are open */
+  configChatId?: number;
+
+  /** Chosen forum topics: chat ID → message_thread_id. Chats not listed go to General */
+  targetTopics?: Record<string, number>;
 
-  /** Selected target group chat ID */
-  targetGroupId?: number;
+  /** Selected chats that are forums, in selection order (topic picker navigation) */
+  forumChatIds?: number[];
+
+  /** Forum chat whose topic picker is open */
+  topicChatId?: number;
+
+  /** ID of the scheduled post being edited or rescheduled */
+  scheduledPostId?: string;
+
+  /** ID of the draft loaded into the builder (offered for overwrite on save) */
+  draftId?: string;
+
+  /**
+   * ID of the published post being edited via /posts. While set, the button
+   * grid editor applies its result to that post instead of continuing the builder.
+   */
+  editingPostId?: string;
+
+  /** The message edited by link, during the link_edit_* steps */
+  linkEdit?: LinkEditTarget;
+
+  /** Deep link token of the inbox a feedback message goes to, while step is "feedback_message" */
+  feedbackToken?: string;
 
   /** ID of the last bot message (for editing/deleting) */
   lastBotMessageId?: number;
 
-  /** Whether the last bot message is a photo (vs text) */
+  /** Whether the last bot message is a media message (vs text) */
   lastBotMessageIsPhoto?: boolean;
 
+  /** IDs of album preview messages sent above the last bot message */
+  previewMessageIds?: number[];
+
   /** Data for "attach buttons to existing message" flow */
   attachFlow: AttachFlowData;
 }
@@ -0,0 +1,147 @@
+/**
+ * Date/time helpers for scheduling. All user-facing times are wall-clock
+ * times in the user's IANA timezone; storage uses UTC epoch milliseconds.
+ */
+
+/** Wall-clock parts in a timezone (month is 1-based) */
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/** Returns true if the string is a timezone supported by Intl */
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalizes user timezone input into an IANA name.
+ * Accepts names like "Europe/Moscow" and whole-hour offsets like "+3",
+ * "UTC+3" or "GMT-5" (mapped to Etc/GMT zones, whose sign is inverted).
+ * Returns null if the input can't be understood.
+ */
+export function normalizeTimezone(input: string): string | null {
+  const trimmed = input.trim();
+
+  const offsetMatch = trimmed.match(/^(?:utc|gmt|мск)?\s*([+-])\s*(\d{1,2})(?::00)?$/i);
+  if (offsetMatch) {
+    const hours = parseInt(offsetMatch[2]!, 10);
+    if (hours > 14) return null;
+    if (hours === 0) return "UTC";
+    // Etc/GMT-3 means UTC+3
+    const sign = offsetMatch[1] === "+" ? "-" : "+";
+    return `Etc/GMT${sign}${hours}`;
+  }
+
+  if (/^(utc|gmt)$/i.test(trimmed)) return "UTC";
+  return isValidTimezone(trimmed) ? trimmed : null;
+}
+
+/** Returns wall-clock parts of an instant in the given timezone */
+function getZonedParts(date: Date, tz: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value ?? "0", 10);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+  };
+}
+
+/** Offset of the timezone from UTC at the given instant, in milliseconds */
+function getOffsetMs(date: Date, tz: string): number {
+  const p = getZonedParts(date, tz);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const truncated = Math.floor(date.getTime() / 60_000) * 60_000;
+  return asUtc - truncated;
+}
+
+/**
+ * Converts wall-clock parts in a timezone to a UTC Date.
+ * Re-checks the offset at the result to handle DST transitions.
+ */
+function zonedTimeToUtc(p: ZonedParts, tz: string): Date {
+  const guess = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const firstOffset = getOffsetMs(new Date(guess), tz);
+  const result = guess - firstOffset;
+  const secondOffset = getOffsetMs(new Date(result), tz);
+  return new Date(guess - secondOffset);
+}
+
+/**
+ * Parses a date/time typed by the user in their timezone.
+ *
+ * Supported formats:
+ * - 18:30 (today, or tomorrow if the time has already passed)
+ * - завтра 18:30
+ * - 25.12 18:30 (this year, or next year if the date has already passed)
+ * - 25.12.2026 18:30
+ *
+ * @returns The UTC instant, or null if the input can't be parsed
+ */
+export function parseLocalDateTime(input: string, tz: string, now = new Date()): Date | null {
+  const text = input.trim().toLowerCase().replace(/\s+/g, " ");
+  const today = getZonedParts(now, tz);
+
+  const timeOnly = text.match(/^(завтра )?(\d{1,2})[:.](\d{2})$/);
+  if (timeOnly) {
+    const hour = parseInt(timeOnly[2]!, 10);
+    const minute = parseInt(timeOnly[3]!, 10);
+    if (hour > 23 || minute > 59) return null;
+
+    let result = zonedTimeToUtc({ ...today, hour, minute }, tz);
+    if (timeOnly[1] || result.getTime() <= now.getTime()) {
+      const tomorrow = getZonedParts(new Date(result.getTime() + 86_400_000), tz);
+      result = zonedTimeToUtc({ ...tomorrow, hour, minute }, tz);
+    }
+    return result;
+  }
+
+  const full = text.match(/^(\d{1,2})\.(\d{1,2})(?:\.(\d{4}))? (\d{1,2})[:.](\d{2})$/);
+  if (full) {
+    const day = parseInt(full[1]!, 10);
+    const month = parseInt(full[2]!, 10);
+    const hour = parseInt(full[4]!, 10);
+    const minute = parseInt(full[5]!, 10);
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) return null;
+
+    const explicitYear = full[3] ? parseInt(full[3], 10) : undefined;
+    let result = zonedTimeToUtc({ year: explicitYear ?? today.year, month, day, hour, minute }, tz);
+    if (!explicitYear && result.getTime() <= now.getTime()) {
+      result = zonedTimeToUtc({ year: today.year + 1, month, day, hour, minute }, tz);
+    }
+
+    // Reject overflowing dates like 31.02
+    const check = getZonedParts(result, tz);
+    if (check.day !== day || check.month !== month) return null;
+    return result;
+  }
+
+  return null;
+}
+
+/** Formats an instant as "25.12.2026 18:30" in the given timezone */
+export function formatLocalDateTime(date: Date | number, tz: string): string {
+  const p = getZonedParts(new Date(date), tz);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(p.day)}.${pad(p.month)}.${p.year} ${pad(p.hour)}:${pad(p.minute)}`;
+}
@@ -0,0 +1,126 @@
+import type { MessageEntity } from "grammy/types";
+
+/** Escape HTML special chars for Telegram HTML parse mode */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Picks the Russian plural form for a count, e.g. plural(3, "чат", "чата", "чатов").
+ */
+export function plural(n: number, one: string, few: string, many: string): string {
+  const mod10 = n % 10;
+  const mod100 = n % 100;
+  if (mod10 === 1 && mod100 !== 11) return one;
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return few;
+  return many;
+}
+
+/** Escape a value placed inside a double-quoted HTML attribute */
+function escapeAttr(text: string): string {
+  return escapeHtml(text).replace(/"/g, "&quot;");
+}
+
+function openTag(entity: MessageEntity): string {
+  switch (entity.type) {
+    case "bold":
+      return "<b>";
+    case "italic":
+      return "<i>";
+    case "underline":
+      return "<u>";
+    case "strikethrough":
+      return "<s>";
+    case "spoiler":
+      return "<tg-spoiler>";
+    case "code":
+      return "<code>";
+    case "pre":
+      return entity.language
+        ? `<pre><code class="language-${escapeAttr(entity.language)}">`
+        : "<pre>";
+    case "text_link":
+      return `<a href="${escapeAttr(entity.url)}">`;
+    case "text_mention":
+      return `<a href="tg://user?id=${entity.user.id}">`;
+    case "blockquote":
+      return "<blockquote>";
+    case "expandable_blockquote":
+      return "<blockquote expandable>";
+    default:
+      // mention, hashtag, url, custom_emoji etc. render as plain text
+      return "";
+  }
+}
+
+function closeTag(entity: MessageEntity): string {
+  switch (entity.type) {
+    case "bold":
+      return "</b>";
+    case "italic":
+      return "</i>";
+    case "underline":
+      return "</u>";
+    case "strikethrough":
+      return "</s>";
+    case "spoiler":
+      return "</tg-spoiler>";
+    case "code":
+      return "</code>";
+    case "pre":
+      return entity.language ? "</code></pre>" : "</pre>";
+    case "text_link":
+    case "text_mention":
+      return "</a>";
+    case "blockquote":
+    case "expandable_blockquote":
+      return "</blockquote>";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Renders plain text + Telegram entities as Telegram HTML.
+ * Used to embed user-authored content inside bot screens sent with parse_mode HTML.
+ * Offsets are UTF-16 code units, which matches JS string indexing.
+ * Partially overlapping entities are closed and reopened to keep tags well-nested.
+ */
+export function entitiesToHtml(text: string, entities: MessageEntity[] = []): string {
+  if (entities.length === 0) return escapeHtml(text);
+
+  const sorted = [...entities].sort((a, b) => a.offset - b.offset || b.length - a.length);
+  const stack: { entity: MessageEntity; end: number }[] = [];
+  let next = 0;
+  let html = "";
+
+  for (let i = 0; i <= text.length; i++) {
+    // Close every entity ending here, reopening inner ones that continue
+    const closeFrom = stack.findIndex((s) => s.end <= i);
+    if (closeFrom !== -1) {
+      const popped = stack.splice(closeFrom);
+      for (let k = popped.length - 1; k >= 0; k--) {
+        html += closeTag(popped[k]!.entity);
+      }
+      for (const s of popped) {
+        if (s.end > i) {
+          html += openTag(s.entity);
+          stack.push(s);
+        }
+      }
+    }
+
+    if (i === text.length) break;
+
+    while (next < sorted.length && sorted[next]!.offset === i) {
+      const entity = sorted[next++]!;
+      if (entity.length <= 0) continue;
+      html += openTag(entity);
+      stack.push({ entity, end: entity.offset + entity.length });
+    }
+
+    html += escapeHtml(text[i]!);
+  }
+
+  return html;
+}
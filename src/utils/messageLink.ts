@@ -1,3 +1,5 @@
+import { requireEnv } from "./env.js";
+
 /**
  * Parsed result from a Telegram message link.
  */
@@ -52,3 +54,56 @@ export function parseMessageLink(url: string): ParsedMessageLink | null {
 
   return null;
 }
+
+/**
+ * Builds a t.me/c link to a message in a supergroup or channel.
+ * Works for chat members regardless of whether the chat is public.
+ *
+ * @returns The link, or null for basic groups, whose messages have no links
+ */
+export function buildMessageLink(chatId: number, messageId: number): string | null {
+  const raw = String(chatId);
+  if (!raw.startsWith("-100")) return null;
+  return `https://t.me/c/${raw.slice(4)}/${messageId}`;
+}
+
+/**
+ * Parses a link to a forum topic, or to a message inside a topic.
+ *
+ * Supported formats:
+ * - https://t.me/c/1234567890/45 and https://t.me/c/1234567890/45/678
+ * - https://t.me/group_username/45 and https://t.me/group_username/45/678
+ *
+ * The first number after the chat is the topic's message_thread_id.
+ *
+ * @returns Chat and thread ID, or null if the URL format is invalid
+ */
+export function parseTopicLink(url: string): { chatId: number | string; threadId: number } | null {
+  const match = url
+    .trim()
+    .match(/(?:https?:\/\/)?t\.me\/(?:c\/(\d+)|([a-zA-Z_][a-zA-Z0-9_]{4,}))\/(\d+)(?:\/\d+)?\/?$/);
+  if (!match) return null;
+
+  const threadId = parseInt(match[3]!, 10);
+  if (match[1]) {
+    return { chatId: parseInt(`-100${match[1]}`, 10), threadId };
+  }
+  return { chatId: `@${match[2]}`, threadId };
+}
+
+/**
+ * Builds a deep link that opens the bot's DM and sends /start with the payload.
+ * Payloads may contain only A-Z, a-z, 0-9, "_" and "-" (up to 64 characters).
+ */
+export function buildStartLink(payload: string): string {
+  return `https://t.me/${requireEnv("BOT_USERNAME")}?start=${payload}`;
+}
+
+/**
+ * Builds a t.me/share link: opens the chat picker and sends the text
+ * followed by a link to the bot. Works without the bot's inline mode.
+ */
+export function buildShareLink(text: string): string {
+  const botLink = `https://t.me/${requireEnv("BOT_USERNAME")}`;
+  return `https://t.me/share/url?url=${encodeURIComponent(botLink)}&text=${encodeURIComponent(text)}`;
+}